@@ -7,32 +7,142 @@
  * 
  * Required environment variables:
  * - GOOGLE_CLOUD_PROJECT_ID (required) - Your Google Cloud project ID
- * - GOOGLE_CLOUD_CREDENTIALS (required) - Service account JSON string
+ *
+ * Optional environment variables:
+ * - GOOGLE_CLOUD_DNS_PROJECTS - Comma-separated project IDs tools may target with projectId
+ * - GOOGLE_CLOUD_CREDENTIALS - Service account JSON string or key file path
+ * - GOOGLE_CLOUD_ACCESS_TOKEN - Pre-minted OAuth2 bearer token
+ * - GOOGLE_APPLICATION_CREDENTIALS - Application Default Credentials file
+ * - GOOGLE_CLOUD_TOKEN_URI - OAuth2 token endpoint override
+ * - GOOGLE_CLOUD_DNS_API_ENDPOINT - Cloud DNS API base URL override
+ * - GOOGLE_CLOUD_DNS_WAIT_TIMEOUT_MS - How long to wait for changes to complete
+ * - GOOGLE_CLOUD_DNS_POLL_INTERVAL_MS / GOOGLE_CLOUD_DNS_MAX_POLL_INTERVAL_MS - Change polling backoff
+ * - GOOGLE_CLOUD_DNS_MAX_RETRIES - Retries for rate-limited or failed API requests
+ * - GOOGLE_CLOUD_DNS_REQUEST_TIMEOUT_MS - Timeout for a single API request
+ * - GOOGLE_CLOUD_DNS_MAX_CONCURRENCY - Maximum concurrent API requests
+ * - GOOGLE_CLOUD_DNS_GUARDRAILS - Path to a JSON/YAML guardrails policy for mutating tools
+ * - GOOGLE_CLOUD_DNS_AUDIT_LOG - Path of a JSON Lines audit log of mutating tool calls
+ * - GOOGLE_CLOUD_DNS_READ_ONLY - Set to true to register only read-only tools (or pass --read-only)
+ * - GOOGLE_CLOUD_DNS_ALLOW_TOOLS / GOOGLE_CLOUD_DNS_DENY_TOOLS - Comma-separated tool names to
+ *   register or leave out, '*' matching any characters (or pass --allow-tools= / --deny-tools=)
  * 
  * Available tools:
  * - gcloud_dns_list_zones: List all DNS managed zones
+ * - gcloud_dns_list_projects_zones: List zones across all configured projects
  * - gcloud_dns_get_zone: Get details for a specific managed zone
+ * - gcloud_dns_create_zone: Create a new managed zone
+ * - gcloud_dns_update_zone: Update a managed zone's description, labels or DNSSEC settings
+ * - gcloud_dns_delete_zone: Delete an empty managed zone
  * - gcloud_dns_list_records: List DNS records in a managed zone
  * - gcloud_dns_create_record: Create a new DNS record
  * - gcloud_dns_update_record: Update an existing DNS record
  * - gcloud_dns_delete_record: Delete a DNS record
+ * - gcloud_dns_apply_changes: Apply multiple record operations as one atomic change
+ * - gcloud_dns_list_changes: List a zone's change history as record diffs
+ * - gcloud_dns_get_change: Get a change's status and record diff
+ * - gcloud_dns_wait_for_change: Wait for a pending change to complete
+ * - gcloud_dns_revert_change: Revert a completed change unless its records have drifted
+ * - gcloud_dns_export_zone_file: Export a zone as a BIND zone file
+ * - gcloud_dns_import_zone_file: Import a BIND zone file into a zone
+ * - gcloud_dns_sync_zone: Reconcile a zone with a desired-state JSON/YAML spec
+ * - gcloud_dns_enable_dnssec: Enable DNSSEC (algorithm, key sizes) or start/finish a DNSSEC transfer
+ * - gcloud_dns_disable_dnssec: Disable DNSSEC once the registrar's DS records are gone
+ * - gcloud_dns_list_dns_keys: List a zone's DNSSEC keys
+ * - gcloud_dns_get_ds_records: Get the DS records to publish at the registrar
+ * - gcloud_dns_list_policies: List DNS server policies
+ * - gcloud_dns_create_policy: Create a server policy (inbound forwarding, logging, alternative name servers)
+ * - gcloud_dns_update_policy: Update a server policy or the networks it is attached to
+ * - gcloud_dns_delete_policy: Delete a detached server policy
+ * - gcloud_dns_list_response_policies: List response policies (DNS firewall)
+ * - gcloud_dns_create_response_policy: Create a response policy and attach it to networks
+ * - gcloud_dns_update_response_policy: Update a response policy or its networks
+ * - gcloud_dns_delete_response_policy: Delete an empty, detached response policy
+ * - gcloud_dns_list_response_policy_rules: List the rules of a response policy
+ * - gcloud_dns_create_response_policy_rule: Add a local data or passthru rule
+ * - gcloud_dns_update_response_policy_rule: Update a response policy rule
+ * - gcloud_dns_delete_response_policy_rule: Delete a response policy rule
+ * - gcloud_dns_audit_log: Query the audit log by zone, record name, tool or time range
  */
 
-import { createMCPServer, startMCPServer, type Tool } from "./lib/mcp-core.js";
+import { createMCPServer, startMCPServer, type Tool, type ToolFilter } from "./lib/mcp-core.js";
 import { GoogleCloudDNSClient, getGoogleCloudCredentials } from "./lib/client.js";
+import { loadGuardrails } from "./lib/guardrails.js";
+import { auditTool, openAuditLog } from "./lib/audit.js";
 import { createDomainTools } from "./tools/domains.js";
+import { createChangeTools } from "./tools/changes.js";
+import { createZoneFileTools } from "./tools/zonefile.js";
+import { createSyncTools } from "./tools/sync.js";
+import { createDnssecTools } from "./tools/dnssec.js";
+import { createPolicyTools } from "./tools/policies.js";
+import { createResponsePolicyTools } from "./tools/responsepolicies.js";
+import { createAuditTools } from "./tools/audit.js";
+
+function splitList(value: string | undefined): string[] | undefined {
+  const items = (value || "").split(",").map(item => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Read the tool filter from command-line flags, falling back to the environment
+ */
+function getToolFilter(args: string[]): ToolFilter {
+  const flags = new Map<string, string>();
+  for (let i = 0; i < args.length; i++) {
+    const match = /^--(read-only|allow-tools|deny-tools)(?:=(.*))?$/.exec(args[i]);
+    if (!match) {
+      throw new Error(`Unknown argument '${args[i]}'; expected --read-only, --allow-tools=<names> or --deny-tools=<names>`);
+    }
+    const [, flag, inline] = match;
+    flags.set(flag, inline ?? (flag === "read-only" ? "true" : args[++i] ?? ""));
+  }
+
+  const readOnly = flags.get("read-only") ?? process.env.GOOGLE_CLOUD_DNS_READ_ONLY ?? "";
+  if (readOnly && !["true", "false", "1", "0"].includes(readOnly.toLowerCase())) {
+    throw new Error(`Read-only mode must be true or false, got '${readOnly}'`);
+  }
+
+  return {
+    readOnly: ["true", "1"].includes(readOnly.toLowerCase()),
+    allowTools: splitList(flags.get("allow-tools") ?? process.env.GOOGLE_CLOUD_DNS_ALLOW_TOOLS),
+    denyTools: splitList(flags.get("deny-tools") ?? process.env.GOOGLE_CLOUD_DNS_DENY_TOOLS),
+  };
+}
 
 async function initServer() {
   try {
+    // Check the tool filter first so a typo fails before any credentials are read
+    const toolFilter = getToolFilter(process.argv.slice(2));
+
     // Get credentials from environment variables
     const credentials = getGoogleCloudCredentials();
     
     // Create client with credentials
     const client = new GoogleCloudDNSClient(credentials);
+
+    // An invalid policy file stops the server rather than running without limits
+    const guardrailsFile = process.env.GOOGLE_CLOUD_DNS_GUARDRAILS;
+    const guardrails = loadGuardrails(guardrailsFile);
+    if (guardrailsFile) {
+      console.error(`[MCP] Guardrails policy loaded from ${guardrailsFile}`);
+    }
+
+    // Likewise, an unwritable audit log stops the server before any unrecorded change
+    const auditFile = process.env.GOOGLE_CLOUD_DNS_AUDIT_LOG;
+    const audit = openAuditLog(auditFile);
+    if (audit) {
+      console.error(`[MCP] Recording mutating tool calls in ${auditFile}`);
+    }
     
     // Create tools
     const tools: Tool[] = [
-      ...createDomainTools(client),
+      ...createDomainTools(client, guardrails),
+      ...createChangeTools(client, guardrails),
+      ...createZoneFileTools(client, guardrails),
+      ...createSyncTools(client, guardrails),
+      ...createDnssecTools(client, guardrails),
+      ...createPolicyTools(client, guardrails),
+      ...createResponsePolicyTools(client, guardrails),
+      ...createAuditTools(audit),
     ];
 
     const server = createMCPServer(
@@ -40,13 +150,14 @@ async function initServer() {
         name: "gcloud-dns-mcp",
         version: "1.0.0",
         description: "Google Cloud DNS zones and records management via API",
+        ...toolFilter,
       },
-      tools
+      audit ? tools.map(tool => auditTool(tool, audit, client)) : tools
     );
 
     // Start server
     await startMCPServer(server);
-    console.error(`[MCP] Google Cloud DNS server ready with ${tools.length} tools`);
+    console.error(`[MCP] Google Cloud DNS server ready${toolFilter.readOnly ? " in read-only mode" : ""}`);
   } catch (error) {
     console.error('[MCP] Failed to start server:', error);
     process.exit(1);
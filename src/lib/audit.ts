@@ -0,0 +1,254 @@
+import { appendFileSync } from 'node:fs';
+import { appendFile, readFile } from 'node:fs/promises';
+import { AuditEntry, AuditedChange, Change } from '../types/index.js';
+import type { GoogleCloudDNSClient } from './client.js';
+import type { Tool, ToolContext, ToolDefinition, ToolResult } from './mcp-core.js';
+import { normalizeName, resolveRecordName } from './names.js';
+
+export interface AuditQuery {
+  projectId?: string;
+  zoneName?: string;
+  /** Record name, absolute or relative to each entry's zone; also matches names below it */
+  name?: string;
+  tool?: string;
+  since?: Date;
+  until?: Date;
+  /** Newest entries to return (all when omitted) */
+  limit?: number;
+}
+
+export interface AuditQueryResult {
+  /** Matching entries, newest first */
+  entries: AuditEntry[];
+  /** Matching entries before the limit was applied */
+  total: number;
+  /** Lines that could not be parsed and were skipped */
+  malformed: number;
+}
+
+/**
+ * Qualify a name against the entry's zone; without a known zone DNS name,
+ * the name is taken as absolute
+ */
+function qualifyEntryName(name: string, entry: AuditEntry): string {
+  return entry.dnsName ? resolveRecordName(name, entry.dnsName) : normalizeName(name);
+}
+
+/**
+ * Record names an entry touched: the changed rrsets, plus the names in the
+ * arguments so failed calls without a change can still be found
+ */
+function entryNames(entry: AuditEntry): string[] {
+  const operations = Array.isArray(entry.arguments.operations) ? entry.arguments.operations : [];
+  return [
+    ...entry.changes.flatMap(change => [...change.before, ...change.after].map(record => record.name)),
+    entry.arguments.name,
+    ...operations.map((operation: any) => operation?.name),
+  ]
+    .filter((name): name is string => typeof name === 'string' && name !== '')
+    .map(name => qualifyEntryName(name, entry));
+}
+
+function matchesQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  const time = Date.parse(entry.timestamp);
+  if (
+    (query.since && time < query.since.getTime()) ||
+    (query.until && time > query.until.getTime()) ||
+    (query.tool && entry.tool !== query.tool) ||
+    (query.projectId && entry.projectId !== query.projectId) ||
+    (query.zoneName && entry.zoneName !== query.zoneName)
+  ) {
+    return false;
+  }
+
+  if (query.name) {
+    const target = qualifyEntryName(query.name, entry);
+    return entryNames(entry).some(name => name === target || name.endsWith(`.${target}`));
+  }
+  return true;
+}
+
+/**
+ * Append-only JSON Lines log of mutating tool calls. Writes are serialized so
+ * entries from concurrent calls never interleave.
+ */
+export class AuditLog {
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(readonly path: string) {}
+
+  append(entry: AuditEntry): Promise<void> {
+    const write = this.queue.then(() => appendFile(this.path, `${JSON.stringify(entry)}\n`, { mode: 0o600 }));
+    this.queue = write.catch(() => {});
+    return write;
+  }
+
+  async query(query: AuditQuery = {}): Promise<AuditQueryResult> {
+    let text: string;
+    try {
+      text = await readFile(this.path, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return { entries: [], total: 0, malformed: 0 };
+      }
+      throw error;
+    }
+
+    let malformed = 0;
+    const matches: AuditEntry[] = [];
+    for (const line of text.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        malformed++;
+        continue;
+      }
+      if (matchesQuery(entry, query)) {
+        matches.push(entry);
+      }
+    }
+
+    matches.reverse();
+    return {
+      entries: query.limit === undefined ? matches : matches.slice(0, query.limit),
+      total: matches.length,
+      malformed,
+    };
+  }
+}
+
+/**
+ * Open the audit log, or return undefined when no path is configured. The
+ * file is created up front so an unwritable path stops the server at startup
+ * instead of failing after the first change has been made.
+ */
+export function openAuditLog(path?: string): AuditLog | undefined {
+  if (!path) {
+    return undefined;
+  }
+
+  try {
+    appendFileSync(path, '', { mode: 0o600 });
+  } catch (error: any) {
+    throw new Error(`Cannot write audit log '${path}': ${error.message}`);
+  }
+  return new AuditLog(path);
+}
+
+function auditedChange(projectId: string, zoneName: string, change: Change): AuditedChange {
+  return {
+    projectId,
+    zoneName,
+    ...(change.id ? { changeId: change.id } : {}),
+    ...(change.status ? { status: change.status } : {}),
+    before: change.deletions || [],
+    after: change.additions || [],
+  };
+}
+
+function resultError(result: ToolResult): AuditEntry['error'] {
+  const error = (result.structuredContent as any)?.error;
+  if (error?.code && error?.message) {
+    return { code: error.code, message: error.message };
+  }
+  return { code: 'UNKNOWN', message: result.content.map(c => c.text).join('\n') };
+}
+
+/**
+ * The zone's DNS name, so relative record names in the entry can be matched
+ * later. Deleted zones and unreachable projects are left without one.
+ */
+async function zoneDnsName(
+  client: GoogleCloudDNSClient,
+  projectId: string,
+  zoneName: string,
+  args: Record<string, unknown>
+): Promise<string | undefined> {
+  try {
+    return (await client.forProject(projectId).getManagedZone(zoneName)).dnsName;
+  } catch {
+    return typeof args.dnsName === 'string' && args.dnsName ? normalizeName(args.dnsName) : undefined;
+  }
+}
+
+/**
+ * Wrap a tool so every call is written to the audit log. Read-only tools are
+ * returned unchanged. If the entry cannot be written, the call's result still
+ * comes back, with a warning, since the change has already been made.
+ */
+export function auditTool(tool: Tool | ToolDefinition, log: AuditLog, client: GoogleCloudDNSClient): ToolDefinition {
+  const definition = 'toDefinition' in tool ? tool.toDefinition() : tool;
+  if (definition.annotations?.readOnlyHint === true) {
+    return definition;
+  }
+
+  return {
+    ...definition,
+    handler: async (args, context) => {
+      const started = new Date();
+      const changes: AuditedChange[] = [];
+      const callContext: ToolContext = {
+        reportProgress: async () => {},
+        ...context,
+        recordChange: (projectId, zoneName, change) => {
+          const audited = auditedChange(projectId, zoneName, change);
+          const i = changes.findIndex(c => c.changeId && c.changeId === audited.changeId && c.zoneName === zoneName && c.projectId === projectId);
+          if (i >= 0) {
+            changes[i] = audited;
+          } else {
+            changes.push(audited);
+          }
+        },
+      };
+
+      const projectId = typeof args.projectId === 'string' && args.projectId ? args.projectId : client.projectId;
+      const zoneName = typeof args.zoneName === 'string' && args.zoneName ? args.zoneName : undefined;
+
+      const write = async (status: AuditEntry['status'], error?: AuditEntry['error']): Promise<string | undefined> => {
+        const dnsName = zoneName ? await zoneDnsName(client, projectId, zoneName, args) : undefined;
+        const entry: AuditEntry = {
+          timestamp: started.toISOString(),
+          tool: definition.name,
+          arguments: args,
+          projectId,
+          ...(zoneName ? { zoneName } : {}),
+          ...(dnsName ? { dnsName } : {}),
+          status,
+          changes,
+          ...(error ? { error } : {}),
+          durationMs: Date.now() - started.getTime(),
+        };
+        try {
+          await log.append(entry);
+          return undefined;
+        } catch (writeError: any) {
+          console.error(`[MCP] Failed to write audit log entry for ${definition.name}:`, writeError);
+          return writeError.message;
+        }
+      };
+
+      let result: ToolResult;
+      try {
+        result = await definition.handler(args, callContext);
+      } catch (error) {
+        await write('failed', { code: 'UNKNOWN', message: error instanceof Error ? error.message : String(error) });
+        throw error;
+      }
+
+      const writeError = result.isError
+        ? await write('failed', resultError(result))
+        : await write(args.dryRun === true ? 'dryRun' : 'succeeded');
+      if (!writeError) {
+        return result;
+      }
+      return {
+        ...result,
+        content: [...result.content, { type: 'text', text: `⚠️ This call could not be written to the audit log: ${writeError}` }],
+      };
+    },
+  };
+}
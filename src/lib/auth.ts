@@ -0,0 +1,289 @@
+import { createSign } from 'node:crypto';
+import { existsSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { GoogleCloudConfig } from '../types/index.js';
+import { AuthenticationError } from './errors.js';
+
+export const DEFAULT_TOKEN_URI = 'https://oauth2.googleapis.com/token';
+export const DNS_SCOPE = 'https://www.googleapis.com/auth/ndev.clouddns.readwrite';
+
+const DEFAULT_METADATA_HOST = 'metadata.google.internal';
+
+export interface AccessToken {
+  token: string;
+  expiresAt?: number; // Epoch milliseconds; undefined means the token never expires locally
+}
+
+/**
+ * Source of OAuth2 bearer tokens for the Cloud DNS API
+ */
+export interface CredentialProvider {
+  readonly name: string;
+  getAccessToken(): Promise<AccessToken>;
+}
+
+interface ServiceAccountKey {
+  type?: 'service_account';
+  client_email: string;
+  private_key: string;
+  private_key_id?: string;
+  token_uri?: string;
+}
+
+interface AuthorizedUserCredentials {
+  type: 'authorized_user';
+  client_id: string;
+  client_secret: string;
+  refresh_token: string;
+}
+
+function base64url(input: string | Buffer): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+/**
+ * Create a JWT signed with RS256 using a PEM-encoded private key
+ */
+export function createJWT(header: Record<string, unknown>, payload: Record<string, unknown>, privateKey: string): string {
+  const message = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(payload))}`;
+
+  let signature: Buffer;
+  try {
+    signature = createSign('RSA-SHA256').update(message).end().sign(privateKey);
+  } catch (error: any) {
+    throw new Error(`Failed to sign JWT with service account private key: ${error.message}`);
+  }
+
+  return `${message}.${base64url(signature)}`;
+}
+
+/**
+ * Parse an OAuth2 token endpoint response
+ */
+async function readTokenResponse(response: Response): Promise<AccessToken> {
+  if (!response.ok) {
+    const error = await response.text();
+    throw new AuthenticationError(`Failed to get access token: ${error}`, { status: response.status });
+  }
+
+  const tokenData = await response.json() as { access_token?: string; expires_in?: number };
+  if (!tokenData.access_token) {
+    throw new AuthenticationError('Failed to get access token: token endpoint returned no access_token');
+  }
+
+  return {
+    token: tokenData.access_token,
+    expiresAt: Date.now() + (tokenData.expires_in ?? 3600) * 1000,
+  };
+}
+
+/**
+ * Service account key: signs a JWT assertion and exchanges it for a token
+ */
+export class ServiceAccountCredentialProvider implements CredentialProvider {
+  readonly name = 'service-account';
+
+  constructor(private key: ServiceAccountKey, private tokenUri?: string) {
+    if (!key.client_email || !key.private_key) {
+      throw new Error('Service account credentials must include client_email and private_key');
+    }
+  }
+
+  async getAccessToken(): Promise<AccessToken> {
+    // Explicit config wins, then the key file's own token_uri, then Google's default
+    const tokenUri = this.tokenUri || this.key.token_uri || DEFAULT_TOKEN_URI;
+
+    const now = Math.floor(Date.now() / 1000);
+    const payload = {
+      iss: this.key.client_email,
+      scope: DNS_SCOPE,
+      aud: tokenUri,
+      iat: now,
+      exp: now + 3600,
+    };
+
+    const header: Record<string, string> = {
+      alg: 'RS256',
+      typ: 'JWT'
+    };
+    if (this.key.private_key_id) {
+      header.kid = this.key.private_key_id;
+    }
+
+    const response = await fetch(tokenUri, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion: createJWT(header, payload, this.key.private_key),
+      }),
+    });
+
+    return readTokenResponse(response);
+  }
+}
+
+/**
+ * gcloud user credentials (`gcloud auth application-default login`): refresh token grant
+ */
+export class AuthorizedUserCredentialProvider implements CredentialProvider {
+  readonly name = 'authorized-user';
+
+  constructor(private credentials: AuthorizedUserCredentials, private tokenUri?: string) {
+    if (!credentials.client_id || !credentials.client_secret || !credentials.refresh_token) {
+      throw new Error('Authorized user credentials must include client_id, client_secret and refresh_token');
+    }
+  }
+
+  async getAccessToken(): Promise<AccessToken> {
+    const response = await fetch(this.tokenUri || DEFAULT_TOKEN_URI, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        grant_type: 'refresh_token',
+        client_id: this.credentials.client_id,
+        client_secret: this.credentials.client_secret,
+        refresh_token: this.credentials.refresh_token,
+      }),
+    });
+
+    return readTokenResponse(response);
+  }
+}
+
+/**
+ * GCE/GKE metadata server: tokens for the attached service account or workload identity
+ */
+export class MetadataServerCredentialProvider implements CredentialProvider {
+  readonly name = 'metadata-server';
+  private host: string;
+
+  constructor(host?: string) {
+    this.host = host || process.env.GCE_METADATA_HOST || DEFAULT_METADATA_HOST;
+  }
+
+  async getAccessToken(): Promise<AccessToken> {
+    const url = `http://${this.host}/computeMetadata/v1/instance/service-accounts/default/token` +
+      `?scopes=${encodeURIComponent(DNS_SCOPE)}`;
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: { 'Metadata-Flavor': 'Google' },
+        signal: AbortSignal.timeout(5000),
+      });
+    } catch (error: any) {
+      throw new AuthenticationError(
+        `Failed to reach the metadata server at ${this.host} (${error.message}). ` +
+        'Configure GOOGLE_CLOUD_CREDENTIALS, GOOGLE_APPLICATION_CREDENTIALS or GOOGLE_CLOUD_ACCESS_TOKEN when not running on Google Cloud.',
+        { cause: error }
+      );
+    }
+
+    return readTokenResponse(response);
+  }
+}
+
+/**
+ * Pre-minted bearer token, used as-is until the API rejects it
+ */
+export class StaticTokenCredentialProvider implements CredentialProvider {
+  readonly name = 'access-token';
+
+  constructor(private token: string) {
+    if (!token) {
+      throw new Error('Access token must not be empty');
+    }
+  }
+
+  async getAccessToken(): Promise<AccessToken> {
+    return { token: this.token };
+  }
+}
+
+/**
+ * Build a provider from a parsed credentials JSON document
+ */
+export function credentialProviderFromJSON(credentials: any, tokenUri?: string): CredentialProvider {
+  switch (credentials?.type) {
+    case 'service_account':
+    case undefined:
+      return new ServiceAccountCredentialProvider(credentials, tokenUri);
+    case 'authorized_user':
+      return new AuthorizedUserCredentialProvider(credentials, tokenUri);
+    default:
+      throw new Error(`Unsupported credentials type '${credentials.type}'. Use a service_account key or authorized_user credentials.`);
+  }
+}
+
+/**
+ * Load credentials from a JSON string or a path to a JSON file
+ */
+function loadCredentials(value: string, source: string): any {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('{')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      throw new Error(`${source} must be a valid JSON string or a path to a JSON key file`);
+    }
+  }
+
+  let contents: string;
+  try {
+    contents = readFileSync(trimmed, 'utf8');
+  } catch (error: any) {
+    throw new Error(`Failed to read credentials file '${trimmed}' from ${source}: ${error.message}`);
+  }
+
+  try {
+    return JSON.parse(contents);
+  } catch {
+    throw new Error(`Credentials file '${trimmed}' from ${source} is not valid JSON`);
+  }
+}
+
+/**
+ * Location of the credentials written by `gcloud auth application-default login`
+ */
+function gcloudADCPath(): string {
+  const configDir = process.env.CLOUDSDK_CONFIG ||
+    (process.platform === 'win32' && process.env.APPDATA
+      ? join(process.env.APPDATA, 'gcloud')
+      : join(homedir(), '.config', 'gcloud'));
+  return join(configDir, 'application_default_credentials.json');
+}
+
+/**
+ * Resolve the credential provider for a config.
+ *
+ * Order: static access token, explicit credentials (JSON or file path),
+ * GOOGLE_APPLICATION_CREDENTIALS, gcloud application default credentials,
+ * then the metadata server.
+ */
+export function resolveCredentialProvider(config: GoogleCloudConfig): CredentialProvider {
+  if (config.accessToken) {
+    return new StaticTokenCredentialProvider(config.accessToken);
+  }
+
+  if (config.credentials) {
+    return credentialProviderFromJSON(loadCredentials(config.credentials, 'GOOGLE_CLOUD_CREDENTIALS'), config.tokenUri);
+  }
+
+  const adcFile = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+  if (adcFile) {
+    return credentialProviderFromJSON(loadCredentials(adcFile, 'GOOGLE_APPLICATION_CREDENTIALS'), config.tokenUri);
+  }
+
+  const gcloudFile = gcloudADCPath();
+  if (existsSync(gcloudFile)) {
+    return credentialProviderFromJSON(loadCredentials(gcloudFile, 'gcloud application default credentials'), config.tokenUri);
+  }
+
+  return new MetadataServerCredentialProvider();
+}
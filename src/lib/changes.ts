@@ -0,0 +1,544 @@
+import { Change, RecordOperation, ResourceRecordSet, WaitOptions } from '../types/index.js';
+import { GoogleCloudDNSClient } from './client.js';
+import { ToolContext } from './mcp-core.js';
+import { isInZone, normalizeName, resolveRecordName } from './names.js';
+import { summarizeRoutingPolicy, validateRoutingPolicy } from './routing.js';
+import { formatFieldErrors, validateRecord } from './validation.js';
+
+const DEFAULT_TTL = 300;
+
+// Cloud DNS default quota for rrset additions and deletions per change
+export const MAX_RRSETS_PER_CHANGE = 100;
+
+export interface PlannedOperation {
+  operation: RecordOperation;
+  before?: ResourceRecordSet;
+  after?: ResourceRecordSet;
+  error?: string;
+  /** Safe fixes applied to the operation's name or values */
+  normalized?: string[];
+}
+
+export interface ChangePlan {
+  operations: PlannedOperation[];
+  change: Change;
+  valid: boolean;
+}
+
+function recordKey(name: string, type: string): string {
+  return `${name} ${type.toUpperCase()}`;
+}
+
+/**
+ * Collect the rrsets each operation removes and adds into a Change body
+ */
+function buildChange(operations: PlannedOperation[]): Change {
+  const additions = operations.flatMap(p => (p.after ? [p.after] : []));
+  const deletions = operations.flatMap(p => (p.before ? [p.before] : []));
+
+  return {
+    ...(additions.length > 0 ? { additions } : {}),
+    ...(deletions.length > 0 ? { deletions } : {}),
+  };
+}
+
+/**
+ * The rrdatas or routing policy an operation writes
+ */
+function answers(source: Pick<ResourceRecordSet, 'rrdatas' | 'routingPolicy'>): Pick<ResourceRecordSet, 'rrdatas' | 'routingPolicy'> {
+  return source.routingPolicy ? { routingPolicy: source.routingPolicy } : { rrdatas: source.rrdatas };
+}
+
+/**
+ * Check the shape of a single operation before anything is looked up
+ */
+function validateOperation(operation: RecordOperation): string | undefined {
+  if (!['create', 'update', 'delete'].includes(operation?.action)) {
+    return "action must be one of: create, update, delete";
+  }
+  if (!operation.name || typeof operation.name !== 'string') {
+    return "name must be a string";
+  }
+  if (!operation.type || typeof operation.type !== 'string') {
+    return "type must be a string";
+  }
+  if (operation.ttl !== undefined && (!Number.isInteger(operation.ttl) || operation.ttl < 0)) {
+    return "ttl must be a non-negative integer";
+  }
+  if (operation.action !== 'delete' && operation.routingPolicy !== undefined) {
+    if (operation.rrdatas !== undefined) {
+      return "rrdatas and routingPolicy cannot be combined; put the values in the routing policy items";
+    }
+  } else if (operation.action !== 'delete' &&
+      (!Array.isArray(operation.rrdatas) || operation.rrdatas.length === 0 ||
+       !operation.rrdatas.every(value => typeof value === 'string'))) {
+    return "rrdatas must be a non-empty array of strings (or set routingPolicy)";
+  }
+  // Same rule as the single-record delete tool
+  if (operation.action === 'delete' && ['NS', 'SOA'].includes(operation.type.toUpperCase())) {
+    return `Cannot delete ${operation.type.toUpperCase()} records as they are required for proper DNS functioning`;
+  }
+  return undefined;
+}
+
+/**
+ * Resolve the current rrsets for a list of operations and build a single atomic Change.
+ *
+ * Names may be '@', relative to the zone or absolute with or without the
+ * trailing dot; names outside the zone are rejected before any lookup.
+ * Every operation is checked against the live zone: creates must not collide
+ * with an existing rrset, updates and deletes must find one. If any operation
+ * fails, the plan is marked invalid and its change must not be submitted.
+ * Shape errors, including NS/SOA deletions, are found before the zone is
+ * fetched, so a plan with nothing valid to look up makes no API calls.
+ */
+export async function planChange(
+  client: GoogleCloudDNSClient,
+  zoneName: string,
+  operations: RecordOperation[]
+): Promise<ChangePlan> {
+  const shapeErrors = operations.map(validateOperation);
+  if (shapeErrors.every(Boolean)) {
+    return {
+      operations: operations.map((operation, i) => ({ operation, error: shapeErrors[i] })),
+      change: {},
+      valid: false,
+    };
+  }
+
+  const zone = await client.getManagedZone(zoneName);
+  const origin = zone.dnsName!;
+
+  const seen = new Set<string>();
+  const planned: PlannedOperation[] = operations.map((operation, i) => {
+    const error = shapeErrors[i];
+    if (error) {
+      return { operation, error };
+    }
+
+    const name = resolveRecordName(operation.name, origin);
+    if (!isInZone(name, origin)) {
+      return { operation, error: `${operation.name} is outside zone '${zoneName}' (${origin})` };
+    }
+
+    const type = operation.type.toUpperCase();
+    const routed = operation.action !== 'delete' && operation.routingPolicy !== undefined;
+    const validation = validateRecord(name, type, operation.action === 'delete' || routed ? [] : operation.rrdatas!, origin);
+    if (validation.errors.length > 0) {
+      return { operation, error: `Invalid ${type} record: ${formatFieldErrors(validation.errors)}` };
+    }
+    const routing = routed ? validateRoutingPolicy(validation.name, type, operation.routingPolicy!, origin) : undefined;
+    if (routing && routing.errors.length > 0) {
+      return { operation, error: `Invalid ${type} routing policy: ${routing.errors.join('; ')}` };
+    }
+    if (validation.name !== operation.name) {
+      validation.normalized.unshift(`name: '${operation.name}' → '${validation.name}'`);
+    }
+
+    const normalizedOperation: RecordOperation = {
+      ...operation,
+      name: validation.name,
+      type,
+      ...(routing ? { routingPolicy: routing.policy } : operation.action !== 'delete' ? { rrdatas: validation.rrdatas } : {}),
+    };
+
+    const key = recordKey(normalizedOperation.name, type);
+    if (seen.has(key)) {
+      return { operation, error: `${normalizedOperation.name} (${type}) appears more than once in this change` };
+    }
+    seen.add(key);
+
+    return {
+      operation: normalizedOperation,
+      ...(validation.normalized.length > 0 ? { normalized: validation.normalized } : {}),
+    };
+  });
+
+  await Promise.all(planned.filter(p => !p.error).map(async p => {
+    const { operation } = p;
+    const records = await client.listRecords(zoneName, operation.type, operation.name);
+    const existing = records.find(r => normalizeName(r.name || '') === operation.name && r.type === operation.type);
+
+    switch (operation.action) {
+      case 'create':
+        if (existing) {
+          p.error = `${operation.name} (${operation.type}) already exists; use update instead`;
+          return;
+        }
+        p.after = {
+          name: operation.name,
+          type: operation.type,
+          ttl: operation.ttl ?? DEFAULT_TTL,
+          ...answers(operation),
+        };
+        return;
+      case 'update':
+        if (!existing) {
+          p.error = `${operation.name} (${operation.type}) not found in zone '${zoneName}'`;
+          return;
+        }
+        p.before = existing;
+        p.after = {
+          name: operation.name,
+          type: operation.type,
+          ttl: operation.ttl ?? existing.ttl ?? DEFAULT_TTL,
+          ...answers(operation),
+        };
+        return;
+      case 'delete':
+        if (!existing) {
+          p.error = `${operation.name} (${operation.type}) not found in zone '${zoneName}'`;
+          return;
+        }
+        p.before = existing;
+        return;
+    }
+  }));
+
+  return {
+    operations: planned,
+    change: buildChange(planned),
+    valid: planned.every(p => !p.error),
+  };
+}
+
+// Types allowed to share a name with a CNAME (DNSSEC bookkeeping)
+const CNAME_COMPATIBLE_TYPES = new Set(['CNAME', 'RRSIG', 'NSEC', 'NSEC3']);
+
+/**
+ * Detect conflicts the change would introduce, judged against the full set of
+ * rrsets at every name it adds to
+ */
+export async function detectConflicts(
+  client: GoogleCloudDNSClient,
+  zoneName: string,
+  change: Change
+): Promise<string[]> {
+  const conflicts: string[] = [];
+  const names = [...new Set((change.additions || []).map(r => r.name!))];
+
+  await Promise.all(names.map(async name => {
+    const current = await client.listRecords(zoneName, undefined, name);
+    const deleted = new Set((change.deletions || []).filter(r => r.name === name).map(r => r.type));
+    const added = (change.additions || []).filter(r => r.name === name);
+
+    const finalTypes = new Set([
+      ...current.filter(r => r.name === name && !deleted.has(r.type)).map(r => r.type!),
+      ...added.map(r => r.type!),
+    ]);
+
+    if (finalTypes.has('CNAME')) {
+      const others = [...finalTypes].filter(type => !CNAME_COMPATIBLE_TYPES.has(type));
+      if (others.length > 0) {
+        conflicts.push(`${name} would have a CNAME alongside ${others.join(', ')} records; a CNAME cannot coexist with other types`);
+      }
+    }
+
+    for (const record of added) {
+      if (record.type === 'CNAME' && (record.rrdatas?.length || 0) > 1) {
+        conflicts.push(`${name} CNAME has ${record.rrdatas!.length} values; a CNAME must have exactly one`);
+      }
+    }
+  }));
+
+  return conflicts.sort();
+}
+
+function formatRRSet(record: ResourceRecordSet): string {
+  const data = record.routingPolicy ? summarizeRoutingPolicy(record.routingPolicy) : record.rrdatas?.join(' | ') || '';
+  return `${record.name} ${record.type} ${record.ttl} ${data}`.trimEnd();
+}
+
+/**
+ * Render a line diff of a change: deletions prefixed with '-', additions with '+'
+ */
+export function formatChangeDiff(change: Change): string {
+  const lines = [
+    ...(change.deletions || []).map(r => ({ key: `${r.name} ${r.type}`, order: 0, text: `  - ${formatRRSet(r)}` })),
+    ...(change.additions || []).map(r => ({ key: `${r.name} ${r.type}`, order: 1, text: `  + ${formatRRSet(r)}` })),
+  ];
+
+  // Keep each rrset's before/after lines next to each other
+  lines.sort((a, b) => a.key.localeCompare(b.key) || a.order - b.order);
+  return lines.map(line => line.text).join('\n') || '  (no changes)';
+}
+
+/**
+ * List the safe fixes applied while planning, if any
+ */
+export function formatNormalizations(plan: ChangePlan): string {
+  const notes = plan.operations.flatMap(p =>
+    (p.normalized || []).map(note => `  - ${p.operation.name} (${p.operation.type}) ${note}`)
+  );
+  return notes.length > 0 ? `Normalized values:\n${notes.join('\n')}\n\n` : '';
+}
+
+/**
+ * Render a dry-run preview of a planned change
+ */
+export function formatChangePreview(plan: ChangePlan, conflicts: string[]): string {
+  const errors = plan.operations.filter(p => p.error);
+
+  return `🔍 Dry run: no changes were submitted.\n\n` +
+    (errors.length > 0 ?
+      `❌ The change would be rejected:\n${errors.map(p => `  - ${p.operation.action} ${p.operation.name} (${p.operation.type}): ${p.error}`).join('\n')}\n\n` : '') +
+    formatNormalizations(plan) +
+    `Diff against current records:\n${formatChangeDiff(plan.change)}\n\n` +
+    `Conflicts:\n${conflicts.map(c => `  ⚠️ ${c}`).join('\n') || '  None detected'}\n\n` +
+    `Change body:\n${JSON.stringify(plan.change, null, 2)}`;
+}
+
+/**
+ * Detect conflicts for a plan and render its dry-run preview
+ */
+export async function previewChange(
+  client: GoogleCloudDNSClient,
+  zoneName: string,
+  plan: ChangePlan
+): Promise<string> {
+  const conflicts = await detectConflicts(client, zoneName, plan.change);
+  return formatChangePreview(plan, conflicts);
+}
+
+export interface RecordSetDiff {
+  creates: ResourceRecordSet[];
+  updates: Array<{ before: ResourceRecordSet; after: ResourceRecordSet }>;
+  deletes: ResourceRecordSet[];
+  unchanged: ResourceRecordSet[];
+}
+
+export interface DiffOptions {
+  /** Delete current rrsets that are absent from the desired set */
+  deleteMissing?: boolean;
+  /** Current or desired rrsets for which this returns true are left alone */
+  ignore?: (record: ResourceRecordSet) => boolean;
+}
+
+function rrsetKey(record: ResourceRecordSet): string {
+  return `${record.name?.toLowerCase()} ${record.type?.toUpperCase()}`;
+}
+
+function normalizeRdata(rdata: string): string {
+  return rdata.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Routing policy as JSON without the API's `kind` markers
+ */
+function routingPolicyKey(record: ResourceRecordSet): string {
+  return JSON.stringify(record.routingPolicy ?? null, (key, value) => (key === 'kind' ? undefined : value));
+}
+
+/**
+ * Whether two rrsets carry the same TTL and data, ignoring rdata order and spacing
+ */
+export function sameRecordSet(a: ResourceRecordSet, b: ResourceRecordSet): boolean {
+  const left = (a.rrdatas || []).map(normalizeRdata).sort();
+  const right = (b.rrdatas || []).map(normalizeRdata).sort();
+  return a.ttl === b.ttl && left.length === right.length && left.every((value, i) => value === right[i]) &&
+    routingPolicyKey(a) === routingPolicyKey(b);
+}
+
+/**
+ * Compare current rrsets with a desired set, keyed by name and type
+ */
+export function diffRecordSets(
+  current: ResourceRecordSet[],
+  desired: ResourceRecordSet[],
+  options: DiffOptions = {}
+): RecordSetDiff {
+  const ignore = options.ignore || (() => false);
+  const currentByKey = new Map(current.filter(r => !ignore(r)).map(r => [rrsetKey(r), r]));
+  const desiredKeys = new Set<string>();
+  const diff: RecordSetDiff = { creates: [], updates: [], deletes: [], unchanged: [] };
+
+  for (const record of desired) {
+    if (ignore(record)) {
+      continue;
+    }
+    const key = rrsetKey(record);
+    desiredKeys.add(key);
+
+    const existing = currentByKey.get(key);
+    if (!existing) {
+      diff.creates.push(record);
+    } else if (sameRecordSet(existing, record)) {
+      diff.unchanged.push(existing);
+    } else {
+      diff.updates.push({ before: existing, after: { ...record, name: existing.name, type: existing.type } });
+    }
+  }
+
+  if (options.deleteMissing) {
+    for (const [key, record] of currentByKey) {
+      if (!desiredKeys.has(key)) {
+        diff.deletes.push(record);
+      }
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Drop updates and deletions of rrsets that have a routing policy, for sources
+ * such as zone files that cannot express one; otherwise a plain record with
+ * the same name and type would silently replace the policy. Returns the
+ * rrsets that were left alone.
+ */
+export function keepRoutedRecordSets(diff: RecordSetDiff): ResourceRecordSet[] {
+  const kept = [
+    ...diff.updates.filter(update => update.before.routingPolicy).map(update => update.before),
+    ...diff.deletes.filter(record => record.routingPolicy),
+  ];
+  diff.updates = diff.updates.filter(update => !update.before.routingPolicy);
+  diff.deletes = diff.deletes.filter(record => !record.routingPolicy);
+  return kept;
+}
+
+/**
+ * Turn a diff into a change plan without further lookups
+ */
+export function planFromDiff(diff: RecordSetDiff): ChangePlan {
+  const toOperation = (action: RecordOperation['action'], record: ResourceRecordSet): RecordOperation => ({
+    action,
+    name: record.name!,
+    type: record.type!,
+    ...(action !== 'delete' ? { ttl: record.ttl, ...answers(record) } : {}),
+  });
+
+  const operations: PlannedOperation[] = [
+    ...diff.creates.map(after => ({ operation: toOperation('create', after), after })),
+    ...diff.updates.map(({ before, after }) => ({ operation: toOperation('update', after), before, after })),
+    ...diff.deletes.map(before => ({ operation: toOperation('delete', before), before })),
+  ];
+
+  return {
+    operations,
+    change: buildChange(operations),
+    valid: true,
+  };
+}
+
+/**
+ * Split a plan into as few changes as possible while staying under a per-change
+ * limit of additions and deletions, and optionally of rrsets touched. Deletes go
+ * first so names are freed before they are re-used, and an update's deletion and
+ * addition always share a change.
+ */
+export function splitChange(plan: ChangePlan, maxPerChange: number, maxRrsets = Infinity): Change[] {
+  const order = { delete: 0, update: 1, create: 2 };
+  const operations = [...plan.operations].sort((a, b) => order[a.operation.action] - order[b.operation.action]);
+
+  const batches: PlannedOperation[][] = [];
+  let batch: PlannedOperation[] = [];
+  let additions = 0;
+  let deletions = 0;
+
+  for (const operation of operations) {
+    const adds = operation.after ? 1 : 0;
+    const dels = operation.before ? 1 : 0;
+    if (batch.length > 0 &&
+        (additions + adds > maxPerChange || deletions + dels > maxPerChange || batch.length + 1 > maxRrsets)) {
+      batches.push(batch);
+      batch = [];
+      additions = 0;
+      deletions = 0;
+    }
+    batch.push(operation);
+    additions += adds;
+    deletions += dels;
+  }
+  if (batch.length > 0) {
+    batches.push(batch);
+  }
+
+  return batches.map(buildChange);
+}
+
+export interface RevertPlan {
+  plan: ChangePlan;
+  /** One message per rrset that no longer matches the change's post-state */
+  drift: string[];
+}
+
+/**
+ * Build the inverse of a completed change: re-add what it deleted and remove
+ * what it added. `current` must hold the live rrsets for the names the change
+ * touched; any rrset that differs from the change's post-state is reported as
+ * drift instead of being reverted. SOA rrsets are skipped because Cloud DNS
+ * bumps the serial on every change.
+ */
+export function planRevert(change: Change, current: ResourceRecordSet[]): RevertPlan {
+  const isSOA = (record: ResourceRecordSet) => record.type?.toUpperCase() === 'SOA';
+  const added = new Map((change.additions || []).filter(r => !isSOA(r)).map(r => [rrsetKey(r), r]));
+  const removed = new Map((change.deletions || []).filter(r => !isSOA(r)).map(r => [rrsetKey(r), r]));
+  const live = new Map(current.map(r => [rrsetKey(r), r]));
+
+  const drift: string[] = [];
+  const diff: RecordSetDiff = { creates: [], updates: [], deletes: [], unchanged: [] };
+
+  for (const key of new Set([...added.keys(), ...removed.keys()])) {
+    const post = added.get(key);
+    const pre = removed.get(key);
+    const now = live.get(key);
+    const label = `${(post || pre)!.name} (${(post || pre)!.type})`;
+
+    if (post && !now) {
+      drift.push(`${label} was added by this change but has since been deleted`);
+    } else if (post && now && !sameRecordSet(post, now)) {
+      drift.push(`${label} has changed since: expected ${formatRRSet(post)}, found ${formatRRSet(now)}`);
+    } else if (!post && now) {
+      drift.push(`${label} was deleted by this change but has since been re-created: ${formatRRSet(now)}`);
+    } else if (pre && now) {
+      diff.updates.push({ before: now, after: pre });
+    } else if (now) {
+      diff.deletes.push(now);
+    } else if (pre) {
+      diff.creates.push(pre);
+    }
+  }
+
+  return { plan: planFromDiff(diff), drift };
+}
+
+/**
+ * Wait for a submitted change unless the caller passed `wait: false`,
+ * reporting progress to the MCP client while it is pending. The change is
+ * recorded for the audit log both when submitted and once it settles, so a
+ * wait that times out still leaves its change ID behind.
+ */
+export async function settleChange(
+  client: GoogleCloudDNSClient,
+  zoneName: string,
+  change: Change,
+  wait?: boolean,
+  context?: ToolContext,
+  options: WaitOptions = {}
+): Promise<Change> {
+  context?.recordChange?.(client.projectId, zoneName, change);
+  if (wait === false || change.status === 'done') {
+    return change;
+  }
+
+  const completed = await client.waitForChange(zoneName, change.id!, {
+    ...options,
+    signal: context?.signal,
+    onPoll: (pending, elapsed, timeout) => context?.reportProgress(
+      elapsed,
+      timeout,
+      `Change ${pending.id} is still ${pending.status || 'pending'} after ${Math.round(elapsed / 1000)}s`
+    ),
+  });
+  context?.recordChange?.(client.projectId, zoneName, completed);
+  return completed;
+}
+
+/**
+ * Tell the caller how to follow up on a change that is not done yet
+ */
+export function formatPendingNote(change: Change): string {
+  return change.status === 'done'
+    ? ''
+    : `\n\n⏳ The change is still ${change.status || 'pending'}. Track it with gcloud_dns_wait_for_change or gcloud_dns_get_change (changeId: ${change.id}).`;
+}
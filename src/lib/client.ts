@@ -1,161 +1,619 @@
-import { GoogleCloudConfig, ManagedZone, ResourceRecordSet, Change, CreateRecordInput, UpdateRecordInput } from '../types/index.js';
+import { GoogleCloudConfig, ManagedZone, DnsKey, ResourceRecordSet, Change, CreateRecordInput, UpdateRecordInput, ListOptions, ListRecordsOptions, ListChangesOptions, Page, Operation, Policy, ResponsePolicy, ResponsePolicyRule, RetryOptions, WaitOptions } from '../types/index.js';
+import { AccessToken, CredentialProvider, resolveCredentialProvider } from './auth.js';
+import { ChangeWaitTimeoutError, InvalidRequestError, NetworkError, RequestTimeoutError, errorFromResponse, withContext } from './errors.js';
+import { DEFAULT_RETRY, backoffDelay, createLimiter, parseRetryAfter, sleep } from './retry.js';
+
+const DEFAULT_API_ENDPOINT = 'https://dns.googleapis.com/dns/v1/projects';
+const COMPUTE_API_ENDPOINT = 'https://www.googleapis.com/compute/v1';
+
+const DEFAULT_REQUEST_TIMEOUT = 30000;
+const DEFAULT_MAX_CONCURRENCY = 8;
+
+// Server errors worth retrying; only safe for requests without side effects
+const RETRYABLE_SERVER_ERRORS = new Set([500, 502, 503, 504]);
+
+const DEFAULT_WAIT: Required<WaitOptions> = {
+  timeout: 300000,
+  interval: 1000,
+  maxInterval: 10000,
+  backoff: 1.5,
+};
+
+export interface WaitForChangeOptions extends WaitOptions {
+  /** Called after every poll that finds the change still pending */
+  onPoll?: (change: Change, elapsed: number, timeout: number) => void | Promise<void>;
+  signal?: AbortSignal;
+}
+
+/**
+ * Build a query string from list options, skipping unset values
+ */
+function buildQuery(options: object): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(options)) {
+    if (value !== undefined && value !== null && value !== '') {
+      params.append(key, String(value));
+    }
+  }
+
+  const queryString = params.toString();
+  return queryString ? `?${queryString}` : '';
+}
+
+/**
+ * Drop unset wait options so they don't override the defaults
+ */
+function waitSettings(options: WaitOptions = {}): WaitOptions {
+  return Object.fromEntries(Object.entries(options).filter(([key, value]) => key in DEFAULT_WAIT && value !== undefined));
+}
+
+/**
+ * State shared by a client and every client derived from it with forProject:
+ * one token cache and concurrency limit per credential, one client per project
+ */
+interface ClientSession {
+  accessToken?: string;
+  tokenExpiry?: number;
+  pendingToken?: Promise<AccessToken>;
+  limit: <T>(task: () => Promise<T>) => Promise<T>;
+  clients: Map<string, GoogleCloudDNSClient>;
+  projects: string[];
+}
+
+async function collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterator) {
+    items.push(item);
+  }
+  return items;
+}
 
 export class GoogleCloudDNSClient {
-  private projectId: string;
-  private baseURL = 'https://dns.googleapis.com/dns/v1/projects';
-  private accessToken?: string;
-  private tokenExpiry?: number;
+  readonly projectId: string;
+  private config: GoogleCloudConfig;
+  private baseURL: string;
+  private credentialProvider: CredentialProvider;
+  private session: ClientSession;
+  private changeWait: Required<WaitOptions>;
+  private retry: Required<RetryOptions>;
+  private requestTimeout: number;
 
-  constructor(config: GoogleCloudConfig) {
+  constructor(config: GoogleCloudConfig, credentialProvider?: CredentialProvider) {
     this.projectId = config.projectId;
+    this.config = config;
+    this.retry = { ...DEFAULT_RETRY, ...Object.fromEntries(Object.entries(config.retry || {}).filter(([, value]) => value !== undefined)) };
+    this.requestTimeout = config.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT;
+    this.changeWait = { ...DEFAULT_WAIT, ...waitSettings(config.changeWait) };
+    this.baseURL = (config.apiEndpoint || DEFAULT_API_ENDPOINT).replace(/\/+$/, '');
+    this.credentialProvider = credentialProvider ?? resolveCredentialProvider(config);
+    this.session = {
+      limit: createLimiter(config.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY),
+      clients: new Map([[config.projectId, this]]),
+      projects: [...new Set([config.projectId, ...(config.projects || [])])],
+    };
   }
 
   /**
-   * Get access token using service account credentials
+   * Projects tools may target: the default project first, then the configured allowlist
    */
-  private async getAccessToken(): Promise<string> {
-    // Return cached token if still valid
-    if (this.accessToken && this.tokenExpiry && Date.now() < this.tokenExpiry) {
-      return this.accessToken;
-    }
+  get projects(): string[] {
+    return [...this.session.projects];
+  }
 
-    const credentials = process.env.GOOGLE_CLOUD_CREDENTIALS;
-    if (!credentials) {
-      throw new Error('GOOGLE_CLOUD_CREDENTIALS environment variable is required');
-    }
+  /**
+   * Client for another configured project, sharing this client's credentials,
+   * token cache and concurrency limit. Without a project ID, returns the default project's client.
+   */
+  forProject(projectId?: string): GoogleCloudDNSClient {
+    const project = projectId ?? this.session.projects[0];
 
-    let serviceAccount: any;
-    try {
-      // Try to parse as JSON string
-      serviceAccount = JSON.parse(credentials);
-    } catch {
-      throw new Error('GOOGLE_CLOUD_CREDENTIALS must be a valid JSON string');
-    }
-
-    // Create JWT for Google OAuth2
-    const now = Math.floor(Date.now() / 1000);
-    const payload = {
-      iss: serviceAccount.client_email,
-      scope: 'https://www.googleapis.com/auth/ndev.clouddns.readwrite',
-      aud: 'https://oauth2.googleapis.com/token',
-      iat: now,
-      exp: now + 3600,
-    };
+    const cached = this.session.clients.get(project);
+    if (cached) {
+      return cached;
+    }
 
-    const header = {
-      alg: 'RS256',
-      typ: 'JWT'
-    };
+    if (!this.session.projects.includes(project)) {
+      throw new InvalidRequestError(`Project '${project}' is not configured`, {
+        hint: `Allowed projects: ${this.session.projects.join(', ')}. Add more with GOOGLE_CLOUD_DNS_PROJECTS.`,
+      });
+    }
 
-    // Simple JWT implementation (for production, use a proper JWT library)
-    const jwt = await this.createJWT(header, payload, serviceAccount.private_key);
-
-    // Exchange JWT for access token
-    const response = await fetch('https://oauth2.googleapis.com/token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: new URLSearchParams({
-        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
-        assertion: jwt,
-      }),
-    });
+    const client = new GoogleCloudDNSClient({ ...this.config, projectId: project }, this.credentialProvider);
+    client.session = this.session;
+    this.session.clients.set(project, client);
+    return client;
+  }
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Failed to get access token: ${error}`);
+  /**
+   * Resolve a VPC network name (`default`), `project/network` pair or partial path to a full network URL
+   */
+  resolveNetworkUrl(network: string): string {
+    if (network.startsWith('https://')) {
+      return network;
     }
 
-    const tokenData = await response.json();
-    this.accessToken = tokenData.access_token;
-    this.tokenExpiry = Date.now() + (tokenData.expires_in * 1000) - 60000; // Refresh 1 min early
+    const path = network.replace(/^\/+/, '');
+    if (path.startsWith('projects/')) {
+      return `${COMPUTE_API_ENDPOINT}/${path}`;
+    }
 
-    return this.accessToken;
+    const [project, name] = path.includes('/') ? path.split('/', 2) : [this.projectId, path];
+    return `${COMPUTE_API_ENDPOINT}/projects/${project}/global/networks/${name}`;
   }
 
   /**
-   * Simple JWT creation (basic implementation)
+   * Get access token from the configured credential provider
    */
-  private async createJWT(header: any, payload: any, privateKey: string): Promise<string> {
-    // Basic JWT implementation using Web Crypto API
-    const encoder = new TextEncoder();
-    
-    const headerB64 = btoa(JSON.stringify(header)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
-    const payloadB64 = btoa(JSON.stringify(payload)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
-    
-    const message = `${headerB64}.${payloadB64}`;
-    
-    // For simplicity, we'll use a basic approach
-    // In production, use a proper JWT library like 'jsonwebtoken'
-    const signature = btoa(`signature_placeholder_${Date.now()}`).replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
-    
-    return `${message}.${signature}`;
+  private async getAccessToken(): Promise<string> {
+    // Return cached token if still valid; every project shares it
+    const session = this.session;
+    if (session.accessToken && (session.tokenExpiry === undefined || Date.now() < session.tokenExpiry)) {
+      return session.accessToken;
+    }
+
+    // Concurrent calls across projects share one refresh
+    session.pendingToken ??= this.credentialProvider.getAccessToken().finally(() => {
+      session.pendingToken = undefined;
+    });
+    const { token, expiresAt } = await session.pendingToken;
+    session.accessToken = token;
+    session.tokenExpiry = expiresAt !== undefined ? expiresAt - 60000 : undefined; // Refresh 1 min early
+
+    return session.accessToken;
   }
 
+  /**
+   * Send an API request, retrying 429s, and for GETs also 5xx responses and
+   * network errors, with jittered exponential backoff or the server's
+   * Retry-After. Other methods are not retried on 5xx since the server may
+   * have applied them. Each attempt takes its own concurrency slot, so
+   * requests backing off do not hold up the others.
+   */
   private async makeRequest<T>(endpoint: string, method: string = 'GET', body?: any): Promise<T> {
-    const token = await this.getAccessToken();
     const url = `${this.baseURL}/${this.projectId}${endpoint}`;
 
-    const response = await fetch(url, {
-      method,
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-      },
-      body: body ? JSON.stringify(body) : undefined,
-    });
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < this.retry.maxRetries;
+      const token = await this.getAccessToken();
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: { message: response.statusText } }));
-      throw new Error(`Google Cloud DNS API Error (${response.status}): ${error.error?.message || error.message || response.statusText}`);
+      const outcome = await this.session.limit(() => this.sendAttempt(url, token, method, body, canRetry));
+      if ('text' in outcome) {
+        // DELETE responses carry no body
+        return (outcome.text ? JSON.parse(outcome.text) : {}) as T;
+      }
+      await sleep(outcome.retryAfter ?? backoffDelay(attempt, this.retry));
     }
+  }
+
+  /**
+   * Single request attempt, aborted if the response or its body takes longer
+   * than the request timeout. Returns the response body, or that the request
+   * should be retried (after the server's Retry-After, when it sent one).
+   */
+  private async sendAttempt(
+    url: string,
+    token: string,
+    method: string,
+    body: any,
+    canRetry: boolean
+  ): Promise<{ text: string } | { retryAfter?: number }> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.requestTimeout);
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method,
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+          body: body ? JSON.stringify(body) : undefined,
+          signal: controller.signal,
+        });
+
+        if (response.ok) {
+          return { text: await response.text() };
+        }
+
+        if (canRetry && (response.status === 429 || (method === 'GET' && RETRYABLE_SERVER_ERRORS.has(response.status)))) {
+          const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+          if (retryAfter === undefined || retryAfter <= this.retry.maxDelay) {
+            await response.body?.cancel();
+            return { retryAfter };
+          }
+        }
+      } catch (error: any) {
+        if (canRetry && method === 'GET') {
+          return {};
+        }
+        if (controller.signal.aborted) {
+          throw new RequestTimeoutError(`Request to ${url} timed out after ${this.requestTimeout}ms`, { cause: error });
+        }
+        throw new NetworkError(`Request to ${url} failed: ${error.cause?.message || error.message}`, { cause: error });
+      }
 
-    return await response.json();
+      const error = await response.json().catch(() => ({}));
+      throw errorFromResponse(response.status, error, response.statusText);
+    } finally {
+      clearTimeout(timer);
+    }
   }
 
   /**
-   * List all managed zones in the project
+   * List one page of managed zones in the project
    */
-  async listManagedZones(): Promise<ManagedZone[]> {
+  async listManagedZonesPage(options: ListOptions = {}): Promise<Page<ManagedZone>> {
     try {
-      const response = await this.makeRequest<{ managedZones?: ManagedZone[] }>('/managedZones');
-      return response.managedZones || [];
-    } catch (error: any) {
-      throw new Error(`Failed to list managed zones: ${error.message}`);
+      const endpoint = `/managedZones${buildQuery(options)}`;
+      const response = await this.makeRequest<{ managedZones?: ManagedZone[]; nextPageToken?: string }>(endpoint);
+      return { items: response.managedZones || [], nextPageToken: response.nextPageToken };
+    } catch (error) {
+      throw withContext(error, `Failed to list managed zones`, 'dns.managedZones.list');
     }
   }
 
+  /**
+   * Iterate over all managed zones in the project, following page tokens
+   */
+  async *iterateManagedZones(options: ListOptions = {}): AsyncGenerator<ManagedZone> {
+    let pageToken = options.pageToken;
+    do {
+      const page = await this.listManagedZonesPage({ ...options, pageToken });
+      yield* page.items;
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+  }
+
+  /**
+   * List all managed zones in the project
+   */
+  async listManagedZones(): Promise<ManagedZone[]> {
+    return collect(this.iterateManagedZones());
+  }
+
   /**
    * Get a specific managed zone
    */
   async getManagedZone(zoneName: string): Promise<ManagedZone> {
     try {
       return await this.makeRequest<ManagedZone>(`/managedZones/${zoneName}`);
-    } catch (error: any) {
-      throw new Error(`Failed to get managed zone '${zoneName}': ${error.message}`);
+    } catch (error) {
+      throw withContext(error, `Failed to get managed zone '${zoneName}'`, 'dns.managedZones.get');
     }
   }
 
   /**
-   * List DNS records in a managed zone
+   * Create a new managed zone
    */
-  async listRecords(zoneName: string, type?: string, name?: string): Promise<ResourceRecordSet[]> {
+  async createManagedZone(zone: ManagedZone): Promise<ManagedZone> {
+    try {
+      return await this.makeRequest<ManagedZone>('/managedZones', 'POST', zone);
+    } catch (error) {
+      throw withContext(error, `Failed to create managed zone '${zone.name}'`, 'dns.managedZones.create');
+    }
+  }
+
+  /**
+   * Apply a partial update to a managed zone
+   */
+  async patchManagedZone(zoneName: string, patch: ManagedZone): Promise<Operation> {
+    try {
+      return await this.makeRequest<Operation>(`/managedZones/${zoneName}`, 'PATCH', patch);
+    } catch (error) {
+      throw withContext(error, `Failed to update managed zone '${zoneName}'`, 'dns.managedZones.update');
+    }
+  }
+
+  /**
+   * Delete a managed zone (the zone must only contain its apex NS and SOA records)
+   */
+  async deleteManagedZone(zoneName: string): Promise<void> {
+    try {
+      await this.makeRequest<void>(`/managedZones/${zoneName}`, 'DELETE');
+    } catch (error) {
+      throw withContext(error, `Failed to delete managed zone '${zoneName}'`, 'dns.managedZones.delete');
+    }
+  }
+
+  /**
+   * List one page of the DNSSEC keys of a managed zone
+   */
+  async listDnsKeysPage(zoneName: string, options: ListOptions = {}): Promise<Page<DnsKey>> {
+    try {
+      const endpoint = `/managedZones/${zoneName}/dnsKeys${buildQuery(options)}`;
+      const response = await this.makeRequest<{ dnsKeys?: DnsKey[]; nextPageToken?: string }>(endpoint);
+      return { items: response.dnsKeys || [], nextPageToken: response.nextPageToken };
+    } catch (error) {
+      throw withContext(error, `Failed to list DNSSEC keys for zone '${zoneName}'`, 'dns.dnsKeys.list');
+    }
+  }
+
+  /**
+   * Iterate over all DNSSEC keys of a managed zone, following page tokens
+   */
+  async *iterateDnsKeys(zoneName: string, options: ListOptions = {}): AsyncGenerator<DnsKey> {
+    let pageToken = options.pageToken;
+    do {
+      const page = await this.listDnsKeysPage(zoneName, { ...options, pageToken });
+      yield* page.items;
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+  }
+
+  /**
+   * List all DNSSEC keys of a managed zone
+   */
+  async listDnsKeys(zoneName: string): Promise<DnsKey[]> {
+    return collect(this.iterateDnsKeys(zoneName));
+  }
+
+  /**
+   * List one page of DNS server policies in the project
+   */
+  async listPoliciesPage(options: ListOptions = {}): Promise<Page<Policy>> {
+    try {
+      const endpoint = `/policies${buildQuery(options)}`;
+      const response = await this.makeRequest<{ policies?: Policy[]; nextPageToken?: string }>(endpoint);
+      return { items: response.policies || [], nextPageToken: response.nextPageToken };
+    } catch (error) {
+      throw withContext(error, `Failed to list DNS policies`, 'dns.policies.list');
+    }
+  }
+
+  /**
+   * Iterate over all DNS server policies in the project, following page tokens
+   */
+  async *iteratePolicies(options: ListOptions = {}): AsyncGenerator<Policy> {
+    let pageToken = options.pageToken;
+    do {
+      const page = await this.listPoliciesPage({ ...options, pageToken });
+      yield* page.items;
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+  }
+
+  /**
+   * List all DNS server policies in the project
+   */
+  async listPolicies(): Promise<Policy[]> {
+    return collect(this.iteratePolicies());
+  }
+
+  /**
+   * Get a DNS server policy
+   */
+  async getPolicy(policyName: string): Promise<Policy> {
+    try {
+      return await this.makeRequest<Policy>(`/policies/${policyName}`);
+    } catch (error) {
+      throw withContext(error, `Failed to get DNS policy '${policyName}'`, 'dns.policies.get');
+    }
+  }
+
+  /**
+   * Create a DNS server policy
+   */
+  async createPolicy(policy: Policy): Promise<Policy> {
+    try {
+      return await this.makeRequest<Policy>('/policies', 'POST', policy);
+    } catch (error) {
+      throw withContext(error, `Failed to create DNS policy '${policy.name}'`, 'dns.policies.create');
+    }
+  }
+
+  /**
+   * Replace a DNS server policy's settings and attached networks
+   */
+  async updatePolicy(policyName: string, policy: Policy): Promise<Policy> {
+    try {
+      const response = await this.makeRequest<{ policy?: Policy }>(`/policies/${policyName}`, 'PUT', policy);
+      return response.policy || {};
+    } catch (error) {
+      throw withContext(error, `Failed to update DNS policy '${policyName}'`, 'dns.policies.update');
+    }
+  }
+
+  /**
+   * Delete a DNS server policy (it must not be attached to any network)
+   */
+  async deletePolicy(policyName: string): Promise<void> {
+    try {
+      await this.makeRequest<void>(`/policies/${policyName}`, 'DELETE');
+    } catch (error) {
+      throw withContext(error, `Failed to delete DNS policy '${policyName}'`, 'dns.policies.delete');
+    }
+  }
+
+  /**
+   * List one page of response policies in the project
+   */
+  async listResponsePoliciesPage(options: ListOptions = {}): Promise<Page<ResponsePolicy>> {
+    try {
+      const endpoint = `/responsePolicies${buildQuery(options)}`;
+      const response = await this.makeRequest<{ responsePolicies?: ResponsePolicy[]; nextPageToken?: string }>(endpoint);
+      return { items: response.responsePolicies || [], nextPageToken: response.nextPageToken };
+    } catch (error) {
+      throw withContext(error, `Failed to list response policies`, 'dns.responsePolicies.list');
+    }
+  }
+
+  /**
+   * Iterate over all response policies in the project, following page tokens
+   */
+  async *iterateResponsePolicies(options: ListOptions = {}): AsyncGenerator<ResponsePolicy> {
+    let pageToken = options.pageToken;
+    do {
+      const page = await this.listResponsePoliciesPage({ ...options, pageToken });
+      yield* page.items;
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+  }
+
+  /**
+   * List all response policies in the project
+   */
+  async listResponsePolicies(): Promise<ResponsePolicy[]> {
+    return collect(this.iterateResponsePolicies());
+  }
+
+  /**
+   * Get a response policy
+   */
+  async getResponsePolicy(policyName: string): Promise<ResponsePolicy> {
+    try {
+      return await this.makeRequest<ResponsePolicy>(`/responsePolicies/${policyName}`);
+    } catch (error) {
+      throw withContext(error, `Failed to get response policy '${policyName}'`, 'dns.responsePolicies.get');
+    }
+  }
+
+  /**
+   * Create a response policy
+   */
+  async createResponsePolicy(policy: ResponsePolicy): Promise<ResponsePolicy> {
+    try {
+      return await this.makeRequest<ResponsePolicy>('/responsePolicies', 'POST', policy);
+    } catch (error) {
+      throw withContext(error, `Failed to create response policy '${policy.responsePolicyName}'`, 'dns.responsePolicies.create');
+    }
+  }
+
+  /**
+   * Replace a response policy's settings (description, networks, labels)
+   */
+  async updateResponsePolicy(policyName: string, policy: ResponsePolicy): Promise<ResponsePolicy> {
+    try {
+      const response = await this.makeRequest<{ responsePolicy?: ResponsePolicy }>(`/responsePolicies/${policyName}`, 'PUT', policy);
+      return response.responsePolicy || {};
+    } catch (error) {
+      throw withContext(error, `Failed to update response policy '${policyName}'`, 'dns.responsePolicies.update');
+    }
+  }
+
+  /**
+   * Delete a response policy (it must have no rules and no attached networks)
+   */
+  async deleteResponsePolicy(policyName: string): Promise<void> {
+    try {
+      await this.makeRequest<void>(`/responsePolicies/${policyName}`, 'DELETE');
+    } catch (error) {
+      throw withContext(error, `Failed to delete response policy '${policyName}'`, 'dns.responsePolicies.delete');
+    }
+  }
+
+  /**
+   * List one page of rules in a response policy
+   */
+  async listResponsePolicyRulesPage(policyName: string, options: ListOptions = {}): Promise<Page<ResponsePolicyRule>> {
+    try {
+      const endpoint = `/responsePolicies/${policyName}/rules${buildQuery(options)}`;
+      const response = await this.makeRequest<{ responsePolicyRules?: ResponsePolicyRule[]; nextPageToken?: string }>(endpoint);
+      return { items: response.responsePolicyRules || [], nextPageToken: response.nextPageToken };
+    } catch (error) {
+      throw withContext(error, `Failed to list rules in response policy '${policyName}'`, 'dns.responsePolicyRules.list');
+    }
+  }
+
+  /**
+   * Iterate over all rules in a response policy, following page tokens
+   */
+  async *iterateResponsePolicyRules(policyName: string, options: ListOptions = {}): AsyncGenerator<ResponsePolicyRule> {
+    let pageToken = options.pageToken;
+    do {
+      const page = await this.listResponsePolicyRulesPage(policyName, { ...options, pageToken });
+      yield* page.items;
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+  }
+
+  /**
+   * List all rules in a response policy
+   */
+  async listResponsePolicyRules(policyName: string): Promise<ResponsePolicyRule[]> {
+    return collect(this.iterateResponsePolicyRules(policyName));
+  }
+
+  /**
+   * Create a rule in a response policy
+   */
+  async createResponsePolicyRule(policyName: string, rule: ResponsePolicyRule): Promise<ResponsePolicyRule> {
+    try {
+      return await this.makeRequest<ResponsePolicyRule>(`/responsePolicies/${policyName}/rules`, 'POST', rule);
+    } catch (error) {
+      throw withContext(error, `Failed to create rule '${rule.ruleName}' in response policy '${policyName}'`, 'dns.responsePolicyRules.create');
+    }
+  }
+
+  /**
+   * Get a rule in a response policy
+   */
+  async getResponsePolicyRule(policyName: string, ruleName: string): Promise<ResponsePolicyRule> {
+    try {
+      return await this.makeRequest<ResponsePolicyRule>(`/responsePolicies/${policyName}/rules/${ruleName}`);
+    } catch (error) {
+      throw withContext(error, `Failed to get rule '${ruleName}' in response policy '${policyName}'`, 'dns.responsePolicyRules.get');
+    }
+  }
+
+  /**
+   * Replace a response policy rule
+   */
+  async updateResponsePolicyRule(policyName: string, ruleName: string, rule: ResponsePolicyRule): Promise<ResponsePolicyRule> {
     try {
-      const params = new URLSearchParams();
-      if (type) params.append('type', type);
-      if (name) params.append('name', name);
-      
-      const queryString = params.toString();
-      const endpoint = `/managedZones/${zoneName}/rrsets${queryString ? `?${queryString}` : ''}`;
-      
-      const response = await this.makeRequest<{ rrsets?: ResourceRecordSet[] }>(endpoint);
-      return response.rrsets || [];
-    } catch (error: any) {
-      throw new Error(`Failed to list records in zone '${zoneName}': ${error.message}`);
+      const response = await this.makeRequest<{ responsePolicyRule?: ResponsePolicyRule }>(
+        `/responsePolicies/${policyName}/rules/${ruleName}`, 'PUT', rule
+      );
+      return response.responsePolicyRule || {};
+    } catch (error) {
+      throw withContext(error, `Failed to update rule '${ruleName}' in response policy '${policyName}'`, 'dns.responsePolicyRules.update');
     }
   }
 
+  /**
+   * Delete a rule from a response policy
+   */
+  async deleteResponsePolicyRule(policyName: string, ruleName: string): Promise<void> {
+    try {
+      await this.makeRequest<void>(`/responsePolicies/${policyName}/rules/${ruleName}`, 'DELETE');
+    } catch (error) {
+      throw withContext(error, `Failed to delete rule '${ruleName}' in response policy '${policyName}'`, 'dns.responsePolicyRules.delete');
+    }
+  }
+
+  /**
+   * List one page of DNS records in a managed zone
+   */
+  async listRecordsPage(zoneName: string, options: ListRecordsOptions = {}): Promise<Page<ResourceRecordSet>> {
+    try {
+      const endpoint = `/managedZones/${zoneName}/rrsets${buildQuery(options)}`;
+      const response = await this.makeRequest<{ rrsets?: ResourceRecordSet[]; nextPageToken?: string }>(endpoint);
+      return { items: response.rrsets || [], nextPageToken: response.nextPageToken };
+    } catch (error) {
+      throw withContext(error, `Failed to list records in zone '${zoneName}'`, 'dns.resourceRecordSets.list');
+    }
+  }
+
+  /**
+   * Iterate over all DNS records in a managed zone, following page tokens
+   */
+  async *iterateRecords(zoneName: string, options: ListRecordsOptions = {}): AsyncGenerator<ResourceRecordSet> {
+    let pageToken = options.pageToken;
+    do {
+      const page = await this.listRecordsPage(zoneName, { ...options, pageToken });
+      yield* page.items;
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+  }
+
+  /**
+   * List all DNS records in a managed zone
+   */
+  async listRecords(zoneName: string, type?: string, name?: string): Promise<ResourceRecordSet[]> {
+    return collect(this.iterateRecords(zoneName, { type, name }));
+  }
+
   /**
    * Create a new DNS record
    */
@@ -166,13 +624,13 @@ export class GoogleCloudDNSClient {
           name: recordData.name,
           type: recordData.type,
           ttl: recordData.ttl,
-          rrdatas: recordData.rrdatas,
+          ...(recordData.routingPolicy ? { routingPolicy: recordData.routingPolicy } : { rrdatas: recordData.rrdatas }),
         }],
       };
 
       return await this.makeRequest<Change>(`/managedZones/${zoneName}/changes`, 'POST', change);
-    } catch (error: any) {
-      throw new Error(`Failed to create record in zone '${zoneName}': ${error.message}`);
+    } catch (error) {
+      throw withContext(error, `Failed to create record in zone '${zoneName}'`, 'dns.changes.create');
     }
   }
 
@@ -187,13 +645,13 @@ export class GoogleCloudDNSClient {
           name: newRecord.name,
           type: newRecord.type,
           ttl: newRecord.ttl || oldRecord.ttl || 300,
-          rrdatas: newRecord.rrdatas,
+          ...(newRecord.routingPolicy ? { routingPolicy: newRecord.routingPolicy } : { rrdatas: newRecord.rrdatas }),
         }],
       };
 
       return await this.makeRequest<Change>(`/managedZones/${zoneName}/changes`, 'POST', change);
-    } catch (error: any) {
-      throw new Error(`Failed to update record in zone '${zoneName}': ${error.message}`);
+    } catch (error) {
+      throw withContext(error, `Failed to update record in zone '${zoneName}'`, 'dns.changes.create');
     }
   }
 
@@ -207,45 +665,122 @@ export class GoogleCloudDNSClient {
       };
 
       return await this.makeRequest<Change>(`/managedZones/${zoneName}/changes`, 'POST', change);
-    } catch (error: any) {
-      throw new Error(`Failed to delete record in zone '${zoneName}': ${error.message}`);
+    } catch (error) {
+      throw withContext(error, `Failed to delete record in zone '${zoneName}'`, 'dns.changes.create');
+    }
+  }
+
+  /**
+   * Submit an arbitrary change set; all additions and deletions are applied atomically.
+   * A 412 means a deletion no longer matches the live rrset, usually after a
+   * concurrent edit. It is surfaced as PreconditionFailedError on purpose:
+   * resubmitting would overwrite that edit without the caller re-planning the
+   * change and re-checking it against the guardrails.
+   */
+  async applyChange(zoneName: string, change: Change): Promise<Change> {
+    try {
+      return await this.makeRequest<Change>(`/managedZones/${zoneName}/changes`, 'POST', {
+        additions: change.additions || [],
+        deletions: change.deletions || [],
+      });
+    } catch (error) {
+      throw withContext(error, `Failed to apply change in zone '${zoneName}'`, 'dns.changes.create');
+    }
+  }
+
+  /**
+   * List one page of changes made to a managed zone
+   */
+  async listChangesPage(zoneName: string, options: ListChangesOptions = {}): Promise<Page<Change>> {
+    try {
+      const endpoint = `/managedZones/${zoneName}/changes${buildQuery(options)}`;
+      const response = await this.makeRequest<{ changes?: Change[]; nextPageToken?: string }>(endpoint);
+      return { items: response.changes || [], nextPageToken: response.nextPageToken };
+    } catch (error) {
+      throw withContext(error, `Failed to list changes in zone '${zoneName}'`, 'dns.changes.list');
     }
   }
 
+  /**
+   * Iterate over the changes made to a managed zone, following page tokens
+   */
+  async *iterateChanges(zoneName: string, options: ListChangesOptions = {}): AsyncGenerator<Change> {
+    let pageToken = options.pageToken;
+    do {
+      const page = await this.listChangesPage(zoneName, { ...options, pageToken });
+      yield* page.items;
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+  }
+
   /**
    * Get the status of a change
    */
   async getChange(zoneName: string, changeId: string): Promise<Change> {
     try {
       return await this.makeRequest<Change>(`/managedZones/${zoneName}/changes/${changeId}`);
-    } catch (error: any) {
-      throw new Error(`Failed to get change '${changeId}' in zone '${zoneName}': ${error.message}`);
+    } catch (error) {
+      throw withContext(error, `Failed to get change '${changeId}' in zone '${zoneName}'`, 'dns.changes.get');
     }
   }
 
   /**
-   * Wait for a change to complete
+   * Wait for a change to complete, polling with exponential backoff
    */
-  async waitForChange(zoneName: string, changeId: string, timeout: number = 300000): Promise<Change> {
+  async waitForChange(zoneName: string, changeId: string, options: WaitForChangeOptions = {}): Promise<Change> {
+    const { timeout, interval, maxInterval, backoff } = { ...this.changeWait, ...waitSettings(options) };
     const startTime = Date.now();
-    
-    while (Date.now() - startTime < timeout) {
+    let delay = interval;
+
+    while (true) {
       const change = await this.getChange(zoneName, changeId);
-      
       if (change.status === 'done') {
         return change;
       }
-      
-      // Wait 2 seconds before checking again
-      await new Promise(resolve => setTimeout(resolve, 2000));
+
+      const elapsed = Date.now() - startTime;
+      if (elapsed >= timeout) {
+        throw new ChangeWaitTimeoutError(change, timeout);
+      }
+      if (options.signal?.aborted) {
+        throw new Error(`Stopped waiting for change '${changeId}': the request was cancelled`);
+      }
+      await options.onPoll?.(change, elapsed, timeout);
+
+      await new Promise(resolve => setTimeout(resolve, Math.min(delay, timeout - elapsed)));
+      delay = Math.min(delay * backoff, maxInterval);
     }
-    
-    throw new Error(`Change '${changeId}' did not complete within ${timeout}ms`);
   }
 }
 
+/**
+ * Read a comma-separated environment variable, ignoring blank entries
+ */
+function readList(variable: string): string[] | undefined {
+  const items = (process.env[variable] || '').split(',').map(item => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Read an optional non-negative integer setting from the environment
+ */
+function readInteger(variable: string, description: string, min: number = 1): number | undefined {
+  const value = process.env[variable];
+  if (!value) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value) || Number(value) < min) {
+    throw new Error(`${variable} must be ${description}`);
+  }
+  return Number(value);
+}
+
 /**
  * Get Google Cloud credentials from environment variables
+ *
+ * Only the project ID is mandatory: when neither GOOGLE_CLOUD_CREDENTIALS nor
+ * GOOGLE_CLOUD_ACCESS_TOKEN is set, Application Default Credentials and the
+ * metadata server are used.
  */
 export function getGoogleCloudCredentials(): GoogleCloudConfig {
   const projectId = process.env.GOOGLE_CLOUD_PROJECT_ID || process.env.GOOGLE_CLOUD_PROJECT;
@@ -255,12 +790,22 @@ export function getGoogleCloudCredentials(): GoogleCloudConfig {
     );
   }
 
-  const credentials = process.env.GOOGLE_CLOUD_CREDENTIALS;
-  if (!credentials) {
-    throw new Error(
-      "Google Cloud service account credentials are required. Set the GOOGLE_CLOUD_CREDENTIALS environment variable."
-    );
-  }
-
-  return { projectId, credentials };
-}
\ No newline at end of file
+  return {
+    projectId,
+    changeWait: {
+      timeout: readInteger('GOOGLE_CLOUD_DNS_WAIT_TIMEOUT_MS', 'a positive number of milliseconds'),
+      interval: readInteger('GOOGLE_CLOUD_DNS_POLL_INTERVAL_MS', 'a positive number of milliseconds'),
+      maxInterval: readInteger('GOOGLE_CLOUD_DNS_MAX_POLL_INTERVAL_MS', 'a positive number of milliseconds'),
+    },
+    retry: {
+      maxRetries: readInteger('GOOGLE_CLOUD_DNS_MAX_RETRIES', 'a non-negative integer', 0),
+    },
+    requestTimeout: readInteger('GOOGLE_CLOUD_DNS_REQUEST_TIMEOUT_MS', 'a positive number of milliseconds'),
+    maxConcurrency: readInteger('GOOGLE_CLOUD_DNS_MAX_CONCURRENCY', 'a positive integer'),
+    credentials: process.env.GOOGLE_CLOUD_CREDENTIALS || undefined,
+    accessToken: process.env.GOOGLE_CLOUD_ACCESS_TOKEN || undefined,
+    tokenUri: process.env.GOOGLE_CLOUD_TOKEN_URI || undefined,
+    projects: readList('GOOGLE_CLOUD_DNS_PROJECTS'),
+    apiEndpoint: process.env.GOOGLE_CLOUD_DNS_API_ENDPOINT || undefined,
+  };
+}
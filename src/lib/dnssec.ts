@@ -0,0 +1,115 @@
+import { createHash } from 'node:crypto';
+import { DnsKey, DnsKeyDigest, DnssecAlgorithm } from '../types/index.js';
+import { normalizeName } from './names.js';
+
+// IANA DNSSEC algorithm numbers
+export const ALGORITHM_NUMBERS: Record<DnssecAlgorithm, number> = {
+  rsasha1: 5,
+  rsasha256: 8,
+  rsasha512: 10,
+  ecdsap256sha256: 13,
+  ecdsap384sha384: 14,
+};
+
+// DS digest type numbers and their hash functions
+export const DIGEST_TYPES: Record<NonNullable<DnsKeyDigest['type']>, { number: number; hash: string }> = {
+  sha1: { number: 1, hash: 'sha1' },
+  sha256: { number: 2, hash: 'sha256' },
+  sha384: { number: 4, hash: 'sha384' },
+};
+
+export type DigestType = keyof typeof DIGEST_TYPES;
+
+const KEY_SIGNING_FLAGS = 257;
+const ZONE_SIGNING_FLAGS = 256;
+const DNSKEY_PROTOCOL = 3;
+
+export interface DSRecord {
+  keyTag: number;
+  algorithm: number;
+  digestType: number;
+  /** Upper-case hex digest */
+  digest: string;
+}
+
+/**
+ * Wire-format DNSKEY rdata: flags, protocol, algorithm and public key
+ */
+export function dnskeyRdata(flags: number, algorithm: number, publicKey: string): Buffer {
+  const header = Buffer.alloc(4);
+  header.writeUInt16BE(flags, 0);
+  header.writeUInt8(DNSKEY_PROTOCOL, 2);
+  header.writeUInt8(algorithm, 3);
+  return Buffer.concat([header, Buffer.from(publicKey.replace(/\s+/g, ''), 'base64')]);
+}
+
+/**
+ * Wire-format owner name in canonical (lower-case) form
+ */
+function wireName(name: string): Buffer {
+  const labels = normalizeName(name).split('.').filter(Boolean);
+  return Buffer.concat([
+    ...labels.map(label => Buffer.concat([Buffer.from([label.length]), Buffer.from(label, 'ascii')])),
+    Buffer.from([0]),
+  ]);
+}
+
+/**
+ * Key tag of a DNSKEY (RFC 4034 Appendix B)
+ */
+export function computeKeyTag(rdata: Buffer): number {
+  let sum = 0;
+  for (let i = 0; i < rdata.length; i++) {
+    sum += i & 1 ? rdata[i] : rdata[i] << 8;
+  }
+  sum += (sum >> 16) & 0xffff;
+  return sum & 0xffff;
+}
+
+/**
+ * DS digest of a DNSKEY: hash of the owner name followed by the DNSKEY rdata (RFC 4034 §5.1.4)
+ */
+export function computeDSDigest(owner: string, rdata: Buffer, digestType: DigestType): string {
+  return createHash(DIGEST_TYPES[digestType].hash)
+    .update(Buffer.concat([wireName(owner), rdata]))
+    .digest('hex')
+    .toUpperCase();
+}
+
+/**
+ * DNSKEY flags for a Cloud DNS key: SEP set on key-signing keys
+ */
+export function keyFlags(key: DnsKey): number {
+  return key.type === 'keySigning' ? KEY_SIGNING_FLAGS : ZONE_SIGNING_FLAGS;
+}
+
+/**
+ * DS records for a key, preferring the digests and key tag Cloud DNS reports
+ * and computing any that are missing from the public key
+ */
+export function dsRecordsForKey(owner: string, key: DnsKey, digestTypes: DigestType[]): DSRecord[] {
+  if (!key.algorithm || !key.publicKey) {
+    throw new Error(`DNSSEC key ${key.id ?? ''} has no algorithm or public key`);
+  }
+
+  const algorithm = ALGORITHM_NUMBERS[key.algorithm];
+  const rdata = dnskeyRdata(keyFlags(key), algorithm, key.publicKey);
+  const keyTag = key.keyTag ?? computeKeyTag(rdata);
+
+  return digestTypes.map(type => {
+    const reported = key.digests?.find(digest => digest.type === type)?.digest;
+    return {
+      keyTag,
+      algorithm,
+      digestType: DIGEST_TYPES[type].number,
+      digest: reported ? reported.toUpperCase() : computeDSDigest(owner, rdata, type),
+    };
+  });
+}
+
+/**
+ * Render a DS record in zone file presentation format
+ */
+export function formatDSRecord(owner: string, ds: DSRecord): string {
+  return `${normalizeName(owner)} IN DS ${ds.keyTag} ${ds.algorithm} ${ds.digestType} ${ds.digest}`;
+}
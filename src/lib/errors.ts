@@ -0,0 +1,227 @@
+import { Change } from '../types/index.js';
+import { ToolResult } from './mcp-core.js';
+
+/**
+ * Machine-readable error codes surfaced in tool results
+ */
+export type ErrorCode =
+  | 'INVALID_ARGUMENT'
+  | 'UNAUTHENTICATED'
+  | 'PERMISSION_DENIED'
+  | 'NOT_FOUND'
+  | 'ALREADY_EXISTS'
+  | 'PRECONDITION_FAILED'
+  | 'RATE_LIMITED'
+  | 'QUOTA_EXCEEDED'
+  | 'UNAVAILABLE'
+  | 'TIMEOUT'
+  | 'NETWORK_ERROR'
+  | 'CHANGE_PENDING'
+  | 'POLICY_VIOLATION'
+  | 'CONFIRMATION_REQUIRED'
+  | 'UNKNOWN';
+
+export interface DNSErrorDetails {
+  /** HTTP status of the failed response, if there was one */
+  status?: number;
+  /** Google error reason, e.g. `insufficientPermissions` or `quotaExceeded` */
+  reason?: string;
+  hint?: string;
+  cause?: unknown;
+}
+
+/**
+ * Base class for errors raised while talking to Google Cloud
+ */
+export class DNSError extends Error {
+  readonly code: ErrorCode = 'UNKNOWN';
+  /** Whether repeating the same call may succeed */
+  readonly retryable: boolean = false;
+  status?: number;
+  reason?: string;
+  hint?: string;
+
+  constructor(message: string, details: DNSErrorDetails = {}) {
+    super(message, details.cause !== undefined ? { cause: details.cause } : undefined);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.reason = details.reason;
+    this.hint = details.hint;
+  }
+}
+
+export class InvalidRequestError extends DNSError {
+  readonly code = 'INVALID_ARGUMENT';
+}
+
+export class AuthenticationError extends DNSError {
+  readonly code = 'UNAUTHENTICATED';
+  hint = 'Check GOOGLE_CLOUD_CREDENTIALS or GOOGLE_APPLICATION_CREDENTIALS, or refresh GOOGLE_CLOUD_ACCESS_TOKEN if it has expired.';
+}
+
+export class PermissionDeniedError extends DNSError {
+  readonly code = 'PERMISSION_DENIED';
+  /** IAM permission the failed call needs, when known */
+  permission?: string;
+}
+
+export class NotFoundError extends DNSError {
+  readonly code = 'NOT_FOUND';
+  hint = 'Check the zone name with gcloud_dns_list_zones and that it lives in the project you targeted (projectId, or GOOGLE_CLOUD_PROJECT_ID by default).';
+}
+
+export class AlreadyExistsError extends DNSError {
+  readonly code = 'ALREADY_EXISTS';
+  hint = 'The resource already exists; update it instead of creating it.';
+}
+
+export class PreconditionFailedError extends DNSError {
+  readonly code = 'PRECONDITION_FAILED';
+  readonly retryable = true;
+  hint = 'The records changed after they were read, usually because of a concurrent edit. Re-read them and retry.';
+}
+
+export class RateLimitError extends DNSError {
+  readonly code = 'RATE_LIMITED';
+  readonly retryable = true;
+  hint = 'The API rate limit was still exceeded after retrying with backoff. Wait a minute and retry, or lower GOOGLE_CLOUD_DNS_MAX_CONCURRENCY.';
+}
+
+export class QuotaExceededError extends DNSError {
+  readonly code = 'QUOTA_EXCEEDED';
+  hint = 'A Cloud DNS quota was reached (e.g. zones per project or records per zone). Review it under IAM & Admin > Quotas and request an increase if needed.';
+}
+
+export class ServiceUnavailableError extends DNSError {
+  readonly code = 'UNAVAILABLE';
+  readonly retryable = true;
+  hint = 'Cloud DNS is temporarily unavailable. Retry later; writes were not resent automatically, so check whether they were applied first.';
+}
+
+export class NetworkError extends DNSError {
+  readonly code = 'NETWORK_ERROR';
+  readonly retryable = true;
+  hint = 'Check connectivity to the Cloud DNS API endpoint (GOOGLE_CLOUD_DNS_API_ENDPOINT).';
+}
+
+export class RequestTimeoutError extends DNSError {
+  readonly code = 'TIMEOUT';
+  readonly retryable = true;
+  hint = 'The API did not answer in time. Retry, or raise GOOGLE_CLOUD_DNS_REQUEST_TIMEOUT_MS.';
+}
+
+/**
+ * Raised when a change is still pending after the wait timeout
+ */
+export class ChangeWaitTimeoutError extends DNSError {
+  readonly code = 'CHANGE_PENDING';
+  readonly retryable = true;
+
+  constructor(public change: Change, public timeout: number) {
+    super(`Change '${change.id}' did not complete within ${timeout}ms; it is still ${change.status || 'pending'}`);
+    this.hint = `The change was submitted. Track it with gcloud_dns_wait_for_change (changeId: ${change.id}).`;
+  }
+}
+
+/**
+ * Raised when the guardrails policy forbids an operation
+ */
+export class PolicyViolationError extends DNSError {
+  readonly code = 'POLICY_VIOLATION';
+  hint = 'The guardrails policy (GOOGLE_CLOUD_DNS_GUARDRAILS) forbids this. Ask an operator to make the change or to relax the policy; retrying will not help.';
+}
+
+/**
+ * Raised when the guardrails policy requires a destructive operation to be confirmed
+ */
+export class ConfirmationRequiredError extends DNSError {
+  readonly code = 'CONFIRMATION_REQUIRED';
+
+  constructor(message: string, public token: string) {
+    super(message);
+    this.hint = `Review the operation (dryRun: true previews it), then repeat the same call with confirm: '${token}'.`;
+  }
+}
+
+// 403 reasons that mean a limit was hit rather than a missing permission
+const RATE_LIMIT_REASONS = new Set(['rateLimitExceeded', 'userRateLimitExceeded']);
+const QUOTA_REASONS = new Set(['quotaExceeded', 'dailyLimitExceeded']);
+
+/**
+ * Build the typed error for a non-2xx Cloud DNS API response
+ */
+export function errorFromResponse(status: number, body: any, statusText: string): DNSError {
+  const message = `Google Cloud DNS API Error (${status}): ${body?.error?.message || body?.message || statusText}`;
+  const reason: string | undefined = body?.error?.errors?.[0]?.reason;
+  const details = { status, reason };
+
+  if (status === 429 || (reason && RATE_LIMIT_REASONS.has(reason))) return new RateLimitError(message, details);
+  if (reason && QUOTA_REASONS.has(reason)) return new QuotaExceededError(message, details);
+
+  switch (status) {
+    case 400: return new InvalidRequestError(message, details);
+    case 401: return new AuthenticationError(message, details);
+    case 403: return new PermissionDeniedError(message, details);
+    case 404: return new NotFoundError(message, details);
+    case 409: return new AlreadyExistsError(message, details);
+    case 412: return new PreconditionFailedError(message, details);
+  }
+  if (status >= 500) return new ServiceUnavailableError(message, details);
+  return new DNSError(message, details);
+}
+
+/**
+ * Predefined role that grants an IAM permission
+ */
+function roleFor(permission: string): string {
+  return /\.(list|get)$/.test(permission) ? 'roles/dns.reader' : 'roles/dns.admin';
+}
+
+/**
+ * Prefix an error with what was being attempted, keeping its type.
+ * `permission` names the IAM permission the call needs, for 403 hints.
+ */
+export function withContext(error: unknown, context: string, permission?: string): DNSError {
+  const dnsError = error instanceof DNSError
+    ? error
+    : new DNSError(error instanceof Error ? error.message : String(error), { cause: error });
+
+  dnsError.message = `${context}: ${dnsError.message}`;
+  if (dnsError instanceof PermissionDeniedError && permission && !dnsError.permission) {
+    dnsError.permission = permission;
+    dnsError.hint = `The credentials are missing the IAM permission ${permission}. ` +
+      `Grant ${roleFor(permission)} (or a custom role that includes ${permission}) to the service account on this project.`;
+  }
+  return dnsError;
+}
+
+/**
+ * Map an error to a tool result carrying a machine-readable code and a remediation hint
+ */
+export function errorResult(prefix: string, error: unknown): ToolResult {
+  const dnsError = error instanceof DNSError ? error : undefined;
+  const message = error instanceof Error ? error.message : String(error);
+  const code = dnsError?.code ?? 'UNKNOWN';
+
+  return {
+    content: [{
+      type: "text",
+      text: `${prefix}: ${message}` +
+        (dnsError?.hint ? `\n\nHint: ${dnsError.hint}` : '') +
+        `\n\nError code: ${code}${dnsError?.retryable ? ' (retryable)' : ''}`
+    }],
+    structuredContent: {
+      error: {
+        code,
+        message,
+        retryable: dnsError?.retryable ?? false,
+        ...(dnsError?.status !== undefined ? { status: dnsError.status } : {}),
+        ...(dnsError?.reason ? { reason: dnsError.reason } : {}),
+        ...(dnsError instanceof PermissionDeniedError && dnsError.permission ? { permission: dnsError.permission } : {}),
+        ...(dnsError instanceof ConfirmationRequiredError ? { confirmationToken: dnsError.token } : {}),
+        ...(dnsError?.hint ? { hint: dnsError.hint } : {}),
+      }
+    },
+    isError: true
+  };
+}
@@ -0,0 +1,266 @@
+import { createHmac, randomBytes } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { parse as parseYAML } from 'yaml';
+import { Change, GuardrailsPolicy, ProtectedRecordRule, ResourceRecordSet } from '../types/index.js';
+import { GoogleCloudDNSClient } from './client.js';
+import { ConfirmationRequiredError, PolicyViolationError } from './errors.js';
+import { normalizeName, qualifyName } from './names.js';
+
+const POLICY_KEYS = new Set(['readOnlyZones', 'protectedRecords', 'maxRrsetsPerChange', 'minTtl', 'maxTtl', 'requireConfirmation']);
+
+export class GuardrailsPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GuardrailsPolicyError';
+  }
+}
+
+export interface ChangeCheckOptions {
+  /** Token from an earlier CONFIRMATION_REQUIRED error */
+  confirm?: string;
+  /** Dry runs are checked against the policy but never need confirmation */
+  dryRun?: boolean;
+  /** The changes a bulk tool submits the change as; the rrset cap applies to each of them */
+  batches?: Change[];
+}
+
+function checkStringList(value: unknown, path: string): void {
+  if (value !== undefined && (!Array.isArray(value) || !value.every(item => typeof item === 'string' && item))) {
+    throw new GuardrailsPolicyError(`${path} must be a list of non-empty strings`);
+  }
+}
+
+function checkInteger(value: unknown, path: string, min: number): void {
+  if (value !== undefined && (!Number.isInteger(value) || (value as number) < min)) {
+    throw new GuardrailsPolicyError(`${path} must be an integer of at least ${min}`);
+  }
+}
+
+/**
+ * Parse and validate a JSON or YAML guardrails policy. Unknown settings are
+ * rejected so a misspelt limit fails loudly instead of being ignored.
+ */
+export function parseGuardrailsPolicy(text: string): GuardrailsPolicy {
+  let document: any;
+  try {
+    document = parseYAML(text);
+  } catch (error: any) {
+    throw new GuardrailsPolicyError(`Policy is not valid JSON or YAML: ${error.message}`);
+  }
+
+  if (document === null || document === undefined) {
+    return {};
+  }
+  if (typeof document !== 'object' || Array.isArray(document)) {
+    throw new GuardrailsPolicyError('Policy must be an object');
+  }
+
+  const unknown = Object.keys(document).filter(key => !POLICY_KEYS.has(key));
+  if (unknown.length > 0) {
+    throw new GuardrailsPolicyError(`Unknown settings: ${unknown.join(', ')}`);
+  }
+
+  checkStringList(document.readOnlyZones, 'readOnlyZones');
+  checkInteger(document.maxRrsetsPerChange, 'maxRrsetsPerChange', 1);
+  checkInteger(document.minTtl, 'minTtl', 0);
+  checkInteger(document.maxTtl, 'maxTtl', 0);
+  if (document.minTtl !== undefined && document.maxTtl !== undefined && document.minTtl > document.maxTtl) {
+    throw new GuardrailsPolicyError('minTtl must not be greater than maxTtl');
+  }
+  if (document.requireConfirmation !== undefined && typeof document.requireConfirmation !== 'boolean') {
+    throw new GuardrailsPolicyError('requireConfirmation must be true or false');
+  }
+
+  if (document.protectedRecords !== undefined && !Array.isArray(document.protectedRecords)) {
+    throw new GuardrailsPolicyError('protectedRecords must be a list of { name, types?, zones? } rules');
+  }
+  const protectedRecords = (document.protectedRecords as any[] | undefined)?.map((rule, i): ProtectedRecordRule => {
+    const path = `protectedRecords[${i}]`;
+    if (!rule || typeof rule !== 'object' || typeof rule.name !== 'string' || !rule.name) {
+      throw new GuardrailsPolicyError(`${path}.name must be a non-empty string`);
+    }
+    checkStringList(rule.types, `${path}.types`);
+    checkStringList(rule.zones, `${path}.zones`);
+    return {
+      name: rule.name,
+      ...(rule.types ? { types: rule.types.map((type: string) => type.toUpperCase()) } : {}),
+      ...(rule.zones ? { zones: rule.zones } : {}),
+    };
+  });
+
+  return { ...document, ...(protectedRecords ? { protectedRecords } : {}) };
+}
+
+/**
+ * Load the guardrails policy file, or allow everything when no file is configured
+ */
+export function loadGuardrails(path?: string): Guardrails {
+  if (!path) {
+    return new Guardrails();
+  }
+
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (error: any) {
+    throw new Error(`Failed to read guardrails policy '${path}': ${error.message}`);
+  }
+
+  try {
+    return new Guardrails(parseGuardrailsPolicy(text));
+  } catch (error: any) {
+    throw new Error(`Invalid guardrails policy '${path}': ${error.message}`);
+  }
+}
+
+function rrsetKey(record: ResourceRecordSet): string {
+  return `${normalizeName(record.name || '')} ${record.type?.toUpperCase()}`;
+}
+
+/**
+ * Whether zone entries (`zone` or `project/zone`) match a zone in a project
+ */
+function matchesZone(entries: string[], projectId: string, zoneName: string): boolean {
+  return entries.some(entry => entry === zoneName || entry === `${projectId}/${zoneName}`);
+}
+
+function globSource(glob: string): string {
+  return glob
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+}
+
+/**
+ * Compile a protected name pattern against a zone: '*' matches any characters.
+ * Other names are apex-relative, but 'label.*' (e.g. '_acme-challenge.*')
+ * matches the label at the apex and in front of any name below it.
+ */
+function namePattern(pattern: string, origin: string): RegExp {
+  if (pattern.endsWith('.*') && pattern.length > 2) {
+    const zone = normalizeName(origin);
+    const label = globSource(pattern.slice(0, -2).toLowerCase());
+    return new RegExp(`^${label}(\\..+)?${globSource(zone === '.' ? '.' : `.${zone}`)}$`);
+  }
+  return new RegExp(`^${globSource(qualifyName(pattern, origin))}$`);
+}
+
+/**
+ * Whether a change deletes record sets without adding new versions of them
+ */
+export function isDestructive(change: Change): boolean {
+  const added = new Set((change.additions || []).map(rrsetKey));
+  return (change.deletions || []).some(record => !added.has(rrsetKey(record)));
+}
+
+/**
+ * Enforces the guardrails policy for mutating tools. Violations are raised as
+ * PolicyViolationError and missing confirmations as ConfirmationRequiredError,
+ * so tools report them through errorResult like any other failure.
+ */
+export class Guardrails {
+  // Confirmation tokens are only valid for this server process
+  private secret = randomBytes(32);
+
+  constructor(readonly policy: GuardrailsPolicy = {}) {}
+
+  /**
+   * Reject writes to a read-only zone; needs no lookup, so run it first
+   */
+  checkZone(client: GoogleCloudDNSClient, zoneName: string): void {
+    if (matchesZone(this.policy.readOnlyZones || [], client.projectId, zoneName)) {
+      throw new PolicyViolationError(`Zone '${zoneName}' is read-only under the guardrails policy`);
+    }
+  }
+
+  /**
+   * Check a planned change against the zone, rrset cap, TTL bounds and
+   * protected records, then require confirmation if it deletes record sets
+   */
+  async checkChange(
+    client: GoogleCloudDNSClient,
+    zoneName: string,
+    change: Change,
+    options: ChangeCheckOptions = {}
+  ): Promise<void> {
+    this.checkZone(client, zoneName);
+
+    const { maxRrsetsPerChange, minTtl, maxTtl } = this.policy;
+    const violations: string[] = [];
+    const touchedBy = (c: Change) => new Map([...(c.deletions || []), ...(c.additions || [])].map(r => [rrsetKey(r), r]));
+    const touched = touchedBy(change);
+
+    const largest = Math.max(...(options.batches || [change]).map(c => touchedBy(c).size));
+    if (maxRrsetsPerChange !== undefined && largest > maxRrsetsPerChange) {
+      violations.push(`the change touches ${largest} record sets; at most ${maxRrsetsPerChange} are allowed`);
+    }
+
+    for (const record of change.additions || []) {
+      if (record.ttl === undefined) {
+        continue;
+      }
+      if (minTtl !== undefined && record.ttl < minTtl) {
+        violations.push(`${record.name} ${record.type} TTL ${record.ttl} is below the minimum of ${minTtl}`);
+      }
+      if (maxTtl !== undefined && record.ttl > maxTtl) {
+        violations.push(`${record.name} ${record.type} TTL ${record.ttl} is above the maximum of ${maxTtl}`);
+      }
+    }
+
+    const rules = (this.policy.protectedRecords || [])
+      .filter(rule => !rule.zones || matchesZone(rule.zones, client.projectId, zoneName));
+    if (rules.length > 0 && touched.size > 0) {
+      const origin = (await client.getManagedZone(zoneName)).dnsName!;
+      const patterns = rules.map(rule => ({ rule, pattern: namePattern(rule.name, origin) }));
+
+      for (const record of touched.values()) {
+        const match = patterns.find(({ rule, pattern }) =>
+          (!rule.types || rule.types.includes(record.type!.toUpperCase())) && pattern.test(normalizeName(record.name!))
+        );
+        if (match) {
+          violations.push(`${record.name} ${record.type} is protected (rule '${match.rule.name}'${match.rule.types ? ` ${match.rule.types.join(', ')}` : ''})`);
+        }
+      }
+    }
+
+    if (violations.length > 0) {
+      throw new PolicyViolationError(`Blocked by the guardrails policy:\n${violations.map(v => `  • ${v}`).join('\n')}`);
+    }
+
+    if (!options.dryRun && isDestructive(change)) {
+      const deleted = (change.deletions || []).map(r => `${r.name} ${r.type}`);
+      this.confirm(
+        'change',
+        { project: client.projectId, zone: zoneName, change },
+        options.confirm,
+        deleted.length === 1 ? `Deleting ${deleted[0]}` : `Deleting or replacing ${deleted.length} record sets`
+      );
+    }
+  }
+
+  /**
+   * Require a confirmation token for a destructive operation when the policy
+   * asks for one. The token is derived from the action and its subject, so it
+   * only approves that exact operation.
+   */
+  confirm(action: string, subject: unknown, token: string | undefined, description: string): void {
+    if (!this.policy.requireConfirmation) {
+      return;
+    }
+
+    const expected = createHmac('sha256', this.secret)
+      .update(JSON.stringify([action, subject]))
+      .digest('base64url')
+      .slice(0, 16);
+    if (token === expected) {
+      return;
+    }
+
+    throw new ConfirmationRequiredError(
+      token
+        ? `${description}: the confirmation token does not match this operation, which may have changed since the token was issued`
+        : `${description} requires confirmation under the guardrails policy`,
+      expected
+    );
+  }
+}
@@ -7,9 +7,25 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  type ToolAnnotations,
 } from "@modelcontextprotocol/sdk/types.js";
+import type { Change } from "../types/index.js";
 
-export interface MCPServerConfig {
+export type { ToolAnnotations };
+
+/**
+ * Which tools a server registers
+ */
+export interface ToolFilter {
+  /** Register only tools annotated with readOnlyHint: true */
+  readOnly?: boolean;
+  /** Tool names to register; '*' matches any characters */
+  allowTools?: string[];
+  /** Tool names never to register, applied after allowTools */
+  denyTools?: string[];
+}
+
+export interface MCPServerConfig extends ToolFilter {
   name: string;
   version: string;
   description?: string;
@@ -19,7 +35,20 @@ export interface ToolDefinition {
   name: string;
   description: string;
   inputSchema: Record<string, unknown>;
-  handler: (args: Record<string, unknown>) => Promise<ToolResult>;
+  annotations?: ToolAnnotations;
+  handler: (args: Record<string, unknown>, context?: ToolContext) => Promise<ToolResult>;
+}
+
+/**
+ * Per-call context passed to tool handlers
+ */
+export interface ToolContext {
+  /** Send a progress notification; a no-op unless the client sent a progress token */
+  reportProgress(progress: number, total?: number, message?: string): Promise<void>;
+  /** Aborted when the client cancels the call */
+  signal?: AbortSignal;
+  /** Record a submitted DNS change in this call's audit entry; absent when the call is not audited */
+  recordChange?(projectId: string, zoneName: string, change: Change): void;
 }
 
 export interface ToolResult {
@@ -37,18 +66,51 @@ export abstract class Tool {
   abstract name: string;
   abstract description: string;
   abstract get inputSchema(): Record<string, unknown>;
-  abstract execute(input: ToolInput): Promise<ToolResult>;
+  /** Behaviour hints for clients; a tool without readOnlyHint: true counts as mutating */
+  annotations?: ToolAnnotations;
+  abstract execute(input: ToolInput, context?: ToolContext): Promise<ToolResult>;
 
   toDefinition(): ToolDefinition {
     return {
       name: this.name,
       description: this.description,
       inputSchema: this.inputSchema,
-      handler: (args) => this.execute(args),
+      annotations: this.annotations,
+      handler: (args, context) => this.execute(args, context),
     };
   }
 }
 
+function namePattern(pattern: string): RegExp {
+  const source = pattern
+    .split("*")
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Apply read-only mode and the allow/deny lists. A pattern that matches no
+ * tool is rejected, so a typo cannot silently change what gets registered.
+ */
+export function filterTools(tools: ToolDefinition[], filter: ToolFilter): ToolDefinition[] {
+  const compile = (patterns: string[] = []) => patterns.map(pattern => {
+    const regex = namePattern(pattern);
+    if (!tools.some(tool => regex.test(tool.name))) {
+      throw new Error(`Tool filter '${pattern}' does not match any tool`);
+    }
+    return regex;
+  });
+  const allow = filter.allowTools?.length ? compile(filter.allowTools) : undefined;
+  const deny = compile(filter.denyTools);
+
+  return tools.filter(tool =>
+    (!filter.readOnly || tool.annotations?.readOnlyHint === true) &&
+    (!allow || allow.some(regex => regex.test(tool.name))) &&
+    !deny.some(regex => regex.test(tool.name))
+  );
+}
+
 /**
  * Create and configure an MCP server with tools
  */
@@ -68,10 +130,14 @@ export function createMCPServer(
     }
   );
 
-  // Convert tools to definitions
-  const toolDefs = tools.map(tool => 
+  // Convert tools to definitions, keeping only the ones the config allows
+  const allDefs = tools.map(tool => 
     'toDefinition' in tool ? tool.toDefinition() : tool
   );
+  const toolDefs = filterTools(allDefs, config);
+  if (toolDefs.length < allDefs.length) {
+    console.error(`[MCP] Registered ${toolDefs.length} of ${allDefs.length} tools${config.readOnly ? " (read-only mode)" : ""}`);
+  }
 
   // Register tool list handler
   server.setRequestHandler(ListToolsRequestSchema, async () => ({
@@ -79,11 +145,12 @@ export function createMCPServer(
       name: t.name,
       description: t.description,
       inputSchema: t.inputSchema,
+      ...(t.annotations ? { annotations: t.annotations } : {}),
     })),
   }));
 
   // Register tool call handler
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const toolName = request.params.name;
     const tool = toolDefs.find((t) => t.name === toolName);
 
@@ -94,9 +161,23 @@ export function createMCPServer(
       };
     }
 
+    const progressToken = request.params._meta?.progressToken;
+    const context: ToolContext = {
+      signal: extra.signal,
+      reportProgress: async (progress, total, message) => {
+        if (progressToken === undefined) {
+          return;
+        }
+        await extra.sendNotification({
+          method: "notifications/progress",
+          params: { progressToken, progress, total, message },
+        });
+      },
+    };
+
     try {
       const args = request.params.arguments ?? {};
-      return await tool.handler(args as Record<string, unknown>);
+      return await tool.handler(args as Record<string, unknown>, context);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       return {
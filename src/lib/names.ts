@@ -0,0 +1,60 @@
+/**
+ * Lowercase a domain name and make sure it ends with a dot
+ */
+export function normalizeName(name: string): string {
+  const lower = name.toLowerCase();
+  return lower.endsWith('.') ? lower : `${lower}.`;
+}
+
+/**
+ * Resolve '@', relative and absolute names against an origin
+ */
+export function qualifyName(name: string, origin: string): string {
+  const zone = normalizeName(origin);
+  if (name === '@') {
+    return zone;
+  }
+  if (name.endsWith('.')) {
+    return name.toLowerCase();
+  }
+  return zone === '.' ? `${name.toLowerCase()}.` : `${name.toLowerCase()}.${zone}`;
+}
+
+/**
+ * Whether a fully qualified name is the origin or below it
+ */
+export function isInZone(name: string, origin: string): boolean {
+  const fqdn = normalizeName(name);
+  const zone = normalizeName(origin);
+  return zone === '.' || fqdn === zone || fqdn.endsWith(`.${zone}`);
+}
+
+/**
+ * Express a name relative to the origin when it falls inside it
+ */
+export function relativeName(name: string, origin: string): string {
+  const fqdn = normalizeName(name);
+  const zone = normalizeName(origin);
+
+  if (fqdn === zone) {
+    return '@';
+  }
+  if (fqdn.endsWith(`.${zone}`)) {
+    return fqdn.slice(0, -(zone.length + 1));
+  }
+  return fqdn;
+}
+
+/**
+ * Resolve a record name given by a user against the zone's DNS name.
+ *
+ * '@' is the apex, a trailing dot marks an absolute name, and a name without
+ * one is taken as absolute when it already ends with the zone's DNS name
+ * (www.example.com) and as relative to the zone otherwise (www).
+ */
+export function resolveRecordName(name: string, origin: string): string {
+  if (name === '@' || name.endsWith('.')) {
+    return qualifyName(name, origin);
+  }
+  return isInZone(name, origin) ? normalizeName(name) : qualifyName(name, origin);
+}
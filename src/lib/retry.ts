@@ -0,0 +1,60 @@
+import { RetryOptions } from '../types/index.js';
+
+export const DEFAULT_RETRY: Required<RetryOptions> = {
+  maxRetries: 4,
+  baseDelay: 500,
+  maxDelay: 30000,
+};
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Delay before retry number `attempt` (0-based), using full jitter
+ */
+export function backoffDelay(attempt: number, options: Required<RetryOptions>, random: () => number = Math.random): number {
+  const ceiling = Math.min(options.maxDelay, options.baseDelay * 2 ** attempt);
+  return Math.round(random() * ceiling);
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Limit how many tasks run at once; extra tasks wait in FIFO order
+ */
+export function createLimiter(maxConcurrency: number): <T>(task: () => Promise<T>) => Promise<T> {
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= maxConcurrency) {
+      // The finishing task hands its slot over instead of releasing it
+      await new Promise<void>(resolve => queue.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = queue.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    }
+  };
+}
@@ -0,0 +1,284 @@
+import { isIP } from 'node:net';
+import { GeoPolicy, HealthCheckTargets, LoadBalancerTarget, RRSetRoutingPolicy } from '../types/index.js';
+import type { GoogleCloudDNSClient } from './client.js';
+import { validateRecord } from './validation.js';
+
+const POLICY_KINDS = ['wrr', 'geo', 'primaryBackup'] as const;
+const LOAD_BALANCER_TYPES = new Set(['regionalL4ilb', 'regionalL7ilb', 'globalL7ilb', 'none']);
+const REGION_PATTERN = /^[a-z]+-[a-z]+\d+$/;
+
+export interface RoutingPolicyValidation {
+  /** Normalized copy; only meaningful when there are no errors */
+  policy: RRSetRoutingPolicy;
+  errors: string[];
+}
+
+class RoutingError extends Error {}
+
+function fail(message: string): never {
+  throw new RoutingError(message);
+}
+
+function checkTargets(targets: HealthCheckTargets | undefined, path: string, type: string): HealthCheckTargets {
+  if (!targets || typeof targets !== 'object') {
+    fail(`${path} must be an object with internalLoadBalancers or externalEndpoints`);
+  }
+  if (type !== 'A' && type !== 'AAAA') {
+    fail(`${path}: health-checked targets are only supported on A and AAAA records`);
+  }
+
+  const internal = targets.internalLoadBalancers || [];
+  const external = targets.externalEndpoints || [];
+  if (!Array.isArray(internal) || !Array.isArray(external) || internal.length + external.length === 0) {
+    fail(`${path} must list at least one internal load balancer or external endpoint`);
+  }
+
+  const internalLoadBalancers = internal.map((target: LoadBalancerTarget, index): LoadBalancerTarget => {
+    const at = `${path}.internalLoadBalancers[${index}]`;
+    if (!target?.ipAddress || isIP(target.ipAddress) === 0) fail(`${at}.ipAddress must be an IP address`);
+    const port = Number(target.port);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) fail(`${at}.port must be a port number`);
+    if (target.ipProtocol !== 'tcp' && target.ipProtocol !== 'udp') fail(`${at}.ipProtocol must be tcp or udp`);
+    if (!target.networkUrl) fail(`${at}.networkUrl is required`);
+    if (!target.region || !REGION_PATTERN.test(target.region)) fail(`${at}.region must be a region such as us-east1`);
+    if (!target.loadBalancerType || !LOAD_BALANCER_TYPES.has(target.loadBalancerType)) {
+      fail(`${at}.loadBalancerType must be one of: ${[...LOAD_BALANCER_TYPES].join(', ')}`);
+    }
+    if (!target.project) fail(`${at}.project is required`);
+    return { ...target, port: String(port) };
+  });
+
+  external.forEach((address, index) => {
+    if (typeof address !== 'string' || isIP(address) === 0) {
+      fail(`${path}.externalEndpoints[${index}] must be an IP address`);
+    }
+  });
+
+  return {
+    ...(internalLoadBalancers.length > 0 ? { internalLoadBalancers } : {}),
+    ...(external.length > 0 ? { externalEndpoints: external } : {}),
+  };
+}
+
+/**
+ * Check an item's answer: either record data or health-checked targets
+ */
+function checkAnswer<T extends { rrdatas?: string[]; healthCheckedTargets?: HealthCheckTargets }>(
+  item: T, path: string, name: string, type: string, origin?: string
+): T {
+  const hasData = Array.isArray(item.rrdatas) && item.rrdatas.length > 0;
+  if (hasData === (item.healthCheckedTargets !== undefined)) {
+    fail(`${path} must have either a non-empty rrdatas array or healthCheckedTargets`);
+  }
+  if (!hasData) {
+    return { ...item, healthCheckedTargets: checkTargets(item.healthCheckedTargets, `${path}.healthCheckedTargets`, type) };
+  }
+
+  const validation = validateRecord(name, type, item.rrdatas!, origin);
+  if (validation.errors.length > 0) {
+    fail(validation.errors.map(error => `${path}.${error.field}: ${error.message}`).join('; '));
+  }
+  return { ...item, rrdatas: validation.rrdatas };
+}
+
+function checkGeo(geo: GeoPolicy | undefined, path: string, name: string, type: string, origin?: string): GeoPolicy {
+  if (!geo || !Array.isArray(geo.items) || geo.items.length === 0) {
+    fail(`${path}.items must be a non-empty array`);
+  }
+  if (geo.enableFencing !== undefined && typeof geo.enableFencing !== 'boolean') {
+    fail(`${path}.enableFencing must be a boolean`);
+  }
+
+  const locations = new Set<string>();
+  const items = geo.items.map((item, index) => {
+    const at = `${path}.items[${index}]`;
+    if (typeof item?.location !== 'string' || !REGION_PATTERN.test(item.location)) {
+      fail(`${at}.location must be a Google Cloud region such as us-east1`);
+    }
+    if (locations.has(item.location)) {
+      fail(`${at}.location ${item.location} appears more than once`);
+    }
+    locations.add(item.location);
+    return checkAnswer(item, at, name, type, origin);
+  });
+
+  return { ...geo, items };
+}
+
+/**
+ * Validate a routing policy for an rrset, normalizing its record data the
+ * same way as plain rrdatas, with single-label targets qualified against
+ * `origin`. Exactly one of wrr, geo or primaryBackup must be set.
+ */
+export function validateRoutingPolicy(name: string, type: string, policy: RRSetRoutingPolicy, origin?: string): RoutingPolicyValidation {
+  try {
+    if (!policy || typeof policy !== 'object') {
+      fail('routingPolicy must be an object');
+    }
+    const kinds = POLICY_KINDS.filter(kind => policy[kind] !== undefined);
+    if (kinds.length !== 1) {
+      fail(`routingPolicy must set exactly one of ${POLICY_KINDS.join(', ')}`);
+    }
+    if (policy.healthCheck !== undefined && (typeof policy.healthCheck !== 'string' || !policy.healthCheck)) {
+      fail('routingPolicy.healthCheck must be a health check resource URL');
+    }
+
+    const normalized: RRSetRoutingPolicy = { ...policy };
+    if (policy.wrr) {
+      if (!Array.isArray(policy.wrr.items) || policy.wrr.items.length === 0) {
+        fail('routingPolicy.wrr.items must be a non-empty array');
+      }
+      const items = policy.wrr.items.map((item, index) => {
+        const at = `routingPolicy.wrr.items[${index}]`;
+        if (typeof item?.weight !== 'number' || !Number.isFinite(item.weight) || item.weight < 0) {
+          fail(`${at}.weight must be a non-negative number`);
+        }
+        return checkAnswer(item, at, name, type, origin);
+      });
+      if (items.every(item => item.weight === 0)) {
+        fail('routingPolicy.wrr.items must have at least one non-zero weight');
+      }
+      normalized.wrr = { ...policy.wrr, items };
+    } else if (policy.geo) {
+      normalized.geo = checkGeo(policy.geo, 'routingPolicy.geo', name, type, origin);
+    } else {
+      const failover = policy.primaryBackup!;
+      const trickle = failover.trickleTraffic;
+      if (trickle !== undefined && (typeof trickle !== 'number' || trickle < 0 || trickle > 1)) {
+        fail('routingPolicy.primaryBackup.trickleTraffic must be a number between 0 and 1');
+      }
+      normalized.primaryBackup = {
+        ...failover,
+        primaryTargets: checkTargets(failover.primaryTargets, 'routingPolicy.primaryBackup.primaryTargets', type),
+        backupGeoTargets: checkGeo(failover.backupGeoTargets, 'routingPolicy.primaryBackup.backupGeoTargets', name, type, origin),
+      };
+    }
+
+    const usesExternal = JSON.stringify(normalized).includes('"externalEndpoints"');
+    if (usesExternal && !normalized.healthCheck) {
+      fail('routingPolicy.healthCheck is required when externalEndpoints are used');
+    }
+
+    return { policy: normalized, errors: [] };
+  } catch (error) {
+    if (!(error instanceof RoutingError)) throw error;
+    return { policy, errors: [error.message] };
+  }
+}
+
+/**
+ * Apply a function to every load balancer target in a policy, e.g. to expand
+ * short network names into URLs
+ */
+export function mapLoadBalancerTargets(
+  policy: RRSetRoutingPolicy,
+  map: (target: LoadBalancerTarget) => LoadBalancerTarget
+): RRSetRoutingPolicy {
+  // Malformed input is passed through untouched for validateRoutingPolicy to report
+  const mapTargets = (targets?: HealthCheckTargets): HealthCheckTargets | undefined =>
+    Array.isArray(targets?.internalLoadBalancers)
+      ? { ...targets, internalLoadBalancers: targets.internalLoadBalancers.map(map) }
+      : targets;
+  const mapItems = <T extends { healthCheckedTargets?: HealthCheckTargets }>(items?: T[]): T[] | undefined =>
+    Array.isArray(items)
+      ? items.map(item => (item?.healthCheckedTargets ? { ...item, healthCheckedTargets: mapTargets(item.healthCheckedTargets) } : item))
+      : items;
+
+  return {
+    ...policy,
+    ...(policy.wrr ? { wrr: { ...policy.wrr, items: mapItems(policy.wrr.items) } } : {}),
+    ...(policy.geo ? { geo: { ...policy.geo, items: mapItems(policy.geo.items) } } : {}),
+    ...(policy.primaryBackup ? {
+      primaryBackup: {
+        ...policy.primaryBackup,
+        primaryTargets: mapTargets(policy.primaryBackup.primaryTargets),
+        ...(policy.primaryBackup.backupGeoTargets ? {
+          backupGeoTargets: { ...policy.primaryBackup.backupGeoTargets, items: mapItems(policy.primaryBackup.backupGeoTargets.items) }
+        } : {}),
+      }
+    } : {}),
+  };
+}
+
+/**
+ * Expand short network names in a routing policy's load balancer targets,
+ * defaulting each target's project to the network's project
+ */
+export function resolveRoutingPolicy(policy: RRSetRoutingPolicy, client: GoogleCloudDNSClient): RRSetRoutingPolicy {
+  return mapLoadBalancerTargets(policy, target => {
+    if (typeof target?.networkUrl !== 'string' || !target.networkUrl) {
+      return target;
+    }
+    const networkUrl = client.resolveNetworkUrl(target.networkUrl);
+    return {
+      ...target,
+      networkUrl,
+      project: target.project ?? networkUrl.match(/projects\/([^/]+)\//)?.[1]
+    };
+  });
+}
+
+function formatTargets(targets?: HealthCheckTargets): string {
+  return [
+    ...(targets?.internalLoadBalancers || []).map(lb => `ILB ${lb.ipAddress}:${lb.port}/${lb.ipProtocol} (${lb.region})`),
+    ...(targets?.externalEndpoints || []).map(address => `${address} (health-checked)`),
+  ].join(', ') || 'No targets';
+}
+
+function formatAnswer(item: { rrdatas?: string[]; healthCheckedTargets?: HealthCheckTargets }): string {
+  return item.rrdatas?.length ? item.rrdatas.join(', ') : formatTargets(item.healthCheckedTargets);
+}
+
+/**
+ * Percentage of queries an item with this weight receives
+ */
+function share(weight: number | undefined, total: number): string {
+  return total > 0 ? `${Math.round(((weight ?? 0) / total) * 1000) / 10}%` : '0%';
+}
+
+/**
+ * Multi-line description of a routing policy: one line per item with its
+ * weight or region and answers, each prefixed with `indent`
+ */
+export function formatRoutingPolicy(policy: RRSetRoutingPolicy, indent = '    '): string {
+  const lines: string[] = [];
+
+  if (policy.wrr) {
+    const items = policy.wrr.items || [];
+    const total = items.reduce((sum, item) => sum + (item.weight ?? 0), 0);
+    lines.push('Weighted round robin:');
+    lines.push(...items.map(item => `${indent}• weight ${item.weight} (${share(item.weight, total)}) → ${formatAnswer(item)}`));
+  } else if (policy.geo) {
+    lines.push(`Geolocation${policy.geo.enableFencing ? ' (fencing enabled)' : ''}:`);
+    lines.push(...(policy.geo.items || []).map(item => `${indent}• ${item.location} → ${formatAnswer(item)}`));
+  } else if (policy.primaryBackup) {
+    const failover = policy.primaryBackup;
+    lines.push(`Failover${failover.trickleTraffic ? ` (${share(failover.trickleTraffic, 1)} trickled to backups)` : ''}:`);
+    lines.push(`${indent}• primary → ${formatTargets(failover.primaryTargets)}`);
+    lines.push(...(failover.backupGeoTargets?.items || []).map(item => `${indent}• backup ${item.location} → ${formatAnswer(item)}`));
+  }
+  if (policy.healthCheck) {
+    lines.push(`${indent}Health check: ${policy.healthCheck}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * One-line summary of a routing policy for diffs
+ */
+export function summarizeRoutingPolicy(policy: RRSetRoutingPolicy): string {
+  if (policy.wrr) {
+    return `wrr[${(policy.wrr.items || []).map(item => `${item.weight}: ${formatAnswer(item)}`).join('; ')}]`;
+  }
+  if (policy.geo) {
+    return `geo[${(policy.geo.items || []).map(item => `${item.location}: ${formatAnswer(item)}`).join('; ')}]`;
+  }
+  if (policy.primaryBackup) {
+    const failover = policy.primaryBackup;
+    return `failover[primary: ${formatTargets(failover.primaryTargets)}; ` +
+      (failover.backupGeoTargets?.items || []).map(item => `backup ${item.location}: ${formatAnswer(item)}`).join('; ') +
+      (failover.trickleTraffic ? `; trickle ${failover.trickleTraffic}` : '') + ']';
+  }
+  return 'routing policy';
+}
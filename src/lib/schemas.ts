@@ -0,0 +1,75 @@
+/**
+ * JSON schemas for input properties shared by many tools
+ */
+
+export const PROJECT_ID_SCHEMA = {
+  type: 'string',
+  description: 'Project to act on instead of the default GOOGLE_CLOUD_PROJECT_ID; must be one of the configured projects (GOOGLE_CLOUD_DNS_PROJECTS)'
+} as const;
+
+export const CONFIRM_SCHEMA = {
+  type: 'string',
+  description: 'Confirmation token from an earlier CONFIRMATION_REQUIRED error, when the guardrails policy requires destructive operations to be confirmed'
+} as const;
+
+export const ROUTING_POLICY_SCHEMA = {
+  type: 'object',
+  description: 'Weighted, geolocation or failover answers, set instead of rrdatas. Set exactly one of wrr, geo or primaryBackup. ' +
+    'Each item answers with rrdatas or, for A/AAAA records, healthCheckedTargets ' +
+    '({ internalLoadBalancers: [{ loadBalancerType, ipAddress, port, ipProtocol, networkUrl, region, project? }] } or { externalEndpoints: [ip] } with healthCheck)',
+  properties: {
+    wrr: {
+      type: 'object',
+      description: 'Weighted round robin: each item is served weight / total weight of the time',
+      properties: {
+        items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              weight: { type: 'number', description: 'Non-negative relative weight' },
+              rrdatas: { type: 'array', items: { type: 'string' } },
+              healthCheckedTargets: { type: 'object' }
+            },
+            required: ['weight']
+          }
+        }
+      },
+      required: ['items']
+    },
+    geo: {
+      type: 'object',
+      description: 'Geolocation: answer with the item for the Google Cloud region closest to the caller',
+      properties: {
+        items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              location: { type: 'string', description: 'Google Cloud region, e.g. us-east1' },
+              rrdatas: { type: 'array', items: { type: 'string' } },
+              healthCheckedTargets: { type: 'object' }
+            },
+            required: ['location']
+          }
+        },
+        enableFencing: { type: 'boolean', description: 'Do not fail over to other regions when the closest one is unhealthy' }
+      },
+      required: ['items']
+    },
+    primaryBackup: {
+      type: 'object',
+      description: 'Failover: serve primaryTargets while healthy, otherwise the geo-routed backupGeoTargets',
+      properties: {
+        primaryTargets: { type: 'object', description: 'Health-checked targets: { internalLoadBalancers } or { externalEndpoints }' },
+        backupGeoTargets: { type: 'object', description: 'Geolocation policy ({ items, enableFencing }) used when the primary is unhealthy' },
+        trickleTraffic: { type: 'number', description: 'Fraction of traffic (0-1) sent to the backups even while the primary is healthy' }
+      },
+      required: ['primaryTargets', 'backupGeoTargets']
+    },
+    healthCheck: {
+      type: 'string',
+      description: 'Health check resource URL, required when externalEndpoints are used'
+    }
+  }
+} as const;
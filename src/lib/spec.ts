@@ -0,0 +1,97 @@
+import { parse as parseYAML } from 'yaml';
+import { ResourceRecordSet } from '../types/index.js';
+import { isInZone, normalizeName, qualifyName } from './names.js';
+import { quoteText } from './zonefile.js';
+
+const DEFAULT_TTL = 300;
+
+/**
+ * Desired state of a zone, as written by users in JSON or YAML:
+ *
+ *   zone: example.com.
+ *   ttl: 300
+ *   records:
+ *     "@":
+ *       MX: { ttl: 3600, rrdatas: ["10 mail.example.com."] }
+ *     www:
+ *       A: ["1.2.3.4"]
+ */
+export interface ZoneSpec {
+  zone?: string;
+  ttl?: number;
+  records: Record<string, Record<string, string[] | { ttl?: number; rrdatas: string[] }>>;
+}
+
+export class ZoneSpecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZoneSpecError';
+  }
+}
+
+/**
+ * Parse a JSON or YAML desired-state document into rrsets for the given origin
+ */
+export function parseZoneSpec(text: string, origin: string): ResourceRecordSet[] {
+  let document: any;
+  try {
+    // YAML is a superset of JSON, so one parser covers both
+    document = parseYAML(text);
+  } catch (error: any) {
+    throw new ZoneSpecError(`Spec is not valid JSON or YAML: ${error.message}`);
+  }
+
+  if (!document || typeof document !== 'object' || Array.isArray(document)) {
+    throw new ZoneSpecError('Spec must be an object with a "records" map');
+  }
+
+  const spec = document as ZoneSpec;
+  const zone = normalizeName(origin);
+
+  if (spec.zone !== undefined && normalizeName(String(spec.zone)) !== zone) {
+    throw new ZoneSpecError(`Spec is for zone ${spec.zone}, but the managed zone is ${zone}`);
+  }
+
+  const defaultTTL = spec.ttl ?? DEFAULT_TTL;
+  if (!Number.isInteger(defaultTTL) || defaultTTL < 0) {
+    throw new ZoneSpecError('ttl must be a non-negative integer');
+  }
+
+  if (!spec.records || typeof spec.records !== 'object' || Array.isArray(spec.records)) {
+    throw new ZoneSpecError('records must be a map of name → type → values');
+  }
+
+  const rrsets = new Map<string, ResourceRecordSet>();
+
+  for (const [rawName, types] of Object.entries(spec.records)) {
+    const name = qualifyName(rawName, zone);
+    if (!isInZone(name, zone)) {
+      throw new ZoneSpecError(`${rawName} is outside zone ${zone}`);
+    }
+    if (!types || typeof types !== 'object' || Array.isArray(types)) {
+      throw new ZoneSpecError(`records.${rawName} must be a map of record type → values`);
+    }
+
+    for (const [rawType, value] of Object.entries(types)) {
+      const type = rawType.toUpperCase();
+      const entry = Array.isArray(value) ? { rrdatas: value } : value;
+
+      if (!entry || !Array.isArray(entry.rrdatas) || entry.rrdatas.length === 0) {
+        throw new ZoneSpecError(`records.${rawName}.${rawType} must be a non-empty list of values or { ttl, rrdatas }`);
+      }
+      const ttl = entry.ttl ?? defaultTTL;
+      if (!Number.isInteger(ttl) || ttl < 0) {
+        throw new ZoneSpecError(`records.${rawName}.${rawType}.ttl must be a non-negative integer`);
+      }
+
+      const rrdatas = entry.rrdatas.map(v => String(v)).map(v => (type === 'TXT' || type === 'SPF' ? quoteText(v) : v));
+      const key = `${name} ${type}`;
+      if (rrsets.has(key)) {
+        throw new ZoneSpecError(`${name} ${type} is declared more than once`);
+      }
+      rrsets.set(key, { name, type, ttl, rrdatas });
+    }
+  }
+
+  return [...rrsets.values()];
+}
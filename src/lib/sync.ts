@@ -0,0 +1,127 @@
+import { ResourceRecordSet } from '../types/index.js';
+import { ChangePlan, diffRecordSets, planFromDiff, RecordSetDiff } from './changes.js';
+import { normalizeName, qualifyName, relativeName } from './names.js';
+
+/** TXT rrset at the zone apex recording which rrsets each owner manages */
+export const OWNERSHIP_RECORD_PREFIX = '_mcp-dns-sync';
+
+const MARKER_PATTERN = /^"heritage=mcp-gcloud-dns,owner=([^,"]+),record=([^"]+)\/([A-Z0-9]+)"$/;
+
+export interface SyncOptions {
+  /** Delete live rrsets missing from the spec (ignored when ownerId is set: owned rrsets are always pruned) */
+  prune?: boolean;
+  /** Only manage rrsets recorded as owned by this ID in the ownership registry */
+  ownerId?: string;
+  /** With ownerId, take over existing unowned rrsets declared in the spec */
+  adopt?: boolean;
+}
+
+export interface SyncPlan {
+  plan: ChangePlan;
+  diff: RecordSetDiff;
+  /** Declared rrsets that exist but belong to no one or someone else */
+  conflicts: string[];
+}
+
+function key(record: ResourceRecordSet): string {
+  return `${normalizeName(record.name!)} ${record.type!.toUpperCase()}`;
+}
+
+export function ownershipRecordName(origin: string): string {
+  return qualifyName(OWNERSHIP_RECORD_PREFIX, origin);
+}
+
+function markerFor(ownerId: string, record: { name: string; type: string }, origin: string): string {
+  return `"heritage=mcp-gcloud-dns,owner=${ownerId},record=${relativeName(record.name, origin)}/${record.type}"`;
+}
+
+/**
+ * Read the ownership registry into a map of rrset key → owner ID
+ */
+function readOwnership(registry: ResourceRecordSet | undefined, origin: string): Map<string, string> {
+  const owners = new Map<string, string>();
+  for (const rdata of registry?.rrdatas || []) {
+    const match = rdata.match(MARKER_PATTERN);
+    if (match) {
+      owners.set(`${qualifyName(match[2], origin)} ${match[3]}`, match[1]);
+    }
+  }
+  return owners;
+}
+
+/**
+ * Plan the changes that reconcile a zone with its desired state.
+ *
+ * Without an owner, this is a two-way diff of spec against live rrsets. With
+ * an owner it is three-way: the ownership registry says which live rrsets were
+ * put there by this owner, so those can be updated or pruned while rrsets
+ * managed by hand or by other owners are left alone.
+ */
+export function planSync(
+  origin: string,
+  current: ResourceRecordSet[],
+  desired: ResourceRecordSet[],
+  options: SyncOptions = {}
+): SyncPlan {
+  const zone = normalizeName(origin);
+  const registryName = ownershipRecordName(zone);
+  const isApexNsSoa = (record: ResourceRecordSet) =>
+    normalizeName(record.name!) === zone && (record.type === 'NS' || record.type === 'SOA');
+  const isRegistry = (record: ResourceRecordSet) =>
+    normalizeName(record.name!) === registryName && record.type === 'TXT';
+
+  const registry = current.find(isRegistry);
+  const ignore = (record: ResourceRecordSet) => isApexNsSoa(record) || isRegistry(record);
+
+  if (!options.ownerId) {
+    const diff = diffRecordSets(current, desired, { deleteMissing: options.prune, ignore });
+    return { plan: planFromDiff(diff), diff, conflicts: [] };
+  }
+
+  const ownerId = options.ownerId;
+  const owners = readOwnership(registry, zone);
+  const liveKeys = new Set(current.map(key));
+  const conflicts: string[] = [];
+
+  // Declared rrsets we may touch: new ones, ones we own, or unowned ones we adopt
+  const managed = desired.filter(record => {
+    const k = key(record);
+    if (!liveKeys.has(k) || owners.get(k) === ownerId) {
+      return true;
+    }
+    const owner = owners.get(k);
+    if (!owner && options.adopt) {
+      return true;
+    }
+    conflicts.push(owner
+      ? `${record.name} ${record.type} is owned by '${owner}'`
+      : `${record.name} ${record.type} already exists and is not owned by '${ownerId}' (set adopt to take it over)`);
+    return false;
+  });
+
+  const desiredKeys = new Set(desired.map(key));
+  const diff = diffRecordSets(current, managed, { ignore });
+  // Prune only what we own and no longer declare
+  diff.deletes = current.filter(record =>
+    !ignore(record) && owners.get(key(record)) === ownerId && !desiredKeys.has(key(record))
+  );
+
+  // Rewrite our entries in the registry, keeping other owners' markers as they are
+  const otherMarkers = (registry?.rrdatas || []).filter(rdata => {
+    const match = rdata.match(MARKER_PATTERN);
+    return !match || match[1] !== ownerId;
+  });
+  const ownMarkers = managed.map(record => markerFor(ownerId, { name: record.name!, type: record.type!.toUpperCase() }, zone));
+  const markers = [...otherMarkers, ...ownMarkers];
+
+  const nextRegistry: ResourceRecordSet = { name: registryName, type: 'TXT', ttl: registry?.ttl ?? 300, rrdatas: markers };
+  if (!registry && markers.length > 0) {
+    diff.creates.push(nextRegistry);
+  } else if (registry && markers.length === 0) {
+    diff.deletes.push(registry);
+  } else if (registry && [...markers].sort().join('\n') !== [...registry.rrdatas!].sort().join('\n')) {
+    diff.updates.push({ before: registry, after: nextRegistry });
+  }
+
+  return { plan: planFromDiff(diff), diff, conflicts };
+}
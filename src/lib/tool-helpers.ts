@@ -0,0 +1,147 @@
+/**
+ * Input validation and formatting helpers shared by the tool modules
+ */
+
+import { isIP } from 'node:net';
+import { ForwardingTargetNameServer } from '../types/index.js';
+import { ToolResult } from './mcp-core.js';
+
+/**
+ * Whether a helper returned an error result instead of a value
+ */
+export function isToolResult(value: unknown): value is ToolResult {
+  return typeof value === 'object' && value !== null && 'content' in value;
+}
+
+/**
+ * Validate optional maxResults/pageToken pagination parameters
+ */
+export function validatePagination(input: { maxResults?: unknown; pageToken?: unknown }): ToolResult | undefined {
+  if (input.maxResults !== undefined &&
+      (typeof input.maxResults !== 'number' || !Number.isInteger(input.maxResults) || input.maxResults < 1)) {
+    return {
+      content: [{ type: 'text', text: 'maxResults parameter must be a positive integer' }],
+      isError: true
+    };
+  }
+
+  if (input.pageToken !== undefined && typeof input.pageToken !== 'string') {
+    return {
+      content: [{ type: 'text', text: 'pageToken parameter must be a string' }],
+      isError: true
+    };
+  }
+
+  return undefined;
+}
+
+export const ZONE_NAME_PATTERN = /^[a-z]([-a-z0-9]{0,61}[a-z0-9])?$/;
+
+/**
+ * Validate a Cloud DNS resource name such as a policy or rule name
+ */
+export function validateResourceName(parameter: string, value: unknown): ToolResult | undefined {
+  if (typeof value !== 'string' || !ZONE_NAME_PATTERN.test(value)) {
+    return {
+      content: [{ type: 'text', text: `${parameter} must be 1-63 lowercase letters, digits or dashes, starting with a letter and not ending with a dash` }],
+      isError: true
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Validate an optional list of VPC network names or URLs
+ */
+export function validateNetworks(networks: unknown): ToolResult | undefined {
+  if (networks !== undefined &&
+      (!Array.isArray(networks) || !networks.every(n => typeof n === 'string' && n.length > 0))) {
+    return {
+      content: [{ type: 'text', text: 'networks parameter must be an array of network names or URLs' }],
+      isError: true
+    };
+  }
+  return undefined;
+}
+
+export interface ForwardingTargetInput {
+  address: string;
+  forwardingPath?: 'default' | 'private';
+}
+
+/**
+ * Validate a non-empty list of { address, forwardingPath } name server targets
+ */
+export function validateForwardingTargets(targets: unknown, parameter: string): ToolResult | undefined {
+  if (!Array.isArray(targets) || targets.length === 0) {
+    return {
+      content: [{ type: 'text', text: `${parameter} parameter must be a non-empty array` }],
+      isError: true
+    };
+  }
+
+  for (const target of targets) {
+    if (!target || typeof target.address !== 'string' || isIP(target.address) === 0) {
+      return {
+        content: [{ type: 'text', text: `Invalid ${parameter} address: ${JSON.stringify(target?.address)}` }],
+        isError: true
+      };
+    }
+    if (target.forwardingPath !== undefined && !['default', 'private'].includes(target.forwardingPath)) {
+      return {
+        content: [{ type: 'text', text: 'forwardingPath must be one of: default, private' }],
+        isError: true
+      };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Convert forwarding target inputs to the API's target name server objects
+ */
+export function toTargetNameServers(targets: ForwardingTargetInput[]): ForwardingTargetNameServer[] {
+  return targets.map(target => ({
+    ...(isIP(target.address) === 6 ? { ipv6Address: target.address } : { ipv4Address: target.address }),
+    ...(target.forwardingPath ? { forwardingPath: target.forwardingPath } : {})
+  }));
+}
+
+/**
+ * Shorten a network URL to project/network for display
+ */
+export function shortNetworkName(networkUrl?: string): string {
+  const match = networkUrl?.match(/projects\/([^/]+)\/global\/networks\/([^/]+)$/);
+  return match ? `${match[1]}/${match[2]}` : networkUrl || 'unknown';
+}
+
+export function formatForwardingTarget(target: { ipv4Address?: string; ipv6Address?: string; forwardingPath?: string }): string {
+  return `${target.ipv4Address || target.ipv6Address}${target.forwardingPath === 'private' ? ' (private path)' : ''}`;
+}
+
+/**
+ * Footer pointing at the next page, if there is one
+ */
+export function formatNextPage(nextPageToken?: string): string {
+  return nextPageToken
+    ? `\n\nMore results available. Call again with pageToken: ${nextPageToken}`
+    : '';
+}
+
+/**
+ * Parse an optional ISO 8601 timestamp parameter into epoch milliseconds
+ */
+export function parseTimestamp(value: unknown, label: string): number | undefined | ToolResult {
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  if (Number.isNaN(time)) {
+    return {
+      content: [{ type: 'text', text: `${label} parameter must be an ISO 8601 timestamp (e.g., 2024-05-01T12:00:00Z)` }],
+      isError: true
+    };
+  }
+  return time;
+}
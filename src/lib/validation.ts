@@ -0,0 +1,373 @@
+import { isIP } from 'node:net';
+import { ResourceRecordSet } from '../types/index.js';
+
+// RFC 1035 limit for a single <character-string>
+const MAX_TXT_STRING = 255;
+
+const SVCB_KEYS = new Set(['mandatory', 'alpn', 'no-default-alpn', 'port', 'ipv4hint', 'ech', 'ipv6hint', 'dohpath', 'ohttp']);
+const DS_DIGEST_LENGTHS: Record<number, number> = { 1: 40, 2: 64, 4: 96 };
+const SSHFP_DIGEST_LENGTHS: Record<number, number> = { 1: 40, 2: 64 };
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export interface RecordValidation {
+  /** Normalized name and values; only meaningful when there are no errors */
+  name: string;
+  rrdatas: string[];
+  errors: FieldError[];
+  /** Human-readable notes about values that were normalized */
+  normalized: string[];
+}
+
+class RdataError extends Error {}
+
+function fail(message: string): never {
+  throw new RdataError(message);
+}
+
+function parseInteger(value: string | undefined, label: string, min: number, max: number): number {
+  if (value === undefined || !/^\d+$/.test(value)) {
+    fail(`${label} must be an integer between ${min} and ${max}`);
+  }
+  const number = Number(value);
+  if (number < min || number > max) {
+    fail(`${label} must be between ${min} and ${max}, got ${number}`);
+  }
+  return number;
+}
+
+function expectFields(fields: string[], count: number, format: string): void {
+  if (fields.length !== count) {
+    fail(`expected "${format}", got ${fields.length} field(s)`);
+  }
+}
+
+/**
+ * Validate a host name, lowercasing it and adding the trailing dot when missing
+ */
+function normalizeHostname(value: string | undefined, label: string, options: { allowRoot?: boolean; allowWildcard?: boolean } = {}): string {
+  if (!value) {
+    fail(`${label} is required`);
+  }
+  if (value === '.' && options.allowRoot) {
+    return value;
+  }
+
+  const fqdn = value.toLowerCase().endsWith('.') ? value.toLowerCase() : `${value.toLowerCase()}.`;
+  const labels = fqdn.slice(0, -1).split('.');
+
+  if (fqdn.length > 254) {
+    fail(`${label} '${value}' is longer than 253 characters`);
+  }
+  labels.forEach((part, index) => {
+    if (part === '*' && index === 0 && options.allowWildcard) {
+      return;
+    }
+    if (part.length === 0 || part.length > 63) {
+      fail(`${label} '${value}' has an empty or over-long label`);
+    }
+    if (!/^[a-z0-9_]([a-z0-9_-]*[a-z0-9_])?$/.test(part)) {
+      fail(`${label} '${value}' contains invalid characters in label '${part}'`);
+    }
+  });
+
+  return fqdn;
+}
+
+/**
+ * Validate a host name in rdata. A single label without a trailing dot (e.g.
+ * 'www') is relative to the zone, so it is qualified against the origin when
+ * one is known and rejected otherwise, rather than becoming a top-level name.
+ */
+function normalizeTarget(value: string | undefined, label: string, origin?: string, options: { allowRoot?: boolean } = {}): string {
+  if (value && !value.includes('.') && value !== '@') {
+    if (!origin) {
+      fail(`${label} '${value}' is a single relative label; use a fully qualified name ending in a dot`);
+    }
+    const zone = origin.endsWith('.') ? origin : `${origin}.`;
+    return normalizeHostname(zone === '.' ? `${value}.` : `${value}.${zone}`, label, options);
+  }
+  if (value === '@' && origin) {
+    return normalizeHostname(origin, label, options);
+  }
+  return normalizeHostname(value, label, options);
+}
+
+function normalizeHex(value: string | undefined, label: string, length?: number): string {
+  if (!value || !/^[0-9a-fA-F]+$/.test(value) || value.length % 2 !== 0) {
+    fail(`${label} must be an even number of hexadecimal digits`);
+  }
+  if (length !== undefined && value.length !== length) {
+    fail(`${label} must be ${length} hexadecimal digits, got ${value.length}`);
+  }
+  return value.toLowerCase();
+}
+
+/**
+ * Split TXT rdata into its <character-string>s, honouring quotes and escapes.
+ * Strings are returned as bytes since \DDD escapes may encode any octet.
+ */
+function parseCharacterStrings(value: string): Buffer[] {
+  const trimmed = value.trim();
+  if (!trimmed.startsWith('"')) {
+    return [Buffer.from(trimmed, 'utf8')];
+  }
+
+  const strings: Buffer[] = [];
+  let i = 0;
+  while (i < trimmed.length) {
+    if (trimmed[i] === ' ' || trimmed[i] === '\t') {
+      i++;
+      continue;
+    }
+    if (trimmed[i] !== '"') {
+      fail(`unexpected text outside quotes: ${trimmed.slice(i)}`);
+    }
+    let j = i + 1;
+    const content: Buffer[] = [];
+    while (j < trimmed.length && trimmed[j] !== '"') {
+      if (trimmed[j] === '\\' && j + 1 < trimmed.length) {
+        // RFC 1035 §5.1: \DDD is the octet with decimal value DDD, \X is X itself
+        const digits = /^\d{3}/.exec(trimmed.slice(j + 1));
+        if (digits) {
+          const octet = Number(digits[0]);
+          if (octet > 255) {
+            fail(`escape \\${digits[0]} is not an octet (000-255)`);
+          }
+          content.push(Buffer.from([octet]));
+          j += 4;
+          continue;
+        }
+        content.push(Buffer.from(String.fromCodePoint(trimmed.codePointAt(j + 1)!), 'utf8'));
+        j += trimmed.codePointAt(j + 1)! > 0xffff ? 3 : 2;
+        continue;
+      }
+      const char = String.fromCodePoint(trimmed.codePointAt(j)!);
+      content.push(Buffer.from(char, 'utf8'));
+      j += char.length;
+    }
+    if (j >= trimmed.length) {
+      fail('unterminated quoted string');
+    }
+    strings.push(Buffer.concat(content));
+    i = j + 1;
+  }
+  return strings;
+}
+
+function escapeOctet(octet: number): string {
+  return `\\${String(octet).padStart(3, '0')}`;
+}
+
+/**
+ * Quote a <character-string>. Valid UTF-8 is kept as text; control
+ * characters, and every non-ASCII byte of anything else, become \DDD escapes.
+ */
+function quoteCharacterString(bytes: Buffer): string {
+  const text = bytes.toString('utf8');
+  const chars = Buffer.from(text, 'utf8').equals(bytes)
+    ? [...text].map(char => (char.length === 1 && (char < ' ' || char === '\x7f') ? escapeOctet(char.charCodeAt(0)) : char))
+    : [...bytes].map(octet => (octet < 0x20 || octet > 0x7e ? escapeOctet(octet) : String.fromCharCode(octet)));
+  return `"${chars.map(char => (char === '"' || char === '\\' ? `\\${char}` : char)).join('')}"`;
+}
+
+/**
+ * Quote TXT data and split any string longer than 255 bytes
+ */
+function normalizeText(value: string): string {
+  const chunks: Buffer[] = [];
+  for (let remaining of parseCharacterStrings(value)) {
+    if (remaining.length === 0) {
+      chunks.push(remaining);
+    }
+    while (remaining.length > 0) {
+      let end = Math.min(MAX_TXT_STRING, remaining.length);
+      // Don't split inside a multi-byte UTF-8 sequence
+      while (end > MAX_TXT_STRING - 4 && end < remaining.length && (remaining[end] & 0xc0) === 0x80) {
+        end--;
+      }
+      chunks.push(remaining.subarray(0, end));
+      remaining = remaining.subarray(end);
+    }
+  }
+  return chunks.map(quoteCharacterString).join(' ');
+}
+
+function normalizeSvcb(fields: string[], type: string, origin?: string): string {
+  if (fields.length < 2) {
+    fail(`expected "priority target [key=value ...]"`);
+  }
+  const priority = parseInteger(fields[0], `${type} priority`, 0, 65535);
+  const target = normalizeTarget(fields[1], `${type} target`, origin, { allowRoot: true });
+  const params = fields.slice(2);
+
+  if (priority === 0 && params.length > 0) {
+    fail(`${type} alias mode (priority 0) must not have parameters`);
+  }
+  for (const param of params) {
+    const key = param.split('=')[0].toLowerCase();
+    if (!SVCB_KEYS.has(key) && !/^key\d+$/.test(key)) {
+      fail(`unknown ${type} parameter '${key}'`);
+    }
+  }
+
+  return [priority, target, ...params].join(' ');
+}
+
+/**
+ * Validate and normalize a single rdata value for a record type
+ */
+function normalizeRdata(type: string, value: string, origin?: string): string {
+  const fields = value.trim().split(/\s+/);
+
+  switch (type) {
+    case 'A':
+      if (isIP(value.trim()) !== 4) fail(`'${value}' is not a valid IPv4 address`);
+      return value.trim();
+    case 'AAAA':
+      if (isIP(value.trim()) !== 6) fail(`'${value}' is not a valid IPv6 address`);
+      return value.trim().toLowerCase();
+    case 'CNAME':
+    case 'NS':
+    case 'PTR':
+      expectFields(fields, 1, 'hostname');
+      return normalizeTarget(fields[0], `${type} target`, origin);
+    case 'MX':
+      expectFields(fields, 2, 'preference exchange');
+      return `${parseInteger(fields[0], 'MX preference', 0, 65535)} ${normalizeTarget(fields[1], 'MX exchange', origin, { allowRoot: true })}`;
+    case 'TXT':
+    case 'SPF':
+      return normalizeText(value);
+    case 'SRV':
+      expectFields(fields, 4, 'priority weight port target');
+      return [
+        parseInteger(fields[0], 'SRV priority', 0, 65535),
+        parseInteger(fields[1], 'SRV weight', 0, 65535),
+        parseInteger(fields[2], 'SRV port', 0, 65535),
+        normalizeTarget(fields[3], 'SRV target', origin, { allowRoot: true }),
+      ].join(' ');
+    case 'CAA': {
+      const match = value.trim().match(/^(\d+)\s+([A-Za-z0-9]+)\s+(.+)$/);
+      if (!match) fail('expected "flags tag value"');
+      const flags = parseInteger(match[1], 'CAA flags', 0, 255);
+      const tag = match[2].toLowerCase();
+      // RFC 8659 §4.1: any 1-15 letters and digits, so newer tags such as contactemail pass too
+      if (tag.length > 15) fail(`CAA tag '${match[2]}' is longer than 15 characters`);
+      const caaValue = match[3].startsWith('"') ? match[3] : quoteCharacterString(Buffer.from(match[3], 'utf8'));
+      return `${flags} ${tag} ${caaValue}`;
+    }
+    case 'TLSA':
+      expectFields(fields, 4, 'usage selector matching-type data');
+      return [
+        parseInteger(fields[0], 'TLSA usage', 0, 3),
+        parseInteger(fields[1], 'TLSA selector', 0, 1),
+        parseInteger(fields[2], 'TLSA matching type', 0, 2),
+        normalizeHex(fields[3], 'TLSA data'),
+      ].join(' ');
+    case 'SSHFP': {
+      expectFields(fields, 3, 'algorithm fingerprint-type fingerprint');
+      const algorithm = parseInteger(fields[0], 'SSHFP algorithm', 1, 6);
+      const fpType = parseInteger(fields[1], 'SSHFP fingerprint type', 1, 2);
+      return `${algorithm} ${fpType} ${normalizeHex(fields[2], 'SSHFP fingerprint', SSHFP_DIGEST_LENGTHS[fpType])}`;
+    }
+    case 'DS': {
+      expectFields(fields, 4, 'key-tag algorithm digest-type digest');
+      const keyTag = parseInteger(fields[0], 'DS key tag', 0, 65535);
+      const algorithm = parseInteger(fields[1], 'DS algorithm', 0, 255);
+      const digestType = parseInteger(fields[2], 'DS digest type', 1, 4);
+      if (!DS_DIGEST_LENGTHS[digestType]) fail(`DS digest type must be 1, 2 or 4, got ${digestType}`);
+      return `${keyTag} ${algorithm} ${digestType} ${normalizeHex(fields[3], 'DS digest', DS_DIGEST_LENGTHS[digestType])}`;
+    }
+    case 'HTTPS':
+    case 'SVCB':
+      return normalizeSvcb(fields, type, origin);
+    default:
+      // Types without a dedicated check are passed through untouched
+      return value;
+  }
+}
+
+/**
+ * Validate a record name, type and values before they are sent to Cloud DNS.
+ *
+ * Safe fixes (missing trailing dots, upper-case names, unquoted or over-long
+ * TXT strings) are applied and reported in `normalized`; anything else is an
+ * error on the offending field. Single-label host names in rdata are
+ * qualified against `origin`, and rejected when it is not given.
+ */
+export function validateRecord(name: string, type: string, rrdatas: string[], origin?: string): RecordValidation {
+  const errors: FieldError[] = [];
+  const normalized: string[] = [];
+  const upperType = type.toUpperCase();
+
+  let normalizedName = name;
+  try {
+    normalizedName = normalizeHostname(name, 'name', { allowWildcard: true });
+    if (normalizedName !== name) {
+      normalized.push(`name: '${name}' → '${normalizedName}'`);
+    }
+  } catch (error) {
+    if (!(error instanceof RdataError)) throw error;
+    errors.push({ field: 'name', message: error.message });
+  }
+
+  if (upperType === 'CNAME' && rrdatas.length > 1) {
+    errors.push({ field: 'rrdatas', message: `CNAME records must have exactly one value, got ${rrdatas.length}` });
+  }
+
+  const values = rrdatas.map((value, index) => {
+    try {
+      const result = normalizeRdata(upperType, value, origin);
+      if (result !== value) {
+        normalized.push(`rrdatas[${index}]: '${value}' → '${result}'`);
+      }
+      return result;
+    } catch (error) {
+      if (!(error instanceof RdataError)) throw error;
+      errors.push({ field: `rrdatas[${index}]`, message: error.message });
+      return value;
+    }
+  });
+
+  const duplicates = values.filter((value, index) => values.indexOf(value) !== index);
+  if (duplicates.length > 0) {
+    errors.push({ field: 'rrdatas', message: `duplicate values: ${[...new Set(duplicates)].join(', ')}` });
+  }
+
+  return { name: normalizedName, rrdatas: values, errors, normalized };
+}
+
+/**
+ * Validate a whole rrset, returning the normalized copy
+ */
+export function validateRecordSet(record: ResourceRecordSet, origin?: string): RecordValidation {
+  return validateRecord(record.name || '', record.type || '', record.rrdatas || [], origin);
+}
+
+/**
+ * Render field errors as "field: message" lines
+ */
+export function formatFieldErrors(errors: FieldError[]): string {
+  return errors.map(error => `${error.field}: ${error.message}`).join('; ');
+}
+
+/**
+ * Validate a batch of rrsets, e.g. from a zone file or spec.
+ * Returns normalized copies and one message per invalid rrset.
+ */
+export function validateRecordSets(records: ResourceRecordSet[], origin?: string): { records: ResourceRecordSet[]; errors: string[] } {
+  const errors: string[] = [];
+  const normalized = records.map(record => {
+    const result = validateRecordSet(record, origin);
+    if (result.errors.length > 0) {
+      errors.push(`${record.name} (${record.type}): ${formatFieldErrors(result.errors)}`);
+      return record;
+    }
+    return { ...record, name: result.name, rrdatas: result.rrdatas };
+  });
+
+  return { records: normalized, errors };
+}
@@ -0,0 +1,377 @@
+import { ResourceRecordSet } from '../types/index.js';
+import { normalizeName, qualifyName, relativeName } from './names.js';
+
+// Types whose rdata is one or more <character-string>s
+const TEXT_TYPES = new Set(['TXT', 'SPF']);
+
+// Records that conventionally open a zone file
+const TYPE_ORDER = ['SOA', 'NS'];
+
+const QUOTED_STRINGS = /^\s*"(?:[^"\\]|\\.)*"(?:\s+"(?:[^"\\]|\\.)*")*\s*$/;
+
+export interface RenderZoneFileOptions {
+  /** Comment lines written before $ORIGIN */
+  header?: string[];
+}
+
+/**
+ * Quote a TXT value as RFC 1035 <character-string>s, keeping values that are already quoted
+ */
+export function quoteText(value: string): string {
+  if (QUOTED_STRINGS.test(value)) {
+    return value.trim();
+  }
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function formatRdata(type: string, rdata: string): string {
+  return TEXT_TYPES.has(type) ? quoteText(rdata) : rdata;
+}
+
+/**
+ * Compare owner names in DNSSEC canonical order (right-most label first)
+ */
+function compareNames(a: string, b: string): number {
+  const left = normalizeName(a).split('.').reverse();
+  const right = normalizeName(b).split('.').reverse();
+
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    if (left[i] !== right[i]) {
+      return left[i] < right[i] ? -1 : 1;
+    }
+  }
+  return left.length - right.length;
+}
+
+function compareTypes(a: string, b: string): number {
+  const rank = (type: string) => {
+    const index = TYPE_ORDER.indexOf(type);
+    return index === -1 ? TYPE_ORDER.length : index;
+  };
+  return rank(a) - rank(b) || a.localeCompare(b);
+}
+
+/**
+ * Pick the TTL shared by most rrsets for the $TTL directive
+ */
+function defaultTTL(records: ResourceRecordSet[]): number {
+  const counts = new Map<number, number>();
+  for (const record of records) {
+    const ttl = record.ttl ?? 300;
+    counts.set(ttl, (counts.get(ttl) || 0) + 1);
+  }
+
+  let best = 300;
+  let bestCount = 0;
+  for (const [ttl, count] of counts) {
+    if (count > bestCount || (count === bestCount && ttl < best)) {
+      best = ttl;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Render rrsets as an RFC 1035 master file.
+ *
+ * Output is deterministic: the SOA and apex NS come first, then names in
+ * canonical order, types alphabetically and rdata sorted within each rrset,
+ * so two exports of the same zone diff cleanly.
+ */
+export function renderZoneFile(origin: string, records: ResourceRecordSet[], options: RenderZoneFileOptions = {}): string {
+  const zone = normalizeName(origin);
+  const ttl = defaultTTL(records);
+
+  const sorted = records
+    .filter(record => record.name && record.type)
+    .slice()
+    .sort((a, b) => {
+      const aApex = normalizeName(a.name!) === zone;
+      const bApex = normalizeName(b.name!) === zone;
+      if (aApex !== bApex) {
+        return aApex ? -1 : 1;
+      }
+      return compareNames(a.name!, b.name!) || compareTypes(a.type!, b.type!);
+    });
+
+  const rows = sorted.flatMap(record => {
+    const type = record.type!.toUpperCase();
+    const rdatas = [...(record.rrdatas || [])].sort();
+    return rdatas.map(rdata => ({
+      name: relativeName(record.name!, zone),
+      ttl: (record.ttl ?? ttl) === ttl ? '' : String(record.ttl),
+      type,
+      rdata: formatRdata(type, rdata),
+    }));
+  });
+
+  const nameWidth = Math.max(1, ...rows.map(row => row.name.length));
+  const ttlWidth = Math.max(0, ...rows.map(row => row.ttl.length));
+  const typeWidth = Math.max(0, ...rows.map(row => row.type.length));
+
+  const lines = [
+    ...(options.header || []).map(line => `; ${line}`),
+    `$ORIGIN ${zone}`,
+    `$TTL ${ttl}`,
+    '',
+    ...rows.map(row =>
+      [
+        row.name.padEnd(nameWidth),
+        ...(ttlWidth > 0 ? [row.ttl.padEnd(ttlWidth)] : []),
+        'IN',
+        row.type.padEnd(typeWidth),
+        row.rdata,
+      ].join(' ').replace(/ +$/, '')
+    ),
+  ];
+
+  return `${lines.join('\n')}\n`;
+}
+
+// Rdata field positions holding domain names that may be written relative to $ORIGIN
+const NAME_FIELDS: Record<string, number[]> = {
+  CNAME: [0],
+  DNAME: [0],
+  NS: [0],
+  PTR: [0],
+  MX: [1],
+  SRV: [3],
+  SOA: [0, 1],
+};
+
+const CLASSES = new Set(['IN', 'CH', 'HS', 'CS']);
+
+const TTL_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+
+export interface ParseZoneFileOptions {
+  /** Origin used until the file sets $ORIGIN */
+  origin?: string;
+  /** TTL used until the file sets $TTL */
+  defaultTTL?: number;
+}
+
+export class ZoneFileParseError extends Error {
+  constructor(message: string, public line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'ZoneFileParseError';
+  }
+}
+
+interface Token {
+  text: string;
+  quoted: boolean;
+}
+
+interface LogicalLine {
+  line: number;
+  indented: boolean;
+  tokens: Token[];
+}
+
+/**
+ * Split a master file into logical lines, joining parenthesised continuations
+ * and dropping comments
+ */
+function tokenize(text: string): LogicalLine[] {
+  const lines: LogicalLine[] = [];
+  let current: LogicalLine | undefined;
+  let depth = 0;
+  let lineNumber = 1;
+  let i = 0;
+
+  const startLine = () => {
+    if (!current) {
+      current = { line: lineNumber, indented: text[i] === ' ' || text[i] === '\t', tokens: [] };
+    }
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '\n') {
+      if (depth === 0 && current) {
+        if (current.tokens.length > 0) {
+          lines.push(current);
+        }
+        current = undefined;
+      }
+      lineNumber++;
+      i++;
+      continue;
+    }
+
+    startLine();
+
+    if (ch === ' ' || ch === '\t' || ch === '\r') {
+      i++;
+    } else if (ch === ';') {
+      while (i < text.length && text[i] !== '\n') i++;
+    } else if (ch === '(') {
+      depth++;
+      i++;
+    } else if (ch === ')') {
+      if (depth === 0) {
+        throw new ZoneFileParseError("unbalanced ')'", lineNumber);
+      }
+      depth--;
+      i++;
+    } else if (ch === '"') {
+      let j = i + 1;
+      while (j < text.length && text[j] !== '"') {
+        if (text[j] === '\\') j++;
+        if (text[j] === '\n') lineNumber++;
+        j++;
+      }
+      if (j >= text.length) {
+        throw new ZoneFileParseError('unterminated quoted string', lineNumber);
+      }
+      current!.tokens.push({ text: text.slice(i, j + 1), quoted: true });
+      i = j + 1;
+    } else {
+      let j = i;
+      while (j < text.length && !' \t\r\n;()"'.includes(text[j])) {
+        if (text[j] === '\\') j++;
+        j++;
+      }
+      current!.tokens.push({ text: text.slice(i, j), quoted: false });
+      i = j;
+    }
+  }
+
+  if (depth > 0) {
+    throw new ZoneFileParseError("unbalanced '('", lineNumber);
+  }
+  if (current && current.tokens.length > 0) {
+    lines.push(current);
+  }
+
+  return lines;
+}
+
+/**
+ * Parse a TTL such as 300, 1h or 1h30m into seconds
+ */
+export function parseTTL(value: string): number | undefined {
+  if (/^\d+$/.test(value)) {
+    return Number(value);
+  }
+
+  const parts = value.toLowerCase().match(/^(\d+[smhdw])+$/) ? value.toLowerCase().match(/\d+[smhdw]/g) : null;
+  if (!parts) {
+    return undefined;
+  }
+  return parts.reduce((total, part) => total + Number(part.slice(0, -1)) * TTL_UNITS[part.slice(-1)], 0);
+}
+
+/**
+ * Resolve a possibly relative name against the origin, failing if there is none yet
+ */
+function absoluteName(name: string, origin: string | undefined, line: number): string {
+  if (!name.endsWith('.') && !origin) {
+    throw new ZoneFileParseError(`relative name '${name}' used before $ORIGIN is set`, line);
+  }
+  return qualifyName(name, origin ?? '.');
+}
+
+/**
+ * Parse an RFC 1035 master file into rrsets.
+ *
+ * Supports $ORIGIN and $TTL, multi-line parentheses, comments, relative and
+ * '@' owner names, inherited owners and escaped TXT strings. $INCLUDE and
+ * $GENERATE are rejected. Records with the same owner and type are merged
+ * into one rrset.
+ */
+export function parseZoneFile(text: string, options: ParseZoneFileOptions = {}): ResourceRecordSet[] {
+  let origin = options.origin ? normalizeName(options.origin) : undefined;
+  let ttl = options.defaultTTL;
+  let lastOwner: string | undefined;
+  let lastTTL: number | undefined;
+
+  const rrsets = new Map<string, ResourceRecordSet>();
+
+  for (const { line, indented, tokens } of tokenize(text)) {
+    const first = tokens[0].text;
+
+    if (!indented && first.startsWith('$')) {
+      const directive = first.toUpperCase();
+      if (directive === '$ORIGIN') {
+        if (!tokens[1]) throw new ZoneFileParseError('$ORIGIN requires a domain name', line);
+        origin = absoluteName(tokens[1].text, origin, line);
+      } else if (directive === '$TTL') {
+        const value = tokens[1] && parseTTL(tokens[1].text);
+        if (value === undefined) throw new ZoneFileParseError('$TTL requires a numeric TTL', line);
+        ttl = value;
+      } else {
+        throw new ZoneFileParseError(`${directive} is not supported`, line);
+      }
+      continue;
+    }
+
+    let index = 0;
+    let owner: string;
+    if (indented) {
+      if (!lastOwner) throw new ZoneFileParseError('record has no owner name', line);
+      owner = lastOwner;
+    } else {
+      owner = absoluteName(tokens[index++].text, origin, line);
+    }
+
+    // TTL and class may appear in either order before the type
+    let recordTTL: number | undefined;
+    for (let k = 0; k < 2 && index < tokens.length; k++) {
+      const token = tokens[index].text;
+      if (recordTTL === undefined && parseTTL(token) !== undefined) {
+        recordTTL = parseTTL(token);
+        index++;
+      } else if (CLASSES.has(token.toUpperCase())) {
+        if (token.toUpperCase() !== 'IN') {
+          throw new ZoneFileParseError(`class ${token.toUpperCase()} is not supported`, line);
+        }
+        index++;
+      }
+    }
+
+    const typeToken = tokens[index++];
+    if (!typeToken || typeToken.quoted) {
+      throw new ZoneFileParseError('missing record type', line);
+    }
+    const type = typeToken.text.toUpperCase();
+    const fields = tokens.slice(index);
+    if (fields.length === 0) {
+      throw new ZoneFileParseError(`${type} record for ${owner} has no data`, line);
+    }
+
+    const effectiveTTL = recordTTL ?? ttl ?? lastTTL;
+    if (effectiveTTL === undefined) {
+      throw new ZoneFileParseError(`no TTL for ${owner} ${type} and no $TTL set`, line);
+    }
+
+    let rdata: string;
+    if (TEXT_TYPES.has(type)) {
+      rdata = fields.map(field => (field.quoted ? field.text : quoteText(field.text))).join(' ');
+    } else {
+      const nameFields = NAME_FIELDS[type] || [];
+      rdata = fields
+        .map((field, position) => (nameFields.includes(position) && !field.quoted ? absoluteName(field.text, origin, line) : field.text))
+        .join(' ');
+    }
+
+    const key = `${owner} ${type}`;
+    const rrset = rrsets.get(key);
+    if (rrset) {
+      if (!rrset.rrdatas!.includes(rdata)) {
+        rrset.rrdatas!.push(rdata);
+      }
+      // An rrset has a single TTL; the lowest one wins
+      rrset.ttl = Math.min(rrset.ttl!, effectiveTTL);
+    } else {
+      rrsets.set(key, { name: owner, type, ttl: effectiveTTL, rrdatas: [rdata] });
+    }
+
+    lastOwner = owner;
+    lastTTL = effectiveTTL;
+  }
+
+  return [...rrsets.values()];
+}
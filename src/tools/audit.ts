@@ -0,0 +1,162 @@
+import { Tool, ToolInput, ToolResult } from "../lib/mcp-core.js";
+import { AuditLog } from "../lib/audit.js";
+import { formatChangeDiff } from "../lib/changes.js";
+import { errorResult } from "../lib/errors.js";
+import { parseTimestamp } from "../lib/tool-helpers.js";
+import { AuditEntry } from "../types/index.js";
+
+interface AuditToolsContext {
+  audit?: AuditLog;
+}
+
+const STATUS_ICONS: Record<AuditEntry['status'], string> = {
+  succeeded: "✅",
+  failed: "❌",
+  dryRun: "🔍",
+};
+
+// Long arguments, such as imported zone files, are cut short in the listing
+const MAX_ARGUMENTS_LENGTH = 500;
+
+function formatAuditEntry(entry: AuditEntry): string {
+  const args = JSON.stringify(entry.arguments);
+  const lines = [
+    `${STATUS_ICONS[entry.status] ?? "•"} ${entry.timestamp} ${entry.tool} (${entry.status}, ${entry.durationMs}ms)`,
+    `   Project: ${entry.projectId}${entry.zoneName ? `, zone: ${entry.zoneName}` : ''}`,
+    `   Arguments: ${args.length > MAX_ARGUMENTS_LENGTH ? `${args.slice(0, MAX_ARGUMENTS_LENGTH)}…` : args}`,
+  ];
+
+  for (const change of entry.changes) {
+    lines.push(
+      `   Change ${change.changeId ?? '(no ID)'} in ${change.projectId}/${change.zoneName} (${change.status ?? 'unknown'}):`,
+      formatChangeDiff({ deletions: change.before, additions: change.after }).replace(/^/gm, '   ')
+    );
+  }
+  if (entry.error) {
+    lines.push(`   Error: ${entry.error.code}: ${entry.error.message}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Query the audit log of mutating tool calls
+ */
+export class AuditLogTool extends Tool {
+  name = "gcloud_dns_audit_log";
+  description = "Query the local audit log of mutating tool calls by zone, record name, tool or time range, showing each call's arguments, status, Cloud DNS change IDs and the record sets before and after";
+  annotations = { readOnlyHint: true };
+
+  constructor(private context: AuditToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: {
+          type: "string",
+          description: "Only include calls made against this project"
+        },
+        zoneName: {
+          type: "string",
+          description: "Only include calls made against this managed zone"
+        },
+        name: {
+          type: "string",
+          description: "Only include calls touching this record name or names below it; relative names such as 'www' are qualified against each entry's zone"
+        },
+        tool: {
+          type: "string",
+          description: "Only include calls to this tool (e.g., gcloud_dns_delete_record)"
+        },
+        since: {
+          type: "string",
+          description: "Only include calls made at or after this ISO 8601 time (e.g., 2024-05-01T12:00:00Z)"
+        },
+        until: {
+          type: "string",
+          description: "Only include calls made at or before this ISO 8601 time"
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of entries to return, newest first (default: 20)"
+        }
+      }
+    } as const;
+  }
+
+  async execute(input: ToolInput<{
+    projectId?: string;
+    zoneName?: string;
+    name?: string;
+    tool?: string;
+    since?: string;
+    until?: string;
+    limit?: number;
+  }>): Promise<ToolResult> {
+    try {
+      if (!this.context.audit) {
+        return {
+          content: [{ type: "text", text: "The audit log is not enabled. Set GOOGLE_CLOUD_DNS_AUDIT_LOG to a file path to record mutating tool calls." }],
+          isError: true
+        };
+      }
+
+      const limit = input.limit ?? 20;
+      if (!Number.isInteger(limit) || limit < 1) {
+        return {
+          content: [{ type: "text", text: "limit parameter must be a positive integer" }],
+          isError: true
+        };
+      }
+
+      const since = parseTimestamp(input.since, 'since');
+      if (typeof since === 'object') {
+        return since;
+      }
+      const until = parseTimestamp(input.until, 'until');
+      if (typeof until === 'object') {
+        return until;
+      }
+
+      const { entries, total, malformed } = await this.context.audit.query({
+        projectId: input.projectId,
+        zoneName: input.zoneName,
+        name: input.name,
+        tool: input.tool,
+        since: since === undefined ? undefined : new Date(since),
+        until: until === undefined ? undefined : new Date(until),
+        limit,
+      });
+
+      const warning = malformed > 0 ? `\n\n⚠️ Skipped ${malformed} unreadable lines in ${this.context.audit.path}.` : '';
+      if (entries.length === 0) {
+        return {
+          content: [{ type: "text", text: "No audit log entries found with the specified criteria." + warning }]
+        };
+      }
+
+      const content = `Found ${total} audit log entries${total > entries.length ? `, showing the newest ${entries.length}` : ''} (newest first):\n\n` +
+        entries.map(formatAuditEntry).join('\n\n') +
+        warning;
+
+      return {
+        content: [{ type: "text", text: content }]
+      };
+    } catch (error) {
+      return errorResult("Error reading the audit log", error);
+    }
+  }
+}
+
+/**
+ * Create and export the audit log tools
+ */
+export function createAuditTools(audit?: AuditLog): Tool[] {
+  const context = { audit };
+
+  return [
+    new AuditLogTool(context)
+  ];
+}
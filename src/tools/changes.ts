@@ -0,0 +1,655 @@
+import { Tool, ToolContext, ToolInput, ToolResult } from "../lib/mcp-core.js";
+import { GoogleCloudDNSClient } from "../lib/client.js";
+import { ChangeWaitTimeoutError, errorResult } from "../lib/errors.js";
+import { Guardrails } from "../lib/guardrails.js";
+import { PlannedOperation, formatChangeDiff, formatPendingNote, planChange, planRevert, previewChange, settleChange } from "../lib/changes.js";
+import { isInZone, normalizeName, resolveRecordName } from "../lib/names.js";
+import { resolveRoutingPolicy, summarizeRoutingPolicy } from "../lib/routing.js";
+import { CONFIRM_SCHEMA, PROJECT_ID_SCHEMA, ROUTING_POLICY_SCHEMA } from "../lib/schemas.js";
+import { formatNextPage, parseTimestamp, validatePagination } from "../lib/tool-helpers.js";
+import { Change, RecordOperation, ResourceRecordSet } from "../types/index.js";
+
+interface ChangesToolsContext {
+  client: GoogleCloudDNSClient;
+  guardrails: Guardrails;
+}
+
+function formatRecord(record?: ResourceRecordSet): string {
+  if (!record) {
+    return 'none';
+  }
+  return `TTL ${record.ttl} → ${record.routingPolicy ? summarizeRoutingPolicy(record.routingPolicy) : record.rrdatas?.join(', ') || 'No data'}`;
+}
+
+function formatOperation(planned: PlannedOperation, index: number, status: string): string {
+  const { operation } = planned;
+  return `${index + 1}. ${operation.action.toUpperCase()} ${operation.name} (${operation.type}): ${status}\n` +
+    (planned.before ? `   - Before: ${formatRecord(planned.before)}\n` : '') +
+    (planned.after ? `   - After: ${formatRecord(planned.after)}\n` : '') +
+    (planned.normalized ? `   - Normalized: ${planned.normalized.join('; ')}\n` : '') +
+    (planned.error ? `   - Error: ${planned.error}\n` : '');
+}
+
+/**
+ * Apply several record operations as one atomic change
+ */
+export class ApplyChangesTool extends Tool {
+  name = "gcloud_dns_apply_changes";
+  description = "Apply multiple DNS record creates, updates and deletes in a managed zone as a single atomic change";
+  annotations = { readOnlyHint: false, destructiveHint: true, idempotentHint: false };
+
+  constructor(private context: ChangesToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        zoneName: {
+          type: "string",
+          description: "Name of the managed zone"
+        },
+        operations: {
+          type: "array",
+          description: "Record operations to apply together; either all succeed or none do",
+          items: {
+            type: "object",
+            properties: {
+              action: {
+                type: "string",
+                enum: ["create", "update", "delete"],
+                description: "Operation to perform"
+              },
+              name: {
+                type: "string",
+                description: "Record name: '@', relative to the zone (www) or absolute (www.example.com.)"
+              },
+              type: {
+                type: "string",
+                description: "Record type (e.g., A, AAAA, CNAME, MX, TXT)"
+              },
+              ttl: {
+                type: "number",
+                description: "Time to live in seconds (create defaults to 300, update keeps the current TTL)"
+              },
+              rrdatas: {
+                type: "array",
+                items: { type: "string" },
+                description: "Record data values (required for create and update unless routingPolicy is set)"
+              },
+              routingPolicy: ROUTING_POLICY_SCHEMA
+            },
+            required: ["action", "name", "type"]
+          }
+        },
+        dryRun: {
+          type: "boolean",
+          description: "Preview the change (body, diff against current records and conflicts) without submitting it",
+          default: false
+        },
+        confirm: CONFIRM_SCHEMA,
+        wait: {
+          type: "boolean",
+          description: "Wait for the change to finish propagating before returning. With false, return the change ID immediately and track it with gcloud_dns_wait_for_change",
+          default: true
+        }
+      },
+      required: ["zoneName", "operations"]
+    } as const;
+  }
+
+  async execute(input: ToolInput<{
+    zoneName: string;
+    operations: RecordOperation[];
+    dryRun?: boolean;
+    wait?: boolean;
+    confirm?: string;
+    projectId?: string;
+  }>, context?: ToolContext): Promise<ToolResult> {
+    try {
+      const client = this.context.client.forProject(input.projectId);
+
+      if (!input.zoneName || typeof input.zoneName !== 'string') {
+        return {
+          content: [{ type: "text", text: "zoneName parameter must be a string" }],
+          isError: true
+        };
+      }
+
+      this.context.guardrails.checkZone(client, input.zoneName);
+
+      if (!Array.isArray(input.operations) || input.operations.length === 0) {
+        return {
+          content: [{ type: "text", text: "operations parameter must be a non-empty array" }],
+          isError: true
+        };
+      }
+
+      const operations = input.operations.map(operation =>
+        operation?.routingPolicy ? { ...operation, routingPolicy: resolveRoutingPolicy(operation.routingPolicy, client) } : operation
+      );
+      const plan = await planChange(client, input.zoneName, operations);
+
+      if (plan.valid) {
+        await this.context.guardrails.checkChange(client, input.zoneName, plan.change, { dryRun: input.dryRun, confirm: input.confirm });
+      }
+
+      if (input.dryRun) {
+        return {
+          content: [{ type: "text", text: await previewChange(client, input.zoneName, plan) }]
+        };
+      }
+
+      if (!plan.valid) {
+        const content = `❌ No changes were applied: ${plan.operations.filter(p => p.error).length} of ${plan.operations.length} operations failed validation.\n\n` +
+          plan.operations.map((p, i) => formatOperation(p, i, p.error ? 'rejected' : 'ok (not applied)')).join('');
+
+        return {
+          content: [{ type: "text", text: content }],
+          isError: true
+        };
+      }
+
+      const change = await client.applyChange(input.zoneName, plan.change);
+
+      // Wait for the change to complete unless the caller opted out
+      const completedChange = await settleChange(client, input.zoneName, change, input.wait, context);
+
+      const content = `✅ Successfully applied ${plan.operations.length} operations atomically:\n\n` +
+        plan.operations.map((p, i) => formatOperation(p, i, 'applied')).join('') +
+        `\nChange ID: ${change.id}\n` +
+        `Additions: ${plan.change.additions?.length || 0}\n` +
+        `Deletions: ${plan.change.deletions?.length || 0}\n` +
+        `Status: ${completedChange.status}\n` +
+        `Started: ${completedChange.startTime ? new Date(completedChange.startTime).toLocaleString() : 'Unknown'}` +
+        formatPendingNote(completedChange);
+
+      return {
+        content: [{ type: "text", text: content }]
+      };
+    } catch (error) {
+      return errorResult("Error applying DNS changes", error);
+    }
+  }
+}
+
+/**
+ * Render a change's metadata followed by its record diff
+ */
+function formatChange(change: Change): string {
+  return `• Change ${change.id} (${change.status || 'unknown'}${change.isServing ? ', serving' : ''})\n` +
+    `  Started: ${change.startTime || 'Unknown'}\n` +
+    `  Deletions: ${change.deletions?.length || 0}, Additions: ${change.additions?.length || 0}\n` +
+    formatChangeDiff(change).split('\n').map(line => `  ${line}`).join('\n');
+}
+
+/**
+ * Whether a change adds or removes an rrset with the given name and/or type
+ */
+function touchesRecord(change: Change, name?: string, type?: string): boolean {
+  return [...(change.additions || []), ...(change.deletions || [])].some(record =>
+    (!name || normalizeName(record.name || '') === name) && (!type || record.type === type)
+  );
+}
+
+/**
+ * List the change history of a zone
+ */
+export class ListChangesTool extends Tool {
+  name = "gcloud_dns_list_changes";
+  description = "List the change history of a managed zone, showing what each change added and removed";
+  annotations = { readOnlyHint: true };
+
+  constructor(private context: ChangesToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        zoneName: {
+          type: "string",
+          description: "Name of the managed zone"
+        },
+        sortOrder: {
+          type: "string",
+          enum: ["descending", "ascending"],
+          description: "Order by change sequence: newest first (descending) or oldest first (ascending)",
+          default: "descending"
+        },
+        since: {
+          type: "string",
+          description: "Only include changes started at or after this ISO 8601 time (e.g., 2024-05-01T12:00:00Z)"
+        },
+        until: {
+          type: "string",
+          description: "Only include changes started at or before this ISO 8601 time"
+        },
+        name: {
+          type: "string",
+          description: "Only include changes touching this record name ('@', relative or absolute)"
+        },
+        type: {
+          type: "string",
+          description: "Only include changes touching this record type (e.g., A, CNAME)"
+        },
+        maxResults: {
+          type: "number",
+          description: "Maximum number of changes to fetch in one page. When maxResults or pageToken is set, only a single page is returned and filters apply within that page; otherwise all matching changes are listed."
+        },
+        pageToken: {
+          type: "string",
+          description: "Page token returned by a previous call to continue listing"
+        }
+      },
+      required: ["zoneName"]
+    } as const;
+  }
+
+  async execute(input: ToolInput<{
+    zoneName: string;
+    sortOrder?: 'ascending' | 'descending';
+    since?: string;
+    until?: string;
+    name?: string;
+    type?: string;
+    maxResults?: number;
+    pageToken?: string;
+    projectId?: string;
+  }>): Promise<ToolResult> {
+    try {
+      const client = this.context.client.forProject(input.projectId);
+
+      if (!input.zoneName || typeof input.zoneName !== 'string') {
+        return {
+          content: [{ type: "text", text: "zoneName parameter must be a string" }],
+          isError: true
+        };
+      }
+
+      const paginationError = validatePagination(input);
+      if (paginationError) {
+        return paginationError;
+      }
+
+      const sortOrder = input.sortOrder ?? 'descending';
+      if (sortOrder !== 'ascending' && sortOrder !== 'descending') {
+        return {
+          content: [{ type: "text", text: "sortOrder parameter must be 'ascending' or 'descending'" }],
+          isError: true
+        };
+      }
+
+      const since = parseTimestamp(input.since, 'since');
+      if (typeof since === 'object') {
+        return since;
+      }
+      const until = parseTimestamp(input.until, 'until');
+      if (typeof until === 'object') {
+        return until;
+      }
+
+      let name: string | undefined;
+      if (input.name) {
+        const zone = await client.getManagedZone(input.zoneName);
+        name = resolveRecordName(input.name, zone.dnsName!);
+        if (!isInZone(name, zone.dnsName!)) {
+          return {
+            content: [{ type: "text", text: `${input.name} is outside zone '${input.zoneName}' (${zone.dnsName})` }],
+            isError: true
+          };
+        }
+      }
+      const type = input.type?.toUpperCase();
+
+      const inWindow = (change: Change) => {
+        const started = change.startTime ? Date.parse(change.startTime) : NaN;
+        return (since === undefined || started >= since) && (until === undefined || started <= until);
+      };
+      const matches = (change: Change) => inWindow(change) && ((!name && !type) || touchesRecord(change, name, type));
+
+      const options = { sortBy: 'changeSequence' as const, sortOrder };
+      const paged = input.maxResults !== undefined || input.pageToken !== undefined;
+      let changes: Change[] = [];
+      let nextPageToken: string | undefined;
+
+      if (paged) {
+        const page = await client.listChangesPage(input.zoneName, {
+          ...options,
+          maxResults: input.maxResults,
+          pageToken: input.pageToken
+        });
+        changes = page.items.filter(matches);
+        nextPageToken = page.nextPageToken;
+      } else {
+        for await (const change of client.iterateChanges(input.zoneName, options)) {
+          // Changes are ordered by sequence, so stop once we are past the window
+          const started = change.startTime ? Date.parse(change.startTime) : NaN;
+          if ((sortOrder === 'descending' && since !== undefined && started < since) ||
+              (sortOrder === 'ascending' && until !== undefined && started > until)) {
+            break;
+          }
+          if (matches(change)) {
+            changes.push(change);
+          }
+        }
+      }
+
+      if (changes.length === 0) {
+        return {
+          content: [{ type: "text", text: "No changes found with the specified criteria." + formatNextPage(nextPageToken) }]
+        };
+      }
+
+      const content = `Found ${changes.length} changes in zone '${input.zoneName}'${paged ? ' in this page' : ''} (${sortOrder === 'descending' ? 'newest' : 'oldest'} first):\n\n` +
+        changes.map(formatChange).join('\n\n') +
+        formatNextPage(nextPageToken);
+
+      return {
+        content: [{ type: "text", text: content }]
+      };
+    } catch (error) {
+      return errorResult("Error listing changes", error);
+    }
+  }
+}
+
+/**
+ * Show a single change and its record diff
+ */
+export class GetChangeTool extends Tool {
+  name = "gcloud_dns_get_change";
+  description = "Get the status of a change in a managed zone and the records it added and removed";
+  annotations = { readOnlyHint: true };
+
+  constructor(private context: ChangesToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        zoneName: {
+          type: "string",
+          description: "Name of the managed zone"
+        },
+        changeId: {
+          type: "string",
+          description: "ID of the change (as returned by the record tools or gcloud_dns_list_changes)"
+        }
+      },
+      required: ["zoneName", "changeId"]
+    } as const;
+  }
+
+  async execute(input: ToolInput<{ zoneName: string; changeId: string; projectId?: string }>): Promise<ToolResult> {
+    try {
+      const client = this.context.client.forProject(input.projectId);
+
+      if (!input.zoneName || typeof input.zoneName !== 'string') {
+        return {
+          content: [{ type: "text", text: "zoneName parameter must be a string" }],
+          isError: true
+        };
+      }
+
+      if (!input.changeId || typeof input.changeId !== 'string') {
+        return {
+          content: [{ type: "text", text: "changeId parameter must be a string" }],
+          isError: true
+        };
+      }
+
+      const change = await client.getChange(input.zoneName, input.changeId);
+
+      const content = `Change ${change.id} in zone '${input.zoneName}':\n\n` +
+        `Status: ${change.status || 'unknown'}\n` +
+        `Serving: ${change.isServing ? 'yes' : 'no'}\n` +
+        `Started: ${change.startTime || 'Unknown'}\n` +
+        `Deletions: ${change.deletions?.length || 0}\n` +
+        `Additions: ${change.additions?.length || 0}\n\n` +
+        `Diff:\n${formatChangeDiff(change)}`;
+
+      return {
+        content: [{ type: "text", text: content }]
+      };
+    } catch (error) {
+      return errorResult("Error getting change", error);
+    }
+  }
+}
+
+/**
+ * Wait for a pending change, e.g. one submitted with wait: false
+ */
+export class WaitForChangeTool extends Tool {
+  name = "gcloud_dns_wait_for_change";
+  description = "Wait for a pending change in a managed zone to finish propagating, reporting progress while polling";
+  annotations = { readOnlyHint: true };
+
+  constructor(private context: ChangesToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        zoneName: {
+          type: "string",
+          description: "Name of the managed zone"
+        },
+        changeId: {
+          type: "string",
+          description: "ID of the change returned by a mutating tool"
+        },
+        timeoutSeconds: {
+          type: "number",
+          description: "How long to wait before returning the current status (defaults to the server's configured wait timeout)"
+        }
+      },
+      required: ["zoneName", "changeId"]
+    } as const;
+  }
+
+  async execute(input: ToolInput<{ zoneName: string; changeId: string; timeoutSeconds?: number; projectId?: string }>, context?: ToolContext): Promise<ToolResult> {
+    try {
+      const client = this.context.client.forProject(input.projectId);
+
+      if (!input.zoneName || typeof input.zoneName !== 'string') {
+        return {
+          content: [{ type: "text", text: "zoneName parameter must be a string" }],
+          isError: true
+        };
+      }
+
+      if (!input.changeId || typeof input.changeId !== 'string') {
+        return {
+          content: [{ type: "text", text: "changeId parameter must be a string" }],
+          isError: true
+        };
+      }
+
+      if (input.timeoutSeconds !== undefined && (typeof input.timeoutSeconds !== 'number' || input.timeoutSeconds <= 0)) {
+        return {
+          content: [{ type: "text", text: "timeoutSeconds parameter must be a positive number" }],
+          isError: true
+        };
+      }
+
+      let change: Change;
+      try {
+        change = await settleChange(
+          client,
+          input.zoneName,
+          await client.getChange(input.zoneName, input.changeId),
+          true,
+          context,
+          input.timeoutSeconds !== undefined ? { timeout: input.timeoutSeconds * 1000 } : {}
+        );
+      } catch (waitError) {
+        if (!(waitError instanceof ChangeWaitTimeoutError)) throw waitError;
+        change = waitError.change;
+      }
+
+      const content = `Change ${change.id} in zone '${input.zoneName}' is ${change.status || 'pending'}.\n\n` +
+        `Started: ${change.startTime || 'Unknown'}\n\n` +
+        `Diff:\n${formatChangeDiff(change)}` +
+        formatPendingNote(change);
+
+      return {
+        content: [{ type: "text", text: content }]
+      };
+    } catch (error) {
+      return errorResult("Error waiting for change", error);
+    }
+  }
+}
+
+/**
+ * Undo a completed change by applying its inverse
+ */
+export class RevertChangeTool extends Tool {
+  name = "gcloud_dns_revert_change";
+  description = "Revert a completed change by re-adding the records it deleted and removing the records it added, refusing if those records have changed since";
+  annotations = { readOnlyHint: false, destructiveHint: true, idempotentHint: false };
+
+  constructor(private context: ChangesToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        zoneName: {
+          type: "string",
+          description: "Name of the managed zone"
+        },
+        changeId: {
+          type: "string",
+          description: "ID of the change to revert (see gcloud_dns_list_changes)"
+        },
+        dryRun: {
+          type: "boolean",
+          description: "Preview the inverse change and any drift without submitting it",
+          default: false
+        },
+        confirm: CONFIRM_SCHEMA,
+        wait: {
+          type: "boolean",
+          description: "Wait for the change to finish propagating before returning. With false, return the change ID immediately and track it with gcloud_dns_wait_for_change",
+          default: true
+        }
+      },
+      required: ["zoneName", "changeId"]
+    } as const;
+  }
+
+  async execute(input: ToolInput<{ zoneName: string; changeId: string; dryRun?: boolean; wait?: boolean; confirm?: string; projectId?: string }>, context?: ToolContext): Promise<ToolResult> {
+    try {
+      const client = this.context.client.forProject(input.projectId);
+
+      if (!input.zoneName || typeof input.zoneName !== 'string') {
+        return {
+          content: [{ type: "text", text: "zoneName parameter must be a string" }],
+          isError: true
+        };
+      }
+
+      this.context.guardrails.checkZone(client, input.zoneName);
+
+      if (!input.changeId || typeof input.changeId !== 'string') {
+        return {
+          content: [{ type: "text", text: "changeId parameter must be a string" }],
+          isError: true
+        };
+      }
+
+      const change = await client.getChange(input.zoneName, input.changeId);
+      if (change.status !== 'done') {
+        return {
+          content: [{ type: "text", text: `Change ${input.changeId} is still ${change.status || 'pending'}; wait for it to complete before reverting it` }],
+          isError: true
+        };
+      }
+
+      // Fetch the live rrsets for every name and type the change touched
+      const touched = new Map(
+        [...(change.additions || []), ...(change.deletions || [])].map(r => [`${r.name} ${r.type}`, r])
+      );
+      const current = (await Promise.all(
+        [...touched.values()].map(r => client.listRecords(input.zoneName, r.type, r.name))
+      )).flat();
+
+      const { plan, drift } = planRevert(change, current);
+      const driftReport = drift.length > 0
+        ? `⚠️ Records changed after change ${input.changeId}; nothing will be reverted:\n${drift.map(d => `  - ${d}`).join('\n')}\n\n`
+        : '';
+
+      // Drift is reported before the guardrails, so a revert that cannot run never asks for confirmation
+      if (drift.length > 0 && !input.dryRun) {
+        return {
+          content: [{ type: "text", text: driftReport + 'Review the current records and revert them manually if needed.' }],
+          isError: true
+        };
+      }
+
+      await this.context.guardrails.checkChange(client, input.zoneName, plan.change, { dryRun: input.dryRun, confirm: input.confirm });
+
+      if (input.dryRun) {
+        return {
+          content: [{ type: "text", text: driftReport + await previewChange(client, input.zoneName, plan) }]
+        };
+      }
+
+      if (plan.operations.length === 0) {
+        return {
+          content: [{ type: "text", text: `Change ${input.changeId} has no record changes to revert.` }]
+        };
+      }
+
+      // A 412 here means the records drifted after the check above; it is reported, never overwritten
+      const revert = await client.applyChange(input.zoneName, plan.change);
+
+      // Wait for the change to complete unless the caller opted out
+      const completedChange = await settleChange(client, input.zoneName, revert, input.wait, context);
+
+      const content = `✅ Reverted change ${input.changeId} in zone '${input.zoneName}':\n\n` +
+        `${formatChangeDiff(plan.change)}\n\n` +
+        `Change ID: ${revert.id}\n` +
+        `Status: ${completedChange.status}\n` +
+        `Started: ${completedChange.startTime ? new Date(completedChange.startTime).toLocaleString() : 'Unknown'}` +
+        formatPendingNote(completedChange);
+
+      return {
+        content: [{ type: "text", text: content }]
+      };
+    } catch (error) {
+      return errorResult("Error reverting change", error);
+    }
+  }
+}
+
+/**
+ * Create and export all change set tools for Google Cloud DNS
+ */
+export function createChangeTools(client: GoogleCloudDNSClient, guardrails: Guardrails = new Guardrails()): Tool[] {
+  const context = { client, guardrails };
+
+  return [
+    new ApplyChangesTool(context),
+    new ListChangesTool(context),
+    new GetChangeTool(context),
+    new WaitForChangeTool(context),
+    new RevertChangeTool(context)
+  ];
+}
@@ -0,0 +1,543 @@
+import { Tool, ToolInput, ToolResult } from "../lib/mcp-core.js";
+import { GoogleCloudDNSClient } from "../lib/client.js";
+import { errorResult } from "../lib/errors.js";
+import { Guardrails } from "../lib/guardrails.js";
+import { DIGEST_TYPES, DigestType, dsRecordsForKey, formatDSRecord } from "../lib/dnssec.js";
+import { CONFIRM_SCHEMA, PROJECT_ID_SCHEMA } from "../lib/schemas.js";
+import { isToolResult } from "../lib/tool-helpers.js";
+import { DnsKey, DnsKeySpec, DnssecAlgorithm, ManagedZone } from "../types/index.js";
+
+interface DnssecToolsContext {
+  client: GoogleCloudDNSClient;
+  guardrails: Guardrails;
+}
+
+// Algorithms offered for new keys; RSASHA1 is deprecated and cannot be used with NSEC3
+const ALGORITHMS: DnssecAlgorithm[] = ['rsasha256', 'rsasha512', 'ecdsap256sha256', 'ecdsap384sha384'];
+
+const ECDSA_KEY_LENGTHS: Partial<Record<DnssecAlgorithm, number>> = {
+  ecdsap256sha256: 256,
+  ecdsap384sha384: 384,
+};
+
+// Cloud DNS defaults for RSA keys
+const DEFAULT_KSK_LENGTH = 2048;
+const DEFAULT_ZSK_LENGTH = 1024;
+
+const ENABLE_STEPS = [
+  'Wait for the keys to be generated: gcloud_dns_list_dns_keys shows an active key-signing key once they are ready.',
+  'Get the DS record with gcloud_dns_get_ds_records and add it at your registrar (or in the parent zone).',
+  'Check the chain of trust with `dig +dnssec` or https://dnsviz.net once the registrar has published the DS record.',
+];
+
+const TRANSFER_STEPS = [
+  'Add the previous provider\'s zone-signing DNSKEY to this zone\'s apex, and this zone\'s zone-signing DNSKEY (gcloud_dns_list_dns_keys) to the previous provider\'s zone, so resolvers accept signatures from either side.',
+  'Add this zone\'s DS record (gcloud_dns_get_ds_records) at the registrar next to the existing one. Do not remove the old DS yet.',
+  'Wait for the DS and DNSKEY TTLs to expire, then switch the registrar\'s name servers to this zone\'s name servers.',
+  'Wait for the NS TTL (up to 48 hours at the parent) to expire, then remove the old DS record at the registrar and the old DNSKEY from this zone.',
+  'Finish the transfer with gcloud_dns_enable_dnssec (transfer: false) to move the zone from \'transfer\' to \'on\'.',
+];
+
+const DISABLE_STEPS = [
+  'Remove every DS record for the zone at your registrar (or in the parent zone).',
+  'Wait until the parent\'s DS TTL has expired everywhere (often 1-2 days) so no resolver still expects signatures.',
+  'Disable DNSSEC with gcloud_dns_disable_dnssec and dsRemoved: true.',
+];
+
+function numbered(steps: string[]): string {
+  return steps.map((step, index) => `${index + 1}. ${step}`).join('\n');
+}
+
+function formatKey(key: DnsKey): string {
+  return `• ${key.type === 'keySigning' ? 'KSK' : 'ZSK'} ${key.keyTag ?? '?'} (${key.algorithm}, ${key.keyLength} bits)\n` +
+    `  - Active: ${key.isActive ? 'Yes' : 'No'}\n` +
+    `  - Created: ${key.creationTime ? new Date(key.creationTime).toLocaleString() : 'Unknown'}\n` +
+    (key.description ? `  - Description: ${key.description}\n` : '') +
+    `  - ID: ${key.id}`;
+}
+
+/**
+ * Validate key options and build the key specs for a zone that is being signed
+ */
+function buildKeySpecs(input: {
+  algorithm?: unknown;
+  kskLength?: unknown;
+  zskLength?: unknown;
+}): DnsKeySpec[] | ToolResult {
+  const algorithm = (input.algorithm ?? 'rsasha256') as DnssecAlgorithm;
+  if (!ALGORITHMS.includes(algorithm)) {
+    return {
+      content: [{ type: "text", text: `algorithm must be one of: ${ALGORITHMS.join(', ')}` }],
+      isError: true
+    };
+  }
+
+  const lengths: Array<['kskLength' | 'zskLength', number]> = [['kskLength', DEFAULT_KSK_LENGTH], ['zskLength', DEFAULT_ZSK_LENGTH]];
+  const specs: DnsKeySpec[] = [];
+  for (const [parameter, defaultLength] of lengths) {
+    const value = input[parameter];
+    const fixed = ECDSA_KEY_LENGTHS[algorithm];
+    if (fixed !== undefined && value !== undefined && value !== fixed) {
+      return {
+        content: [{ type: "text", text: `${parameter} must be ${fixed} for ${algorithm}` }],
+        isError: true
+      };
+    }
+    if (fixed === undefined && value !== undefined &&
+        (typeof value !== 'number' || !Number.isInteger(value) || value < 1024 || value > 4096)) {
+      return {
+        content: [{ type: "text", text: `${parameter} must be an integer between 1024 and 4096 for ${algorithm}` }],
+        isError: true
+      };
+    }
+
+    specs.push({
+      keyType: parameter === 'kskLength' ? 'keySigning' : 'zoneSigning',
+      algorithm,
+      keyLength: fixed ?? (value as number | undefined) ?? defaultLength,
+    });
+  }
+  return specs;
+}
+
+function publicZoneError(zone: ManagedZone): ToolResult | undefined {
+  if (zone.visibility === 'private') {
+    return {
+      content: [{ type: "text", text: `DNSSEC is only supported on public zones; '${zone.name}' is private` }],
+      isError: true
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Turn DNSSEC on for a public zone, or put it in transfer mode
+ */
+export class EnableDnssecTool extends Tool {
+  name = "gcloud_dns_enable_dnssec";
+  description = "Enable DNSSEC signing on a public managed zone, choosing the key algorithm and sizes, or start or finish a DNSSEC transfer from another provider";
+  annotations = { readOnlyHint: false, destructiveHint: false, idempotentHint: true };
+
+  constructor(private context: DnssecToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        zoneName: {
+          type: "string",
+          description: "Name of the managed zone"
+        },
+        algorithm: {
+          type: "string",
+          enum: ALGORITHMS,
+          description: "Signing algorithm for the key-signing and zone-signing keys (default rsasha256). Can only be chosen when DNSSEC is turned on from off.",
+          default: "rsasha256"
+        },
+        kskLength: {
+          type: "number",
+          description: "Key-signing key length in bits for RSA algorithms (1024-4096, default 2048)"
+        },
+        zskLength: {
+          type: "number",
+          description: "Zone-signing key length in bits for RSA algorithms (1024-4096, default 1024)"
+        },
+        nonExistence: {
+          type: "string",
+          enum: ["nsec3", "nsec"],
+          description: "Authenticated denial of existence: nsec3 (default) prevents zone walking",
+          default: "nsec3"
+        },
+        transfer: {
+          type: "boolean",
+          description: "Use the 'transfer' state while migrating a signed zone from another DNS provider. Set false on a zone in transfer to finish the migration.",
+          default: false
+        },
+        dryRun: {
+          type: "boolean",
+          description: "Preview the zone update without submitting it",
+          default: false
+        }
+      },
+      required: ["zoneName"]
+    } as const;
+  }
+
+  async execute(input: ToolInput<{
+    zoneName: string;
+    algorithm?: DnssecAlgorithm;
+    kskLength?: number;
+    zskLength?: number;
+    nonExistence?: 'nsec' | 'nsec3';
+    transfer?: boolean;
+    dryRun?: boolean;
+    projectId?: string;
+  }>): Promise<ToolResult> {
+    try {
+      const client = this.context.client.forProject(input.projectId);
+
+      if (!input.zoneName || typeof input.zoneName !== 'string') {
+        return {
+          content: [{ type: "text", text: "zoneName parameter is required and must be a string" }],
+          isError: true
+        };
+      }
+
+      this.context.guardrails.checkZone(client, input.zoneName);
+
+      if (input.nonExistence !== undefined && !['nsec', 'nsec3'].includes(input.nonExistence)) {
+        return {
+          content: [{ type: "text", text: "nonExistence must be one of: nsec, nsec3" }],
+          isError: true
+        };
+      }
+
+      const zone = await client.getManagedZone(input.zoneName);
+      const zoneError = publicZoneError(zone);
+      if (zoneError) {
+        return zoneError;
+      }
+
+      const currentState = zone.dnssecConfig?.state || 'off';
+      const state = input.transfer ? 'transfer' : 'on';
+      const keyOptions = input.algorithm !== undefined || input.kskLength !== undefined || input.zskLength !== undefined;
+
+      if (currentState === state) {
+        return {
+          content: [{
+            type: "text",
+            text: `DNSSEC is already '${state}' for zone '${input.zoneName}'. ` +
+              `Use gcloud_dns_get_ds_records to get the DS records for the registrar.`
+          }]
+        };
+      }
+
+      if (currentState !== 'off' && (keyOptions || input.nonExistence !== undefined)) {
+        return {
+          content: [{
+            type: "text",
+            text: `Key algorithm, key lengths and nonExistence can only be chosen when DNSSEC is turned on from 'off'; ` +
+              `zone '${input.zoneName}' is '${currentState}'. To change them, disable DNSSEC first (see gcloud_dns_disable_dnssec).`
+          }],
+          isError: true
+        };
+      }
+
+      let patch: ManagedZone = { dnssecConfig: { state } };
+      if (currentState === 'off') {
+        const specs = buildKeySpecs(input);
+        if (isToolResult(specs)) {
+          return specs;
+        }
+        patch = { dnssecConfig: { state, nonExistence: input.nonExistence ?? 'nsec3', defaultKeySpecs: specs } };
+      }
+
+      const steps = numbered(state === 'transfer' ? TRANSFER_STEPS : currentState === 'transfer' ? ENABLE_STEPS.slice(2) : ENABLE_STEPS);
+
+      if (input.dryRun) {
+        return {
+          content: [{
+            type: "text",
+            text: `🔍 Dry run: no changes were submitted.\n\n` +
+              `DNSSEC state: ${currentState} → ${state}\n\n` +
+              `Request body for PATCH managedZones/${input.zoneName}:\n${JSON.stringify(patch, null, 2)}\n\n` +
+              `Next steps after applying:\n${steps}`
+          }]
+        };
+      }
+
+      const operation = await client.patchManagedZone(input.zoneName, patch);
+
+      return {
+        content: [{
+          type: "text",
+          text: `✅ Successfully submitted DNSSEC '${state}' for zone '${input.zoneName}' (was '${currentState}')\n` +
+            `Operation ID: ${operation.id}\n` +
+            `Status: ${operation.status}\n\n` +
+            `Next steps:\n${steps}`
+        }]
+      };
+    } catch (error) {
+      return errorResult("Error enabling DNSSEC", error);
+    }
+  }
+}
+
+/**
+ * Turn DNSSEC off once the registrar no longer publishes DS records
+ */
+export class DisableDnssecTool extends Tool {
+  name = "gcloud_dns_disable_dnssec";
+  description = "Disable DNSSEC on a managed zone. The DS records must be removed at the registrar and their TTL must have expired first, or the zone stops resolving for validating resolvers.";
+  annotations = { readOnlyHint: false, destructiveHint: true, idempotentHint: true };
+
+  constructor(private context: DnssecToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        zoneName: {
+          type: "string",
+          description: "Name of the managed zone"
+        },
+        dsRemoved: {
+          type: "boolean",
+          description: "Confirm that the zone's DS records were removed at the registrar and the parent's DS TTL has expired",
+          default: false
+        },
+        dryRun: {
+          type: "boolean",
+          description: "Preview the zone update without submitting it",
+          default: false
+        },
+        confirm: CONFIRM_SCHEMA
+      },
+      required: ["zoneName"]
+    } as const;
+  }
+
+  async execute(input: ToolInput<{ zoneName: string; dsRemoved?: boolean; dryRun?: boolean; confirm?: string; projectId?: string }>): Promise<ToolResult> {
+    try {
+      const client = this.context.client.forProject(input.projectId);
+
+      if (!input.zoneName || typeof input.zoneName !== 'string') {
+        return {
+          content: [{ type: "text", text: "zoneName parameter is required and must be a string" }],
+          isError: true
+        };
+      }
+
+      this.context.guardrails.checkZone(client, input.zoneName);
+
+      const zone = await client.getManagedZone(input.zoneName);
+      const currentState = zone.dnssecConfig?.state || 'off';
+      if (currentState === 'off') {
+        return {
+          content: [{ type: "text", text: `DNSSEC is already off for zone '${input.zoneName}'.` }]
+        };
+      }
+
+      if (input.dsRemoved !== true && !input.dryRun) {
+        return {
+          content: [{
+            type: "text",
+            text: `Refusing to disable DNSSEC for zone '${input.zoneName}' without dsRemoved: true.\n\n` +
+              `Disabling DNSSEC while the parent zone still publishes a DS record makes the zone fail validation, ` +
+              `so validating resolvers stop resolving it. Follow this order:\n${numbered(DISABLE_STEPS)}`
+          }],
+          isError: true
+        };
+      }
+
+      const patch: ManagedZone = { dnssecConfig: { state: 'off' } };
+
+      if (input.dryRun) {
+        return {
+          content: [{
+            type: "text",
+            text: `🔍 Dry run: no changes were submitted.\n\n` +
+              `DNSSEC state: ${currentState} → off\n\n` +
+              `Request body for PATCH managedZones/${input.zoneName}:\n${JSON.stringify(patch, null, 2)}\n\n` +
+              `Before applying:\n${numbered(DISABLE_STEPS)}`
+          }]
+        };
+      }
+
+      this.context.guardrails.confirm('disable_dnssec', { project: client.projectId, zone: input.zoneName }, input.confirm, `Disabling DNSSEC for zone '${input.zoneName}'`);
+
+      const operation = await client.patchManagedZone(input.zoneName, patch);
+
+      return {
+        content: [{
+          type: "text",
+          text: `✅ Successfully submitted DNSSEC 'off' for zone '${input.zoneName}' (was '${currentState}')\n` +
+            `Operation ID: ${operation.id}\n` +
+            `Status: ${operation.status}`
+        }]
+      };
+    } catch (error) {
+      return errorResult("Error disabling DNSSEC", error);
+    }
+  }
+}
+
+/**
+ * List the DNSSEC keys of a zone
+ */
+export class ListDnsKeysTool extends Tool {
+  name = "gcloud_dns_list_dns_keys";
+  description = "List the DNSSEC key-signing and zone-signing keys of a managed zone with their algorithm, length, key tag and state";
+  annotations = { readOnlyHint: true };
+
+  constructor(private context: DnssecToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        zoneName: {
+          type: "string",
+          description: "Name of the managed zone"
+        },
+        activeOnly: {
+          type: "boolean",
+          description: "Only list keys that currently sign the zone",
+          default: false
+        }
+      },
+      required: ["zoneName"]
+    } as const;
+  }
+
+  async execute(input: ToolInput<{ zoneName: string; activeOnly?: boolean; projectId?: string }>): Promise<ToolResult> {
+    try {
+      const client = this.context.client.forProject(input.projectId);
+
+      if (!input.zoneName || typeof input.zoneName !== 'string') {
+        return {
+          content: [{ type: "text", text: "zoneName parameter is required and must be a string" }],
+          isError: true
+        };
+      }
+
+      const keys = (await client.listDnsKeys(input.zoneName))
+        .filter(key => !input.activeOnly || key.isActive)
+        .sort((a, b) => (a.type === b.type ? 0 : a.type === 'keySigning' ? -1 : 1));
+
+      if (keys.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: `No DNSSEC keys found for zone '${input.zoneName}'. ` +
+              `Enable DNSSEC with gcloud_dns_enable_dnssec; keys appear a few minutes after it is turned on.`
+          }]
+        };
+      }
+
+      return {
+        content: [{ type: "text", text: `Found ${keys.length} DNSSEC keys in zone '${input.zoneName}':\n\n${keys.map(formatKey).join('\n\n')}` }]
+      };
+    } catch (error) {
+      return errorResult("Error listing DNSSEC keys", error);
+    }
+  }
+}
+
+/**
+ * Produce the DS records to publish at the registrar
+ */
+export class GetDSRecordsTool extends Tool {
+  name = "gcloud_dns_get_ds_records";
+  description = "Get the DS records (key tag, algorithm, digest type and digest) for a DNSSEC-signed zone, ready to hand to the registrar";
+  annotations = { readOnlyHint: true };
+
+  constructor(private context: DnssecToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        zoneName: {
+          type: "string",
+          description: "Name of the managed zone"
+        },
+        digestType: {
+          type: "string",
+          enum: ["sha256", "sha384", "sha1", "all"],
+          description: "Digest type of the DS records (default sha256, which registrars accept most widely; sha1 is deprecated)",
+          default: "sha256"
+        }
+      },
+      required: ["zoneName"]
+    } as const;
+  }
+
+  async execute(input: ToolInput<{ zoneName: string; digestType?: DigestType | 'all'; projectId?: string }>): Promise<ToolResult> {
+    try {
+      const client = this.context.client.forProject(input.projectId);
+
+      if (!input.zoneName || typeof input.zoneName !== 'string') {
+        return {
+          content: [{ type: "text", text: "zoneName parameter is required and must be a string" }],
+          isError: true
+        };
+      }
+
+      const digestType = input.digestType ?? 'sha256';
+      if (digestType !== 'all' && !(digestType in DIGEST_TYPES)) {
+        return {
+          content: [{ type: "text", text: "digestType must be one of: sha256, sha384, sha1, all" }],
+          isError: true
+        };
+      }
+
+      const zone = await client.getManagedZone(input.zoneName);
+      const state = zone.dnssecConfig?.state || 'off';
+      if (state === 'off') {
+        return {
+          content: [{ type: "text", text: `DNSSEC is off for zone '${input.zoneName}'. Enable it with gcloud_dns_enable_dnssec first.` }],
+          isError: true
+        };
+      }
+
+      const keys = (await client.listDnsKeys(input.zoneName))
+        .filter(key => key.type === 'keySigning' && key.isActive);
+      if (keys.length === 0) {
+        return {
+          content: [{ type: "text", text: `Zone '${input.zoneName}' has no active key-signing key yet. Keys are generated a few minutes after DNSSEC is enabled; try again shortly.` }]
+        };
+      }
+
+      const digestTypes: DigestType[] = digestType === 'all' ? ['sha256', 'sha384', 'sha1'] : [digestType];
+      const owner = zone.dnsName!;
+
+      const sections = keys.map(key => {
+        const records = dsRecordsForKey(owner, key, digestTypes);
+        return records.map((ds, index) =>
+          `${formatDSRecord(owner, ds)}\n` +
+          `  - Key tag: ${ds.keyTag}\n` +
+          `  - Algorithm: ${ds.algorithm} (${key.algorithm})\n` +
+          `  - Digest type: ${ds.digestType} (${digestTypes[index]})\n` +
+          `  - Digest: ${ds.digest}`
+        ).join('\n\n');
+      });
+
+      const guidance = state === 'transfer'
+        ? `The zone is in 'transfer' state. Add these DS records next to the previous provider's, then:\n${numbered(TRANSFER_STEPS.slice(2))}`
+        : `Add these DS records at the registrar for ${owner}. Keep any existing DS records until these are published and their TTL has passed.`;
+
+      return {
+        content: [{ type: "text", text: `DS records for zone '${input.zoneName}':\n\n${sections.join('\n\n')}\n\n${guidance}` }]
+      };
+    } catch (error) {
+      return errorResult("Error getting DS records", error);
+    }
+  }
+}
+
+/**
+ * Create and export all DNSSEC tools for Google Cloud DNS
+ */
+export function createDnssecTools(client: GoogleCloudDNSClient, guardrails: Guardrails = new Guardrails()): Tool[] {
+  const context = { client, guardrails };
+
+  return [
+    new EnableDnssecTool(context),
+    new DisableDnssecTool(context),
+    new ListDnsKeysTool(context),
+    new GetDSRecordsTool(context)
+  ];
+}
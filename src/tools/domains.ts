@@ -1,8 +1,226 @@
-import { Tool, ToolInput, ToolResult } from "../lib/mcp-core.js";
+import { Tool, ToolContext, ToolInput, ToolResult } from "../lib/mcp-core.js";
 import { GoogleCloudDNSClient } from "../lib/client.js";
+import { errorResult } from "../lib/errors.js";
+import { formatPendingNote, planChange, previewChange, settleChange } from "../lib/changes.js";
+import { Guardrails } from "../lib/guardrails.js";
+import { isInZone, resolveRecordName } from "../lib/names.js";
+import { formatRoutingPolicy, resolveRoutingPolicy } from "../lib/routing.js";
+import { CONFIRM_SCHEMA, PROJECT_ID_SCHEMA, ROUTING_POLICY_SCHEMA } from "../lib/schemas.js";
+import {
+  ForwardingTargetInput,
+  ZONE_NAME_PATTERN,
+  formatForwardingTarget,
+  formatNextPage,
+  shortNetworkName,
+  toTargetNameServers,
+  validateForwardingTargets,
+  validateNetworks,
+  validatePagination
+} from "../lib/tool-helpers.js";
+import { ManagedZone, ResourceRecordSet, RRSetRoutingPolicy } from "../types/index.js";
 
 interface DomainsToolsContext {
   client: GoogleCloudDNSClient;
+  guardrails: Guardrails;
+}
+
+/**
+ * Validate optional zone settings shared by the create and update tools
+ */
+function validateZoneSettings(input: {
+  description?: unknown;
+  labels?: unknown;
+  dnssecState?: unknown;
+  dnssecNonExistence?: unknown;
+}): ToolResult | undefined {
+  if (input.description !== undefined && typeof input.description !== 'string') {
+    return {
+      content: [{ type: "text", text: "description parameter must be a string" }],
+      isError: true
+    };
+  }
+
+  if (input.labels !== undefined &&
+      (typeof input.labels !== 'object' || input.labels === null || Array.isArray(input.labels) ||
+       !Object.values(input.labels).every(v => typeof v === 'string'))) {
+    return {
+      content: [{ type: "text", text: "labels parameter must be an object of string values" }],
+      isError: true
+    };
+  }
+
+  if (input.dnssecState !== undefined && !['off', 'on', 'transfer'].includes(input.dnssecState as string)) {
+    return {
+      content: [{ type: "text", text: "dnssecState must be one of: off, on, transfer" }],
+      isError: true
+    };
+  }
+
+  if (input.dnssecNonExistence !== undefined && !['nsec', 'nsec3'].includes(input.dnssecNonExistence as string)) {
+    return {
+      content: [{ type: "text", text: "dnssecNonExistence must be one of: nsec, nsec3" }],
+      isError: true
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Build the dnssecConfig portion of a zone body from tool input
+ */
+function buildDnssecConfig(input: {
+  dnssecState?: 'off' | 'on' | 'transfer';
+  dnssecNonExistence?: 'nsec' | 'nsec3';
+}): Pick<ManagedZone, 'dnssecConfig'> {
+  if (!input.dnssecState && !input.dnssecNonExistence) {
+    return {};
+  }
+
+  return {
+    dnssecConfig: {
+      ...(input.dnssecState ? { state: input.dnssecState } : {}),
+      ...(input.dnssecNonExistence ? { nonExistence: input.dnssecNonExistence } : {})
+    }
+  };
+}
+
+/**
+ * Validate private zone network, forwarding and peering settings
+ */
+function validatePrivateZoneSettings(input: {
+  networks?: unknown;
+  forwardingTargets?: unknown;
+  peeringNetwork?: unknown;
+}, visibility: 'public' | 'private'): ToolResult | undefined {
+  const hasPrivateSettings = input.networks !== undefined || input.forwardingTargets !== undefined || input.peeringNetwork !== undefined;
+  if (hasPrivateSettings && visibility !== 'private') {
+    return {
+      content: [{ type: "text", text: "networks, forwardingTargets and peeringNetwork are only supported on private zones" }],
+      isError: true
+    };
+  }
+
+  const networksError = validateNetworks(input.networks);
+  if (networksError) {
+    return networksError;
+  }
+
+  if (input.forwardingTargets !== undefined) {
+    const targetsError = validateForwardingTargets(input.forwardingTargets, 'forwardingTargets');
+    if (targetsError) {
+      return targetsError;
+    }
+  }
+
+  if (input.peeringNetwork !== undefined && (typeof input.peeringNetwork !== 'string' || !input.peeringNetwork)) {
+    return {
+      content: [{ type: "text", text: "peeringNetwork parameter must be a network name or URL" }],
+      isError: true
+    };
+  }
+
+  if (input.forwardingTargets !== undefined && input.peeringNetwork !== undefined) {
+    return {
+      content: [{ type: "text", text: "A zone cannot be both a forwarding zone and a peering zone" }],
+      isError: true
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Build the private visibility, forwarding and peering portions of a zone body
+ */
+function buildPrivateZoneConfig(input: {
+  networks?: string[];
+  forwardingTargets?: ForwardingTargetInput[];
+  peeringNetwork?: string;
+}, client: GoogleCloudDNSClient): Pick<ManagedZone, 'privateVisibilityConfig' | 'forwardingConfig' | 'peeringConfig'> {
+  return {
+    ...(input.networks ? {
+      privateVisibilityConfig: {
+        networks: input.networks.map(network => ({ networkUrl: client.resolveNetworkUrl(network) }))
+      }
+    } : {}),
+    ...(input.forwardingTargets ? {
+      forwardingConfig: {
+        targetNameServers: toTargetNameServers(input.forwardingTargets)
+      }
+    } : {}),
+    ...(input.peeringNetwork ? {
+      peeringConfig: {
+        targetNetwork: { networkUrl: client.resolveNetworkUrl(input.peeringNetwork) }
+      }
+    } : {})
+  };
+}
+
+/**
+ * The networks and forwarding targets a private zone is bound to, in a stable order
+ */
+function privateBindings(zone: ManagedZone): { networks: string[]; forwardingTargets: string[] } {
+  return {
+    networks: (zone.privateVisibilityConfig?.networks || []).map(network => network.networkUrl || '').sort(),
+    forwardingTargets: (zone.forwardingConfig?.targetNameServers || []).map(formatForwardingTarget).sort()
+  };
+}
+
+/**
+ * One-line-per-setting summary of private zone bindings for zone listings
+ */
+function formatPrivateZoneSummary(zone: ManagedZone): string {
+  if (zone.visibility !== 'private') {
+    return '';
+  }
+
+  const networks = zone.privateVisibilityConfig?.networks?.map(n => shortNetworkName(n.networkUrl)) || [];
+  const clusters = zone.privateVisibilityConfig?.gkeClusters?.map(c => c.gkeClusterName) || [];
+
+  return `  - Visible to networks: ${networks.join(', ') || 'None'}\n` +
+    (clusters.length > 0 ? `  - Visible to GKE clusters: ${clusters.join(', ')}\n` : '') +
+    (zone.forwardingConfig?.targetNameServers?.length ?
+      `  - Forwards to: ${zone.forwardingConfig.targetNameServers.map(formatForwardingTarget).join(', ')}\n` : '') +
+    (zone.peeringConfig?.targetNetwork ?
+      `  - Peers with: ${shortNetworkName(zone.peeringConfig.targetNetwork.networkUrl)}\n` : '');
+}
+
+/**
+ * Multi-line private zone bindings for zone details
+ */
+function formatPrivateZoneDetails(zone: ManagedZone): string {
+  if (zone.visibility !== 'private') {
+    return '';
+  }
+
+  const networks = zone.privateVisibilityConfig?.networks || [];
+  const clusters = zone.privateVisibilityConfig?.gkeClusters || [];
+
+  return `Visible to Networks:\n${networks.map(n => `  - ${shortNetworkName(n.networkUrl)}`).join('\n') || '  None'}\n` +
+    (clusters.length > 0 ? `Visible to GKE Clusters:\n${clusters.map(c => `  - ${c.gkeClusterName}`).join('\n')}\n` : '') +
+    (zone.forwardingConfig?.targetNameServers?.length ?
+      `Forwarding Targets:\n${zone.forwardingConfig.targetNameServers.map(t => `  - ${formatForwardingTarget(t)}`).join('\n')}\n` : '') +
+    (zone.peeringConfig?.targetNetwork ?
+      `Peering Network: ${shortNetworkName(zone.peeringConfig.targetNetwork.networkUrl)}` +
+      (zone.peeringConfig.targetNetwork.deactivateTime ? ` (deactivated ${new Date(zone.peeringConfig.targetNetwork.deactivateTime).toLocaleString()})` : '') +
+      `\n` : '');
+}
+
+/**
+ * Record data line: plain values, or the routing policy's items
+ */
+function formatRecordData(record: ResourceRecordSet): string {
+  return record.routingPolicy
+    ? `Routing: ${formatRoutingPolicy(record.routingPolicy, '  ')}\n`
+    : `Data: ${record.rrdatas?.join(', ') || 'No data'}\n`;
+}
+
+/**
+ * Note the safe fixes applied to a record before it was submitted
+ */
+function formatNormalized(normalized?: string[]): string {
+  return normalized?.length ? `Normalized: ${normalized.join('; ')}\n` : '';
 }
 
 /**
@@ -11,6 +229,7 @@ interface DomainsToolsContext {
 export class ListManagedZonesTool extends Tool {
   name = "gcloud_dns_list_zones";
   description = "List all DNS managed zones in the Google Cloud project";
+  annotations = { readOnlyHint: true };
 
   constructor(private context: DomainsToolsContext) {
     super();
@@ -19,40 +238,139 @@ export class ListManagedZonesTool extends Tool {
   get inputSchema() {
     return {
       type: "object",
-      properties: {},
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        maxResults: {
+          type: "number",
+          description: "Maximum number of zones to return in one page. When maxResults or pageToken is set, only a single page is returned; otherwise all zones are listed."
+        },
+        pageToken: {
+          type: "string",
+          description: "Page token returned by a previous call to continue listing"
+        }
+      },
       required: []
     } as const;
   }
 
-  async execute(_input: ToolInput<{}>): Promise<ToolResult> {
+  async execute(input: ToolInput<{ maxResults?: number; pageToken?: string; projectId?: string }>): Promise<ToolResult> {
     try {
-      const zones = await this.context.client.listManagedZones();
+      const client = this.context.client.forProject(input.projectId);
+
+      const paginationError = validatePagination(input);
+      if (paginationError) {
+        return paginationError;
+      }
+
+      const paged = input.maxResults !== undefined || input.pageToken !== undefined;
+      const { items: zones, nextPageToken } = paged
+        ? await client.listManagedZonesPage({ maxResults: input.maxResults, pageToken: input.pageToken })
+        : { items: await client.listManagedZones(), nextPageToken: undefined };
       
-      if (zones.length === 0) {
+      if (zones.length === 0 && !nextPageToken) {
         return {
           content: [{ type: "text", text: "No DNS managed zones found in the project." }]
         };
       }
 
-      const content = `Found ${zones.length} DNS managed zones:\n\n${zones
+      const content = `Found ${zones.length} DNS managed zones${paged ? ' in this page' : ''}:\n\n${zones
         .map(zone => 
           `• ${zone.dnsName} (${zone.name})\n` +
           `  - Description: ${zone.description || 'No description'}\n` +
           `  - Visibility: ${zone.visibility || 'public'}\n` +
+          formatPrivateZoneSummary(zone) +
           `  - Name servers: ${zone.nameServers?.join(', ') || 'None'}\n` +
           `  - DNSSEC: ${zone.dnssecConfig?.state || 'off'}\n` +
           `  - Created: ${zone.creationTime ? new Date(zone.creationTime).toLocaleString() : 'Unknown'}`
         )
-        .join('\n\n')}`;
+        .join('\n\n')}` +
+        formatNextPage(nextPageToken);
 
       return {
         content: [{ type: "text", text: content }]
       };
-    } catch (error: any) {
+    } catch (error) {
+      return errorResult("Error listing managed zones", error);
+    }
+  }
+}
+
+/**
+ * List managed zones across every configured project
+ */
+export class ListProjectsZonesTool extends Tool {
+  name = "gcloud_dns_list_projects_zones";
+  description = "List DNS managed zones across all configured Google Cloud projects (GOOGLE_CLOUD_PROJECT_ID and GOOGLE_CLOUD_DNS_PROJECTS)";
+  annotations = { readOnlyHint: true };
+
+  constructor(private context: DomainsToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projects: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only list these configured projects (defaults to all of them)"
+        }
+      },
+      required: []
+    } as const;
+  }
+
+  async execute(input: ToolInput<{ projects?: string[] }>): Promise<ToolResult> {
+    try {
+      if (input.projects !== undefined && (!Array.isArray(input.projects) || input.projects.some(p => typeof p !== 'string'))) {
+        return {
+          content: [{ type: "text", text: "projects parameter must be an array of strings" }],
+          isError: true
+        };
+      }
+
+      const projects = input.projects?.length ? input.projects : this.context.client.projects;
+      // Resolve every client first so an unconfigured project fails the call before any listing
+      const clients = projects.map(project => this.context.client.forProject(project));
+
+      // One failing project (e.g. missing permissions) should not hide the others
+      const results = await Promise.allSettled(clients.map(client => client.listManagedZones()));
+
+      const failures = results.flatMap((result, i) =>
+        result.status === 'rejected' ? [`⚠️ ${projects[i]}: ${result.reason instanceof Error ? result.reason.message : String(result.reason)}`] : []
+      );
+      if (failures.length === projects.length) {
+        return {
+          content: [{ type: "text", text: `Error listing zones in every project:\n\n${failures.join('\n')}` }],
+          isError: true
+        };
+      }
+
+      const sections = results.flatMap((result, i) => {
+        if (result.status === 'rejected') {
+          return [];
+        }
+        const zones = result.value;
+        return [`📁 ${projects[i]} (${zones.length} zones)\n` + (zones.length === 0 ? '  No zones\n' : zones
+          .map(zone =>
+            `• ${zone.dnsName} (${zone.name}) - ${zone.visibility || 'public'}, DNSSEC ${zone.dnssecConfig?.state || 'off'}` +
+            (zone.description ? `\n  ${zone.description}` : '')
+          )
+          .join('\n') + '\n')];
+      });
+      const total = results.reduce((sum, result) => sum + (result.status === 'fulfilled' ? result.value.length : 0), 0);
+
+      const content = `Found ${total} DNS managed zones across ${projects.length - failures.length} projects:\n\n` +
+        sections.join('\n') +
+        (failures.length > 0 ? `\nCould not list ${failures.length} projects:\n${failures.join('\n')}\n` : '') +
+        '\nPass projectId to the other tools to work with a zone outside the default project.';
+
       return {
-        content: [{ type: "text", text: `Error listing managed zones: ${error.message}` }],
-        isError: true
+        content: [{ type: "text", text: content }]
       };
+    } catch (error) {
+      return errorResult("Error listing zones across projects", error);
     }
   }
 }
@@ -63,6 +381,7 @@ export class ListManagedZonesTool extends Tool {
 export class GetManagedZoneTool extends Tool {
   name = "gcloud_dns_get_zone";
   description = "Get details for a specific DNS managed zone";
+  annotations = { readOnlyHint: true };
 
   constructor(private context: DomainsToolsContext) {
     super();
@@ -72,6 +391,7 @@ export class GetManagedZoneTool extends Tool {
     return {
       type: "object",
       properties: {
+        projectId: PROJECT_ID_SCHEMA,
         zoneName: {
           type: "string",
           description: "Name of the managed zone (not the DNS name)"
@@ -81,8 +401,10 @@ export class GetManagedZoneTool extends Tool {
     } as const;
   }
 
-  async execute(input: ToolInput<{ zoneName: string }>): Promise<ToolResult> {
+  async execute(input: ToolInput<{ zoneName: string; projectId?: string }>): Promise<ToolResult> {
     try {
+      const client = this.context.client.forProject(input.projectId);
+
       if (!input.zoneName || typeof input.zoneName !== 'string') {
         return {
           content: [{ type: "text", text: "zoneName parameter must be a string" }],
@@ -90,13 +412,14 @@ export class GetManagedZoneTool extends Tool {
         };
       }
 
-      const zone = await this.context.client.getManagedZone(input.zoneName);
+      const zone = await client.getManagedZone(input.zoneName);
       
       const content = `Managed Zone Details: ${zone.dnsName}\n\n` +
         `Zone Name: ${zone.name}\n` +
         `DNS Name: ${zone.dnsName}\n` +
         `Description: ${zone.description || 'No description'}\n` +
         `Visibility: ${zone.visibility || 'public'}\n` +
+        formatPrivateZoneDetails(zone) +
         `Created: ${zone.creationTime ? new Date(zone.creationTime).toLocaleString() : 'Unknown'}\n` +
         `DNSSEC State: ${zone.dnssecConfig?.state || 'off'}\n` +
         `Name Servers:\n${zone.nameServers?.map(ns => `  - ${ns}`).join('\n') || '  None'}\n` +
@@ -106,11 +429,464 @@ export class GetManagedZoneTool extends Tool {
       return {
         content: [{ type: "text", text: content }]
       };
-    } catch (error: any) {
+    } catch (error) {
+      return errorResult("Error getting managed zone details", error);
+    }
+  }
+}
+
+/**
+ * Create a new managed zone
+ */
+export class CreateManagedZoneTool extends Tool {
+  name = "gcloud_dns_create_zone";
+  description = "Create a new DNS managed zone";
+  annotations = { readOnlyHint: false, destructiveHint: false, idempotentHint: false };
+
+  constructor(private context: DomainsToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        zoneName: {
+          type: "string",
+          description: "Name of the managed zone to create (lowercase letters, digits and dashes, e.g., example-com)"
+        },
+        dnsName: {
+          type: "string",
+          description: "DNS name of the zone (e.g., example.com.)"
+        },
+        description: {
+          type: "string",
+          description: "Human-readable description of the zone"
+        },
+        labels: {
+          type: "object",
+          additionalProperties: { type: "string" },
+          description: "Labels to attach to the zone"
+        },
+        visibility: {
+          type: "string",
+          enum: ["public", "private"],
+          description: "Zone visibility (cannot be changed after creation)",
+          default: "public"
+        },
+        networks: {
+          type: "array",
+          items: { type: "string" },
+          description: "VPC networks that can see a private zone: names in this project (e.g., default), project/network pairs or full network URLs"
+        },
+        forwardingTargets: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              address: { type: "string", description: "IPv4 or IPv6 address of the target name server" },
+              forwardingPath: { type: "string", enum: ["default", "private"], description: "Use 'private' to always route through the VPC (e.g., to on-prem resolvers over VPN/Interconnect)" }
+            },
+            required: ["address"]
+          },
+          description: "Makes a private zone a forwarding zone that sends queries to these name servers"
+        },
+        peeringNetwork: {
+          type: "string",
+          description: "Makes a private zone a peering zone that resolves names through this VPC network (name, project/network or URL)"
+        },
+        dnssecState: {
+          type: "string",
+          enum: ["off", "on", "transfer"],
+          description: "DNSSEC state for public zones",
+          default: "off"
+        },
+        dnssecNonExistence: {
+          type: "string",
+          enum: ["nsec", "nsec3"],
+          description: "Authenticated denial of existence mechanism when DNSSEC is enabled"
+        },
+        dryRun: {
+          type: "boolean",
+          description: "Preview the request that would be sent without submitting it",
+          default: false
+        }
+      },
+      required: ["zoneName", "dnsName"]
+    } as const;
+  }
+
+  async execute(input: ToolInput<{
+    zoneName: string;
+    dnsName: string;
+    description?: string;
+    labels?: Record<string, string>;
+    visibility?: 'public' | 'private';
+    networks?: string[];
+    forwardingTargets?: ForwardingTargetInput[];
+    peeringNetwork?: string;
+    dnssecState?: 'off' | 'on' | 'transfer';
+    dnssecNonExistence?: 'nsec' | 'nsec3';
+    dryRun?: boolean;
+    projectId?: string;
+  }>): Promise<ToolResult> {
+    try {
+      const client = this.context.client.forProject(input.projectId);
+
+      if (!input.zoneName || typeof input.zoneName !== 'string' || !ZONE_NAME_PATTERN.test(input.zoneName)) {
+        return {
+          content: [{ type: "text", text: "zoneName must be 1-63 lowercase letters, digits or dashes, starting with a letter and not ending with a dash" }],
+          isError: true
+        };
+      }
+
+      this.context.guardrails.checkZone(client, input.zoneName);
+
+      if (!input.dnsName || typeof input.dnsName !== 'string') {
+        return {
+          content: [{ type: "text", text: "dnsName parameter must be a string" }],
+          isError: true
+        };
+      }
+
+      const settingsError = validateZoneSettings(input);
+      if (settingsError) {
+        return settingsError;
+      }
+
+      const visibility = input.visibility || 'public';
+      if (visibility === 'private' && input.dnssecState && input.dnssecState !== 'off') {
+        return {
+          content: [{ type: "text", text: "DNSSEC is only supported on public zones" }],
+          isError: true
+        };
+      }
+
+      const privateError = validatePrivateZoneSettings(input, visibility);
+      if (privateError) {
+        return privateError;
+      }
+
+      const zone: ManagedZone = {
+        name: input.zoneName,
+        dnsName: input.dnsName.endsWith('.') ? input.dnsName.toLowerCase() : `${input.dnsName.toLowerCase()}.`,
+        description: input.description || '',
+        visibility,
+        ...(input.labels ? { labels: input.labels } : {}),
+        ...buildPrivateZoneConfig(input, client),
+        ...buildDnssecConfig(input)
+      };
+
+      if (input.dryRun) {
+        return {
+          content: [{
+            type: "text",
+            text: `🔍 Dry run: no changes were submitted.\n\n` +
+              `Request body for POST managedZones:\n${JSON.stringify(zone, null, 2)}`
+          }]
+        };
+      }
+
+      const created = await client.createManagedZone(zone);
+
+      const content = `✅ Successfully created managed zone:\n\n` +
+        `Zone Name: ${created.name}\n` +
+        `DNS Name: ${created.dnsName}\n` +
+        `Description: ${created.description || 'No description'}\n` +
+        `Visibility: ${created.visibility || 'public'}\n` +
+        formatPrivateZoneDetails(created) +
+        `DNSSEC State: ${created.dnssecConfig?.state || 'off'}\n` +
+        `Name Servers:\n${created.nameServers?.map(ns => `  - ${ns}`).join('\n') || '  None'}\n` +
+        (visibility === 'public' ? `\nDelegate the domain at your registrar to the name servers above.` : '');
+
+      return {
+        content: [{ type: "text", text: content }]
+      };
+    } catch (error) {
+      return errorResult("Error creating managed zone", error);
+    }
+  }
+}
+
+/**
+ * Update an existing managed zone
+ */
+export class UpdateManagedZoneTool extends Tool {
+  name = "gcloud_dns_update_zone";
+  description = "Update the description, labels, private zone networks, forwarding targets or DNSSEC denial of existence of a DNS managed zone. Use gcloud_dns_enable_dnssec and gcloud_dns_disable_dnssec to change the DNSSEC state.";
+  annotations = { readOnlyHint: false, destructiveHint: true, idempotentHint: true };
+
+  constructor(private context: DomainsToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        zoneName: {
+          type: "string",
+          description: "Name of the managed zone"
+        },
+        description: {
+          type: "string",
+          description: "New description"
+        },
+        labels: {
+          type: "object",
+          additionalProperties: { type: "string" },
+          description: "New labels (replaces all existing labels)"
+        },
+        networks: {
+          type: "array",
+          items: { type: "string" },
+          description: "VPC networks that can see this private zone (replaces the existing list)"
+        },
+        forwardingTargets: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              address: { type: "string", description: "IPv4 or IPv6 address of the target name server" },
+              forwardingPath: { type: "string", enum: ["default", "private"], description: "Use 'private' to always route through the VPC (e.g., to on-prem resolvers over VPN/Interconnect)" }
+            },
+            required: ["address"]
+          },
+          description: "Forwarding targets for this forwarding zone (replaces the existing list)"
+        },
+        dnssecNonExistence: {
+          type: "string",
+          enum: ["nsec", "nsec3"],
+          description: "Authenticated denial of existence mechanism"
+        },
+        dryRun: {
+          type: "boolean",
+          description: "Preview the request that would be sent without submitting it",
+          default: false
+        },
+        confirm: CONFIRM_SCHEMA
+      },
+      required: ["zoneName"]
+    } as const;
+  }
+
+  async execute(input: ToolInput<{
+    zoneName: string;
+    description?: string;
+    labels?: Record<string, string>;
+    networks?: string[];
+    forwardingTargets?: ForwardingTargetInput[];
+    dnssecNonExistence?: 'nsec' | 'nsec3';
+    dryRun?: boolean;
+    confirm?: string;
+    projectId?: string;
+  }>): Promise<ToolResult> {
+    try {
+      const client = this.context.client.forProject(input.projectId);
+
+      if (!input.zoneName || typeof input.zoneName !== 'string') {
+        return {
+          content: [{ type: "text", text: "zoneName parameter must be a string" }],
+          isError: true
+        };
+      }
+
+      this.context.guardrails.checkZone(client, input.zoneName);
+
+      if ('visibility' in input) {
+        return {
+          content: [{ type: "text", text: "Zone visibility cannot be changed after creation; create a new zone instead" }],
+          isError: true
+        };
+      }
+
+      if ('peeringNetwork' in input) {
+        return {
+          content: [{ type: "text", text: "A zone's peering network cannot be changed after creation; create a new peering zone instead" }],
+          isError: true
+        };
+      }
+
+      // The DNSSEC tools check that the DS records are gone before signing is turned off
+      if ('dnssecState' in input) {
+        return {
+          content: [{ type: "text", text: "Use gcloud_dns_enable_dnssec or gcloud_dns_disable_dnssec to change a zone's DNSSEC state" }],
+          isError: true
+        };
+      }
+
+      const settingsError = validateZoneSettings(input);
+      if (settingsError) {
+        return settingsError;
+      }
+
+      let zone: ManagedZone | undefined;
+      if (input.networks !== undefined || input.forwardingTargets !== undefined) {
+        zone = await client.getManagedZone(input.zoneName);
+        const privateError = validatePrivateZoneSettings(input, zone.visibility || 'public');
+        if (privateError) {
+          return privateError;
+        }
+      }
+
+      const patch: ManagedZone = {
+        ...(input.description !== undefined ? { description: input.description } : {}),
+        ...(input.labels ? { labels: input.labels } : {}),
+        ...buildPrivateZoneConfig(input, client),
+        ...buildDnssecConfig(input)
+      };
+
+      if (Object.keys(patch).length === 0) {
+        return {
+          content: [{ type: "text", text: "Nothing to update: provide description, labels, networks, forwardingTargets or dnssecNonExistence" }],
+          isError: true
+        };
+      }
+
+      if (input.dryRun) {
+        const current = await client.getManagedZone(input.zoneName);
+        const diff = (Object.keys(patch) as Array<keyof ManagedZone>)
+          .map(key => `  ${key}:\n    - ${JSON.stringify(current[key] ?? null)}\n    + ${JSON.stringify(patch[key])}`)
+          .join('\n');
+
+        return {
+          content: [{
+            type: "text",
+            text: `🔍 Dry run: no changes were submitted.\n\n` +
+              `Diff against current zone:\n${diff}\n\n` +
+              `Request body for PATCH managedZones/${input.zoneName}:\n${JSON.stringify(patch, null, 2)}`
+          }]
+        };
+      }
+
+      // Rebinding a private zone changes what every VM in those networks resolves
+      const bindings = zone && privateBindings({ ...zone, ...patch });
+      if (zone && JSON.stringify(bindings) !== JSON.stringify(privateBindings(zone))) {
+        this.context.guardrails.confirm(
+          'rebind_zone',
+          { project: client.projectId, zone: input.zoneName, bindings },
+          input.confirm,
+          `Replacing the networks or forwarding targets of zone '${input.zoneName}'`
+        );
+      }
+
+      const operation = await client.patchManagedZone(input.zoneName, patch);
+      const updated = operation.zoneContext?.newValue;
+
+      const content = `✅ Successfully submitted update for managed zone '${input.zoneName}':\n\n` +
+        `Updated fields: ${Object.keys(patch).join(', ')}\n` +
+        (updated ?
+          `Description: ${updated.description || 'No description'}\n` +
+          formatPrivateZoneDetails(updated) +
+          `DNSSEC State: ${updated.dnssecConfig?.state || 'off'}\n` +
+          (updated.labels && Object.keys(updated.labels).length > 0 ?
+            `Labels:\n${Object.entries(updated.labels).map(([k, v]) => `  - ${k}: ${v}`).join('\n')}\n` : '')
+          : '') +
+        `Operation ID: ${operation.id}\n` +
+        `Status: ${operation.status}`;
+
+      return {
+        content: [{ type: "text", text: content }]
+      };
+    } catch (error) {
+      return errorResult("Error updating managed zone", error);
+    }
+  }
+}
+
+/**
+ * Delete a managed zone
+ */
+export class DeleteManagedZoneTool extends Tool {
+  name = "gcloud_dns_delete_zone";
+  description = "Delete a DNS managed zone. The zone must not contain any records other than its apex NS and SOA.";
+  annotations = { readOnlyHint: false, destructiveHint: true, idempotentHint: true };
+
+  constructor(private context: DomainsToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        zoneName: {
+          type: "string",
+          description: "Name of the managed zone to delete"
+        },
+        dryRun: {
+          type: "boolean",
+          description: "Preview the request that would be sent without submitting it",
+          default: false
+        },
+        confirm: CONFIRM_SCHEMA
+      },
+      required: ["zoneName"]
+    } as const;
+  }
+
+  async execute(input: ToolInput<{ zoneName: string; dryRun?: boolean; confirm?: string; projectId?: string }>): Promise<ToolResult> {
+    try {
+      const client = this.context.client.forProject(input.projectId);
+
+      if (!input.zoneName || typeof input.zoneName !== 'string') {
+        return {
+          content: [{ type: "text", text: "zoneName parameter must be a string" }],
+          isError: true
+        };
+      }
+
+      this.context.guardrails.checkZone(client, input.zoneName);
+
+      const zone = await client.getManagedZone(input.zoneName);
+      const records = await client.listRecords(input.zoneName);
+
+      // Cloud DNS creates the apex NS and SOA itself; anything else must be removed first
+      const remaining = records.filter(record =>
+        !(record.name === zone.dnsName && (record.type === 'NS' || record.type === 'SOA'))
+      );
+
+      if (remaining.length > 0) {
+        const shown = remaining.slice(0, 20);
+        return {
+          content: [{
+            type: "text",
+            text: `Refusing to delete zone '${input.zoneName}': it still contains ${remaining.length} non-default record set(s):\n\n` +
+              shown.map(record => `• ${record.name} (${record.type})`).join('\n') +
+              (remaining.length > shown.length ? `\n… and ${remaining.length - shown.length} more` : '') +
+              `\n\nDelete these records first.`
+          }],
+          isError: true
+        };
+      }
+
+      if (input.dryRun) {
+        return {
+          content: [{
+            type: "text",
+            text: `🔍 Dry run: no changes were submitted.\n\n` +
+              `Would delete managed zone '${input.zoneName}' (${zone.dnsName}) and its apex NS and SOA records.\n` +
+              `Request: DELETE managedZones/${input.zoneName}`
+          }]
+        };
+      }
+
+      this.context.guardrails.confirm('delete_zone', { project: client.projectId, zone: input.zoneName }, input.confirm, `Deleting zone '${input.zoneName}'`);
+
+      await client.deleteManagedZone(input.zoneName);
+
+      const content = `✅ Successfully deleted managed zone:\n\n` +
+        `Zone Name: ${input.zoneName}\n` +
+        `DNS Name: ${zone.dnsName}`;
+
       return {
-        content: [{ type: "text", text: `Error getting managed zone details: ${error.message}` }],
-        isError: true
+        content: [{ type: "text", text: content }]
       };
+    } catch (error) {
+      return errorResult("Error deleting managed zone", error);
     }
   }
 }
@@ -121,6 +897,7 @@ export class GetManagedZoneTool extends Tool {
 export class ListDNSRecordsTool extends Tool {
   name = "gcloud_dns_list_records";
   description = "List DNS records in a managed zone";
+  annotations = { readOnlyHint: true };
 
   constructor(private context: DomainsToolsContext) {
     super();
@@ -130,6 +907,7 @@ export class ListDNSRecordsTool extends Tool {
     return {
       type: "object",
       properties: {
+        projectId: PROJECT_ID_SCHEMA,
         zoneName: {
           type: "string",
           description: "Name of the managed zone"
@@ -140,7 +918,15 @@ export class ListDNSRecordsTool extends Tool {
         },
         name: {
           type: "string",
-          description: "Filter by record name (e.g., www.example.com.)"
+          description: "Filter by record name: '@' for the apex, relative to the zone (www) or absolute (www.example.com.)"
+        },
+        maxResults: {
+          type: "number",
+          description: "Maximum number of records to return in one page. When maxResults or pageToken is set, only a single page is returned; otherwise all records are listed."
+        },
+        pageToken: {
+          type: "string",
+          description: "Page token returned by a previous call to continue listing"
         }
       },
       required: ["zoneName"]
@@ -151,8 +937,13 @@ export class ListDNSRecordsTool extends Tool {
     zoneName: string; 
     type?: string; 
     name?: string; 
+    maxResults?: number;
+    pageToken?: string;
+    projectId?: string;
   }>): Promise<ToolResult> {
     try {
+      const client = this.context.client.forProject(input.projectId);
+
       if (!input.zoneName || typeof input.zoneName !== 'string') {
         return {
           content: [{ type: "text", text: "zoneName parameter must be a string" }],
@@ -160,31 +951,57 @@ export class ListDNSRecordsTool extends Tool {
         };
       }
 
-      const records = await this.context.client.listRecords(input.zoneName, input.type, input.name);
+      const paginationError = validatePagination(input);
+      if (paginationError) {
+        return paginationError;
+      }
+
+      let name: string | undefined;
+      if (input.name) {
+        const zone = await client.getManagedZone(input.zoneName);
+        name = resolveRecordName(input.name, zone.dnsName!);
+        if (!isInZone(name, zone.dnsName!)) {
+          return {
+            content: [{ type: "text", text: `${input.name} is outside zone '${input.zoneName}' (${zone.dnsName})` }],
+            isError: true
+          };
+        }
+      }
+
+      const type = input.type?.toUpperCase();
+      const paged = input.maxResults !== undefined || input.pageToken !== undefined;
+      const { items: records, nextPageToken } = paged
+        ? await client.listRecordsPage(input.zoneName, {
+            type,
+            name,
+            maxResults: input.maxResults,
+            pageToken: input.pageToken
+          })
+        : { items: await client.listRecords(input.zoneName, type, name), nextPageToken: undefined };
       
-      if (records.length === 0) {
+      if (records.length === 0 && !nextPageToken) {
         return {
           content: [{ type: "text", text: "No DNS records found with the specified criteria." }]
         };
       }
 
-      const content = `Found ${records.length} DNS records in zone '${input.zoneName}':\n\n${records
+      const content = `Found ${records.length} DNS records in zone '${input.zoneName}'${paged ? ' in this page' : ''}:\n\n${records
         .map(record => 
           `• ${record.name} (${record.type})\n` +
           `  - TTL: ${record.ttl}\n` +
-          `  - Data: ${record.rrdatas?.join(', ') || 'No data'}\n` +
+          (record.routingPolicy
+            ? `  - Routing: ${formatRoutingPolicy(record.routingPolicy)}\n`
+            : `  - Data: ${record.rrdatas?.join(', ') || 'No data'}\n`) +
           (record.signatureRrdatas ? `  - Signatures: ${record.signatureRrdatas.join(', ')}\n` : '')
         )
-        .join('\n')}`;
+        .join('\n')}` +
+        formatNextPage(nextPageToken);
 
       return {
         content: [{ type: "text", text: content }]
       };
-    } catch (error: any) {
-      return {
-        content: [{ type: "text", text: `Error listing DNS records: ${error.message}` }],
-        isError: true
-      };
+    } catch (error) {
+      return errorResult("Error listing DNS records", error);
     }
   }
 }
@@ -194,7 +1011,8 @@ export class ListDNSRecordsTool extends Tool {
  */
 export class CreateDNSRecordTool extends Tool {
   name = "gcloud_dns_create_record";
-  description = "Create a new DNS record in a managed zone";
+  description = "Create a new DNS record in a managed zone, with plain values or a weighted, geolocation or failover routing policy";
+  annotations = { readOnlyHint: false, destructiveHint: false, idempotentHint: false };
 
   constructor(private context: DomainsToolsContext) {
     super();
@@ -204,13 +1022,14 @@ export class CreateDNSRecordTool extends Tool {
     return {
       type: "object",
       properties: {
+        projectId: PROJECT_ID_SCHEMA,
         zoneName: {
           type: "string",
           description: "Name of the managed zone"
         },
         name: {
           type: "string",
-          description: "Record name (must end with zone's DNS name, e.g., www.example.com.)"
+          description: "Record name: '@' for the apex, relative to the zone (www) or absolute (www.example.com.; the trailing dot is optional)"
         },
         type: {
           type: "string",
@@ -226,10 +1045,21 @@ export class CreateDNSRecordTool extends Tool {
           items: {
             type: "string"
           },
-          description: "Array of record data (e.g., IP addresses, hostnames, text values)"
+          description: "Array of record data (e.g., IP addresses, hostnames, text values). Values are validated per type; host names get a trailing dot and TXT strings over 255 characters are split. Required unless routingPolicy is set."
+        },
+        routingPolicy: ROUTING_POLICY_SCHEMA,
+        dryRun: {
+          type: "boolean",
+          description: "Preview the change (body, diff against current records and conflicts) without submitting it",
+          default: false
+        },
+        wait: {
+          type: "boolean",
+          description: "Wait for the change to finish propagating before returning. With false, return the change ID immediately and track it with gcloud_dns_wait_for_change",
+          default: true
         }
       },
-      required: ["zoneName", "name", "type", "rrdatas"]
+      required: ["zoneName", "name", "type"]
     } as const;
   }
 
@@ -238,9 +1068,15 @@ export class CreateDNSRecordTool extends Tool {
     name: string;
     type: string;
     ttl?: number;
-    rrdatas: string[];
-  }>): Promise<ToolResult> {
+    rrdatas?: string[];
+    routingPolicy?: RRSetRoutingPolicy;
+    dryRun?: boolean;
+    wait?: boolean;
+    projectId?: string;
+  }>, context?: ToolContext): Promise<ToolResult> {
     try {
+      const client = this.context.client.forProject(input.projectId);
+
       if (!input.zoneName || typeof input.zoneName !== 'string') {
         return {
           content: [{ type: "text", text: "zoneName parameter must be a string" }],
@@ -262,42 +1098,64 @@ export class CreateDNSRecordTool extends Tool {
         };
       }
 
-      if (!input.rrdatas || !Array.isArray(input.rrdatas) || input.rrdatas.length === 0) {
+      if (!input.routingPolicy && (!input.rrdatas || !Array.isArray(input.rrdatas) || input.rrdatas.length === 0)) {
         return {
-          content: [{ type: "text", text: "rrdatas parameter must be a non-empty array of strings" }],
+          content: [{ type: "text", text: "rrdatas parameter must be a non-empty array of strings, or set routingPolicy" }],
           isError: true
         };
       }
 
-      const recordData = {
+      this.context.guardrails.checkZone(client, input.zoneName);
+
+      const plan = await planChange(client, input.zoneName, [{
+        action: 'create',
         name: input.name,
         type: input.type,
         ttl: input.ttl || 300,
-        rrdatas: input.rrdatas
-      };
+        ...(input.routingPolicy
+          ? { routingPolicy: resolveRoutingPolicy(input.routingPolicy, client) }
+          : { rrdatas: input.rrdatas })
+      }]);
+
+      if (plan.valid) {
+        await this.context.guardrails.checkChange(client, input.zoneName, plan.change, { dryRun: input.dryRun });
+      }
 
-      const change = await this.context.client.createRecord(input.zoneName, recordData);
+      if (input.dryRun) {
+        return {
+          content: [{ type: "text", text: await previewChange(client, input.zoneName, plan) }]
+        };
+      }
+
+      if (!plan.valid) {
+        return {
+          content: [{ type: "text", text: plan.operations[0].error! }],
+          isError: true
+        };
+      }
+
+      const createdRecord = plan.operations[0].after!;
+      const change = await client.applyChange(input.zoneName, plan.change);
       
-      // Wait for the change to complete
-      const completedChange = await this.context.client.waitForChange(input.zoneName, change.id!);
+      // Wait for the change to complete unless the caller opted out
+      const completedChange = await settleChange(client, input.zoneName, change, input.wait, context);
       
       const content = `✅ Successfully created DNS record:\n\n` +
-        `Name: ${input.name}\n` +
-        `Type: ${input.type}\n` +
-        `TTL: ${input.ttl || 300}\n` +
-        `Data: ${input.rrdatas.join(', ')}\n` +
+        `Name: ${createdRecord.name}\n` +
+        `Type: ${createdRecord.type}\n` +
+        `TTL: ${createdRecord.ttl}\n` +
+        formatRecordData(createdRecord) +
+        formatNormalized(plan.operations[0].normalized) +
         `Change ID: ${change.id}\n` +
         `Status: ${completedChange.status}\n` +
-        `Started: ${completedChange.startTime ? new Date(completedChange.startTime).toLocaleString() : 'Unknown'}`;
+        `Started: ${completedChange.startTime ? new Date(completedChange.startTime).toLocaleString() : 'Unknown'}` +
+        formatPendingNote(completedChange);
 
       return {
         content: [{ type: "text", text: content }]
       };
-    } catch (error: any) {
-      return {
-        content: [{ type: "text", text: `Error creating DNS record: ${error.message}` }],
-        isError: true
-      };
+    } catch (error) {
+      return errorResult("Error creating DNS record", error);
     }
   }
 }
@@ -307,7 +1165,8 @@ export class CreateDNSRecordTool extends Tool {
  */
 export class UpdateDNSRecordTool extends Tool {
   name = "gcloud_dns_update_record";
-  description = "Update an existing DNS record";
+  description = "Update an existing DNS record's TTL, values or routing policy";
+  annotations = { readOnlyHint: false, destructiveHint: true, idempotentHint: true };
 
   constructor(private context: DomainsToolsContext) {
     super();
@@ -317,13 +1176,14 @@ export class UpdateDNSRecordTool extends Tool {
     return {
       type: "object",
       properties: {
+        projectId: PROJECT_ID_SCHEMA,
         zoneName: {
           type: "string",
           description: "Name of the managed zone"
         },
         name: {
           type: "string",
-          description: "Record name to update"
+          description: "Record name to update: '@', relative to the zone (www) or absolute (www.example.com.)"
         },
         type: {
           type: "string",
@@ -338,10 +1198,24 @@ export class UpdateDNSRecordTool extends Tool {
           items: {
             type: "string"
           },
-          description: "New record data values"
+          description: "New record data values (replaces a routing policy)"
+        },
+        routingPolicy: {
+          ...ROUTING_POLICY_SCHEMA,
+          description: `New routing policy (replaces plain record data). ${ROUTING_POLICY_SCHEMA.description}`
+        },
+        dryRun: {
+          type: "boolean",
+          description: "Preview the change (body, diff against current records and conflicts) without submitting it",
+          default: false
+        },
+        wait: {
+          type: "boolean",
+          description: "Wait for the change to finish propagating before returning. With false, return the change ID immediately and track it with gcloud_dns_wait_for_change",
+          default: true
         }
       },
-      required: ["zoneName", "name", "type", "rrdatas"]
+      required: ["zoneName", "name", "type"]
     } as const;
   }
 
@@ -350,9 +1224,15 @@ export class UpdateDNSRecordTool extends Tool {
     name: string;
     type: string;
     ttl?: number;
-    rrdatas: string[];
-  }>): Promise<ToolResult> {
+    rrdatas?: string[];
+    routingPolicy?: RRSetRoutingPolicy;
+    dryRun?: boolean;
+    wait?: boolean;
+    projectId?: string;
+  }>, context?: ToolContext): Promise<ToolResult> {
     try {
+      const client = this.context.client.forProject(input.projectId);
+
       if (!input.zoneName || typeof input.zoneName !== 'string') {
         return {
           content: [{ type: "text", text: "zoneName parameter must be a string" }],
@@ -360,46 +1240,58 @@ export class UpdateDNSRecordTool extends Tool {
         };
       }
 
-      // First, get the existing record
-      const records = await this.context.client.listRecords(input.zoneName, input.type, input.name);
-      const existingRecord = records.find(r => r.name === input.name && r.type === input.type);
-      
-      if (!existingRecord) {
+      this.context.guardrails.checkZone(client, input.zoneName);
+
+      // Resolve the existing record and build the replacement
+      const plan = await planChange(client, input.zoneName, [{
+        action: 'update',
+        name: input.name,
+        type: input.type,
+        ttl: input.ttl || undefined,
+        ...(input.routingPolicy
+          ? { routingPolicy: resolveRoutingPolicy(input.routingPolicy, client) }
+          : { rrdatas: input.rrdatas })
+      }]);
+
+      if (plan.valid) {
+        await this.context.guardrails.checkChange(client, input.zoneName, plan.change, { dryRun: input.dryRun });
+      }
+
+      if (input.dryRun) {
         return {
-          content: [{ type: "text", text: `Record '${input.name}' of type '${input.type}' not found in zone '${input.zoneName}'` }],
-          isError: true
+          content: [{ type: "text", text: await previewChange(client, input.zoneName, plan) }]
         };
       }
 
-      const newRecordData = {
-        name: input.name,
-        type: input.type,
-        ttl: input.ttl,
-        rrdatas: input.rrdatas
-      };
+      if (!plan.valid) {
+        return {
+          content: [{ type: "text", text: plan.operations[0].error! }],
+          isError: true
+        };
+      }
 
-      const change = await this.context.client.updateRecord(input.zoneName, existingRecord, newRecordData);
+      const updatedRecord = plan.operations[0].after!;
+      const change = await client.applyChange(input.zoneName, plan.change);
       
-      // Wait for the change to complete
-      const completedChange = await this.context.client.waitForChange(input.zoneName, change.id!);
+      // Wait for the change to complete unless the caller opted out
+      const completedChange = await settleChange(client, input.zoneName, change, input.wait, context);
       
       const content = `✅ Successfully updated DNS record:\n\n` +
-        `Name: ${input.name}\n` +
-        `Type: ${input.type}\n` +
-        `TTL: ${input.ttl || existingRecord.ttl}\n` +
-        `Data: ${input.rrdatas.join(', ')}\n` +
+        `Name: ${updatedRecord.name}\n` +
+        `Type: ${updatedRecord.type}\n` +
+        `TTL: ${updatedRecord.ttl}\n` +
+        formatRecordData(updatedRecord) +
+        formatNormalized(plan.operations[0].normalized) +
         `Change ID: ${change.id}\n` +
         `Status: ${completedChange.status}\n` +
-        `Started: ${completedChange.startTime ? new Date(completedChange.startTime).toLocaleString() : 'Unknown'}`;
+        `Started: ${completedChange.startTime ? new Date(completedChange.startTime).toLocaleString() : 'Unknown'}` +
+        formatPendingNote(completedChange);
 
       return {
         content: [{ type: "text", text: content }]
       };
-    } catch (error: any) {
-      return {
-        content: [{ type: "text", text: `Error updating DNS record: ${error.message}` }],
-        isError: true
-      };
+    } catch (error) {
+      return errorResult("Error updating DNS record", error);
     }
   }
 }
@@ -410,6 +1302,7 @@ export class UpdateDNSRecordTool extends Tool {
 export class DeleteDNSRecordTool extends Tool {
   name = "gcloud_dns_delete_record";
   description = "Delete a DNS record from a managed zone";
+  annotations = { readOnlyHint: false, destructiveHint: true, idempotentHint: true };
 
   constructor(private context: DomainsToolsContext) {
     super();
@@ -419,17 +1312,29 @@ export class DeleteDNSRecordTool extends Tool {
     return {
       type: "object",
       properties: {
+        projectId: PROJECT_ID_SCHEMA,
         zoneName: {
           type: "string",
           description: "Name of the managed zone"
         },
         name: {
           type: "string",
-          description: "Record name to delete"
+          description: "Record name to delete: '@', relative to the zone (www) or absolute (www.example.com.)"
         },
         type: {
           type: "string",
           description: "Record type"
+        },
+        dryRun: {
+          type: "boolean",
+          description: "Preview the change (body, diff against current records and conflicts) without submitting it",
+          default: false
+        },
+        confirm: CONFIRM_SCHEMA,
+        wait: {
+          type: "boolean",
+          description: "Wait for the change to finish propagating before returning. With false, return the change ID immediately and track it with gcloud_dns_wait_for_change",
+          default: true
         }
       },
       required: ["zoneName", "name", "type"]
@@ -440,8 +1345,14 @@ export class DeleteDNSRecordTool extends Tool {
     zoneName: string;
     name: string;
     type: string;
-  }>): Promise<ToolResult> {
+    dryRun?: boolean;
+    wait?: boolean;
+    confirm?: string;
+    projectId?: string;
+  }>, context?: ToolContext): Promise<ToolResult> {
     try {
+      const client = this.context.client.forProject(input.projectId);
+
       if (!input.zoneName || typeof input.zoneName !== 'string') {
         return {
           content: [{ type: "text", text: "zoneName parameter must be a string" }],
@@ -449,47 +1360,53 @@ export class DeleteDNSRecordTool extends Tool {
         };
       }
 
-      // First, get the existing record
-      const records = await this.context.client.listRecords(input.zoneName, input.type, input.name);
-      const recordToDelete = records.find(r => r.name === input.name && r.type === input.type);
-      
-      if (!recordToDelete) {
+      this.context.guardrails.checkZone(client, input.zoneName);
+
+      // NS and SOA deletions are rejected before any lookup; anything else resolves the existing record
+      const plan = await planChange(client, input.zoneName, [{
+        action: 'delete',
+        name: input.name,
+        type: input.type
+      }]);
+
+      if (plan.valid) {
+        await this.context.guardrails.checkChange(client, input.zoneName, plan.change, { dryRun: input.dryRun, confirm: input.confirm });
+      }
+
+      if (input.dryRun) {
         return {
-          content: [{ type: "text", text: `Record '${input.name}' of type '${input.type}' not found in zone '${input.zoneName}'` }],
-          isError: true
+          content: [{ type: "text", text: await previewChange(client, input.zoneName, plan) }]
         };
       }
 
-      // Don't allow deletion of NS or SOA records
-      if (input.type === 'NS' || input.type === 'SOA') {
+      if (!plan.valid) {
         return {
-          content: [{ type: "text", text: `Cannot delete ${input.type} records as they are required for proper DNS functioning` }],
+          content: [{ type: "text", text: plan.operations[0].error! }],
           isError: true
         };
       }
 
-      const change = await this.context.client.deleteRecord(input.zoneName, recordToDelete);
+      const recordToDelete = plan.operations[0].before!;
+      const change = await client.applyChange(input.zoneName, plan.change);
       
-      // Wait for the change to complete
-      const completedChange = await this.context.client.waitForChange(input.zoneName, change.id!);
+      // Wait for the change to complete unless the caller opted out
+      const completedChange = await settleChange(client, input.zoneName, change, input.wait, context);
       
       const content = `✅ Successfully deleted DNS record:\n\n` +
         `Name: ${input.name}\n` +
         `Type: ${input.type}\n` +
         `TTL: ${recordToDelete.ttl}\n` +
-        `Data: ${recordToDelete.rrdatas?.join(', ')}\n` +
+        formatRecordData(recordToDelete) +
         `Change ID: ${change.id}\n` +
         `Status: ${completedChange.status}\n` +
-        `Started: ${completedChange.startTime ? new Date(completedChange.startTime).toLocaleString() : 'Unknown'}`;
+        `Started: ${completedChange.startTime ? new Date(completedChange.startTime).toLocaleString() : 'Unknown'}` +
+        formatPendingNote(completedChange);
 
       return {
         content: [{ type: "text", text: content }]
       };
-    } catch (error: any) {
-      return {
-        content: [{ type: "text", text: `Error deleting DNS record: ${error.message}` }],
-        isError: true
-      };
+    } catch (error) {
+      return errorResult("Error deleting DNS record", error);
     }
   }
 }
@@ -497,12 +1414,16 @@ export class DeleteDNSRecordTool extends Tool {
 /**
  * Create and export all domain tools for Google Cloud DNS
  */
-export function createDomainTools(client: GoogleCloudDNSClient): Tool[] {
-  const context = { client };
+export function createDomainTools(client: GoogleCloudDNSClient, guardrails: Guardrails = new Guardrails()): Tool[] {
+  const context = { client, guardrails };
   
   return [
     new ListManagedZonesTool(context),
+    new ListProjectsZonesTool(context),
     new GetManagedZoneTool(context),
+    new CreateManagedZoneTool(context),
+    new UpdateManagedZoneTool(context),
+    new DeleteManagedZoneTool(context),
     new ListDNSRecordsTool(context),
     new CreateDNSRecordTool(context),
     new UpdateDNSRecordTool(context),
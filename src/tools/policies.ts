@@ -0,0 +1,472 @@
+import { Tool, ToolInput, ToolResult } from "../lib/mcp-core.js";
+import { GoogleCloudDNSClient } from "../lib/client.js";
+import { errorResult } from "../lib/errors.js";
+import { Guardrails } from "../lib/guardrails.js";
+import { CONFIRM_SCHEMA, PROJECT_ID_SCHEMA } from "../lib/schemas.js";
+import {
+  ForwardingTargetInput,
+  formatForwardingTarget,
+  formatNextPage,
+  shortNetworkName,
+  toTargetNameServers,
+  validateForwardingTargets,
+  validateNetworks,
+  validatePagination,
+  validateResourceName
+} from "../lib/tool-helpers.js";
+import { Policy } from "../types/index.js";
+
+interface PoliciesToolsContext {
+  client: GoogleCloudDNSClient;
+  guardrails: Guardrails;
+}
+
+type PolicySettingsInput = {
+  description?: string;
+  networks?: string[];
+  enableInboundForwarding?: boolean;
+  enableLogging?: boolean;
+  alternativeNameServers?: ForwardingTargetInput[];
+};
+
+function formatPolicy(policy: Policy): string {
+  const networks = policy.networks?.map(n => shortNetworkName(n.networkUrl)) || [];
+  const targets = policy.alternativeNameServerConfig?.targetNameServers || [];
+
+  return `• ${policy.name}\n` +
+    `  - Description: ${policy.description || 'No description'}\n` +
+    `  - Networks: ${networks.join(', ') || 'None'}\n` +
+    `  - Inbound forwarding: ${policy.enableInboundForwarding ? 'Enabled' : 'Disabled'}\n` +
+    `  - Query logging: ${policy.enableLogging ? 'Enabled' : 'Disabled'}\n` +
+    `  - Alternative name servers: ${targets.map(formatForwardingTarget).join(', ') || 'None (Cloud DNS)'}\n`;
+}
+
+/**
+ * Validate the settings shared by the create and update tools
+ */
+function validatePolicySettings(input: {
+  networks?: unknown;
+  enableInboundForwarding?: unknown;
+  enableLogging?: unknown;
+  alternativeNameServers?: unknown;
+}): ToolResult | undefined {
+  const networksError = validateNetworks(input.networks);
+  if (networksError) {
+    return networksError;
+  }
+
+  for (const flag of ['enableInboundForwarding', 'enableLogging'] as const) {
+    if (input[flag] !== undefined && typeof input[flag] !== 'boolean') {
+      return {
+        content: [{ type: "text", text: `${flag} parameter must be a boolean` }],
+        isError: true
+      };
+    }
+  }
+
+  // An empty list is allowed: it switches the networks back to Cloud DNS resolution
+  if (Array.isArray(input.alternativeNameServers) && input.alternativeNameServers.length === 0) {
+    return undefined;
+  }
+  if (input.alternativeNameServers !== undefined) {
+    return validateForwardingTargets(input.alternativeNameServers, 'alternativeNameServers');
+  }
+
+  return undefined;
+}
+
+/**
+ * Apply the given settings on top of a policy body
+ */
+function applyPolicySettings(policy: Policy, input: PolicySettingsInput, client: GoogleCloudDNSClient): Policy {
+  return {
+    ...policy,
+    ...(input.description !== undefined ? { description: input.description } : {}),
+    ...(input.enableInboundForwarding !== undefined ? { enableInboundForwarding: input.enableInboundForwarding } : {}),
+    ...(input.enableLogging !== undefined ? { enableLogging: input.enableLogging } : {}),
+    ...(input.networks !== undefined ? { networks: input.networks.map(network => ({ networkUrl: client.resolveNetworkUrl(network) })) } : {}),
+    ...(input.alternativeNameServers !== undefined ? {
+      alternativeNameServerConfig: { targetNameServers: toTargetNameServers(input.alternativeNameServers) }
+    } : {})
+  };
+}
+
+/**
+ * A VPC network can only have one server policy: report networks another policy already uses
+ */
+async function findNetworkConflicts(client: GoogleCloudDNSClient, policy: Policy): Promise<string[]> {
+  const wanted = new Set(policy.networks?.map(n => shortNetworkName(n.networkUrl)) || []);
+  if (wanted.size === 0) {
+    return [];
+  }
+
+  const conflicts: string[] = [];
+  for await (const other of client.iteratePolicies()) {
+    if (other.name === policy.name) {
+      continue;
+    }
+    for (const network of other.networks || []) {
+      const name = shortNetworkName(network.networkUrl);
+      if (wanted.has(name)) {
+        conflicts.push(`network ${name} already uses server policy '${other.name}'`);
+      }
+    }
+  }
+  return conflicts;
+}
+
+function conflictResult(policyName: string, conflicts: string[]): ToolResult {
+  return {
+    content: [{
+      type: "text",
+      text: `Cannot attach DNS policy '${policyName}': ${conflicts.join('; ')}. ` +
+        `A network can only have one server policy; detach it from the other policy first with gcloud_dns_update_policy.`
+    }],
+    isError: true
+  };
+}
+
+const SETTINGS_SCHEMA = {
+  description: {
+    type: "string",
+    description: "Human-readable description of the policy"
+  },
+  enableInboundForwarding: {
+    type: "boolean",
+    description: "Allocate inbound forwarder addresses in each attached network so on-prem resolvers can query Cloud DNS (private zones) over VPN or Interconnect"
+  },
+  enableLogging: {
+    type: "boolean",
+    description: "Log DNS queries from VMs in the attached networks to Cloud Logging"
+  },
+  alternativeNameServers: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        address: { type: "string", description: "IPv4 or IPv6 address of the name server" },
+        forwardingPath: { type: "string", enum: ["default", "private"], description: "Use 'private' to always route through the VPC (e.g., to on-prem resolvers over VPN/Interconnect)" }
+      },
+      required: ["address"]
+    },
+    description: "Send all queries from the attached networks to these name servers instead of Cloud DNS. Private zones, forwarding zones and response policies are bypassed."
+  }
+} as const;
+
+/**
+ * List DNS server policies
+ */
+export class ListPoliciesTool extends Tool {
+  name = "gcloud_dns_list_policies";
+  description = "List DNS server policies in the Google Cloud project with their networks, inbound forwarding, logging and alternative name servers";
+  annotations = { readOnlyHint: true };
+
+  constructor(private context: PoliciesToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        maxResults: {
+          type: "number",
+          description: "Maximum number of policies to return in one page. When maxResults or pageToken is set, only a single page is returned; otherwise all policies are listed."
+        },
+        pageToken: {
+          type: "string",
+          description: "Page token returned by a previous call to continue listing"
+        }
+      }
+    } as const;
+  }
+
+  async execute(input: ToolInput<{ maxResults?: number; pageToken?: string; projectId?: string }>): Promise<ToolResult> {
+    try {
+      const client = this.context.client.forProject(input.projectId);
+
+      const paginationError = validatePagination(input);
+      if (paginationError) {
+        return paginationError;
+      }
+
+      const paged = input.maxResults !== undefined || input.pageToken !== undefined;
+      const { items: policies, nextPageToken } = paged
+        ? await client.listPoliciesPage({ maxResults: input.maxResults, pageToken: input.pageToken })
+        : { items: await client.listPolicies(), nextPageToken: undefined };
+
+      if (policies.length === 0 && !nextPageToken) {
+        return {
+          content: [{ type: "text", text: "No DNS server policies found in this project." }]
+        };
+      }
+
+      const content = `Found ${policies.length} DNS server policies${paged ? ' in this page' : ''}:\n\n` +
+        policies.map(formatPolicy).join('\n') +
+        formatNextPage(nextPageToken);
+
+      return {
+        content: [{ type: "text", text: content }]
+      };
+    } catch (error) {
+      return errorResult("Error listing DNS policies", error);
+    }
+  }
+}
+
+/**
+ * Create a DNS server policy
+ */
+export class CreatePolicyTool extends Tool {
+  name = "gcloud_dns_create_policy";
+  description = "Create a DNS server policy for VPC networks: enable inbound forwarding from on-prem, query logging or alternative name servers";
+  annotations = { readOnlyHint: false, destructiveHint: false, idempotentHint: false };
+
+  constructor(private context: PoliciesToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        policyName: {
+          type: "string",
+          description: "Name of the policy (lowercase letters, digits and dashes)"
+        },
+        networks: {
+          type: "array",
+          items: { type: "string" },
+          description: "VPC networks the policy applies to: names in this project (e.g., default), project/network pairs or full network URLs. A network can only have one server policy."
+        },
+        ...SETTINGS_SCHEMA,
+        dryRun: {
+          type: "boolean",
+          description: "Preview the request that would be sent without submitting it",
+          default: false
+        }
+      },
+      required: ["policyName"]
+    } as const;
+  }
+
+  async execute(input: ToolInput<PolicySettingsInput & { policyName: string; dryRun?: boolean; projectId?: string }>): Promise<ToolResult> {
+    try {
+      const client = this.context.client.forProject(input.projectId);
+
+      const validationError = validateResourceName('policyName', input.policyName) || validatePolicySettings(input);
+      if (validationError) {
+        return validationError;
+      }
+
+      const policy = applyPolicySettings({
+        name: input.policyName,
+        description: '',
+        enableInboundForwarding: false,
+        enableLogging: false
+      }, input, client);
+
+      const conflicts = await findNetworkConflicts(client, policy);
+      if (conflicts.length > 0) {
+        return conflictResult(input.policyName, conflicts);
+      }
+
+      if (input.dryRun) {
+        return {
+          content: [{
+            type: "text",
+            text: `🔍 Dry run: no changes were submitted.\n\n` +
+              `Request body for POST policies:\n${JSON.stringify(policy, null, 2)}`
+          }]
+        };
+      }
+
+      const created = await client.createPolicy(policy);
+
+      return {
+        content: [{ type: "text", text: `✅ Successfully created DNS policy:\n\n${formatPolicy(created)}` }]
+      };
+    } catch (error) {
+      return errorResult("Error creating DNS policy", error);
+    }
+  }
+}
+
+/**
+ * Update a DNS server policy's settings or networks
+ */
+export class UpdatePolicyTool extends Tool {
+  name = "gcloud_dns_update_policy";
+  description = "Update a DNS server policy: toggle inbound forwarding or logging, change alternative name servers, or attach and detach VPC networks";
+  annotations = { readOnlyHint: false, destructiveHint: true, idempotentHint: true };
+
+  constructor(private context: PoliciesToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        policyName: {
+          type: "string",
+          description: "Name of the policy"
+        },
+        networks: {
+          type: "array",
+          items: { type: "string" },
+          description: "Complete list of networks the policy applies to (replaces the current list; [] detaches all networks)"
+        },
+        ...SETTINGS_SCHEMA,
+        alternativeNameServers: {
+          ...SETTINGS_SCHEMA.alternativeNameServers,
+          description: `${SETTINGS_SCHEMA.alternativeNameServers.description} Replaces the current list; [] goes back to Cloud DNS resolution.`
+        },
+        dryRun: {
+          type: "boolean",
+          description: "Preview the update against the current policy without submitting it",
+          default: false
+        }
+      },
+      required: ["policyName"]
+    } as const;
+  }
+
+  async execute(input: ToolInput<PolicySettingsInput & { policyName: string; dryRun?: boolean; projectId?: string }>): Promise<ToolResult> {
+    try {
+      const client = this.context.client.forProject(input.projectId);
+
+      const validationError = validateResourceName('policyName', input.policyName) || validatePolicySettings(input);
+      if (validationError) {
+        return validationError;
+      }
+
+      const settings = ['description', 'networks', 'enableInboundForwarding', 'enableLogging', 'alternativeNameServers'] as const;
+      if (settings.every(setting => input[setting] === undefined)) {
+        return {
+          content: [{ type: "text", text: `Nothing to update: provide ${settings.join(', ')}` }],
+          isError: true
+        };
+      }
+
+      const current = await client.getPolicy(input.policyName);
+      const updated = applyPolicySettings(current, input, client);
+
+      if (input.networks !== undefined) {
+        const conflicts = await findNetworkConflicts(client, updated);
+        if (conflicts.length > 0) {
+          return conflictResult(input.policyName, conflicts);
+        }
+      }
+
+      if (input.dryRun) {
+        return {
+          content: [{
+            type: "text",
+            text: `🔍 Dry run: no changes were submitted.\n\n` +
+              `Current:\n${formatPolicy(current)}\nAfter update:\n${formatPolicy(updated)}\n` +
+              `Request body for PUT policies/${input.policyName}:\n${JSON.stringify(updated, null, 2)}`
+          }]
+        };
+      }
+
+      const result = await client.updatePolicy(input.policyName, updated);
+
+      return {
+        content: [{ type: "text", text: `✅ Successfully updated DNS policy:\n\n${formatPolicy(result)}` }]
+      };
+    } catch (error) {
+      return errorResult("Error updating DNS policy", error);
+    }
+  }
+}
+
+/**
+ * Delete a DNS server policy that is not attached to any network
+ */
+export class DeletePolicyTool extends Tool {
+  name = "gcloud_dns_delete_policy";
+  description = "Delete a DNS server policy. It must be detached from all networks first.";
+  annotations = { readOnlyHint: false, destructiveHint: true, idempotentHint: true };
+
+  constructor(private context: PoliciesToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        policyName: {
+          type: "string",
+          description: "Name of the policy to delete"
+        },
+        dryRun: {
+          type: "boolean",
+          description: "Check whether the policy can be deleted without deleting it",
+          default: false
+        },
+        confirm: CONFIRM_SCHEMA
+      },
+      required: ["policyName"]
+    } as const;
+  }
+
+  async execute(input: ToolInput<{ policyName: string; dryRun?: boolean; confirm?: string; projectId?: string }>): Promise<ToolResult> {
+    try {
+      const client = this.context.client.forProject(input.projectId);
+
+      const nameError = validateResourceName('policyName', input.policyName);
+      if (nameError) {
+        return nameError;
+      }
+
+      const policy = await client.getPolicy(input.policyName);
+      if (policy.networks?.length) {
+        return {
+          content: [{
+            type: "text",
+            text: `Cannot delete DNS policy '${input.policyName}': it is still attached to ` +
+              `${policy.networks.map(n => shortNetworkName(n.networkUrl)).join(', ')}. ` +
+              `Detach it first with gcloud_dns_update_policy and networks: [].`
+          }],
+          isError: true
+        };
+      }
+
+      if (input.dryRun) {
+        return {
+          content: [{ type: "text", text: `🔍 Dry run: no changes were submitted.\n\nDNS policy '${input.policyName}' is not attached to any network and can be deleted.` }]
+        };
+      }
+
+      this.context.guardrails.confirm('delete_policy', { project: client.projectId, policy: input.policyName }, input.confirm, `Deleting DNS policy '${input.policyName}'`);
+
+      await client.deletePolicy(input.policyName);
+
+      return {
+        content: [{ type: "text", text: `✅ Successfully deleted DNS policy '${input.policyName}'` }]
+      };
+    } catch (error) {
+      return errorResult("Error deleting DNS policy", error);
+    }
+  }
+}
+
+/**
+ * Create and export all DNS server policy tools for Google Cloud DNS
+ */
+export function createPolicyTools(client: GoogleCloudDNSClient, guardrails: Guardrails = new Guardrails()): Tool[] {
+  const context = { client, guardrails };
+
+  return [
+    new ListPoliciesTool(context),
+    new CreatePolicyTool(context),
+    new UpdatePolicyTool(context),
+    new DeletePolicyTool(context)
+  ];
+}
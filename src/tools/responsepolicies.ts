@@ -0,0 +1,792 @@
+import { Tool, ToolInput, ToolResult } from "../lib/mcp-core.js";
+import { GoogleCloudDNSClient } from "../lib/client.js";
+import { errorResult } from "../lib/errors.js";
+import { Guardrails } from "../lib/guardrails.js";
+import { normalizeName } from "../lib/names.js";
+import { formatFieldErrors, validateRecord } from "../lib/validation.js";
+import { CONFIRM_SCHEMA, PROJECT_ID_SCHEMA } from "../lib/schemas.js";
+import { formatNextPage, isToolResult, shortNetworkName, validateNetworks, validatePagination, validateResourceName } from "../lib/tool-helpers.js";
+import { ResourceRecordSet, ResponsePolicy, ResponsePolicyRule } from "../types/index.js";
+
+interface ResponsePoliciesToolsContext {
+  client: GoogleCloudDNSClient;
+  guardrails: Guardrails;
+}
+
+const DEFAULT_TTL = 300;
+
+interface LocalDataInput {
+  type: string;
+  ttl?: number;
+  rrdatas: string[];
+}
+
+type RuleAction = 'localData' | 'passthru';
+
+function formatPolicy(policy: ResponsePolicy): string {
+  const networks = policy.networks?.map(n => shortNetworkName(n.networkUrl)) || [];
+  const clusters = policy.gkeClusters?.map(c => c.gkeClusterName) || [];
+  const labels = Object.entries(policy.labels || {}).map(([key, value]) => `${key}=${value}`);
+
+  return `• ${policy.responsePolicyName}\n` +
+    `  - Description: ${policy.description || 'No description'}\n` +
+    `  - Networks: ${networks.join(', ') || 'None'}\n` +
+    (clusters.length > 0 ? `  - GKE clusters: ${clusters.join(', ')}\n` : '') +
+    (labels.length > 0 ? `  - Labels: ${labels.join(', ')}\n` : '');
+}
+
+function formatRule(rule: ResponsePolicyRule): string {
+  const answer = rule.behavior === 'bypassResponsePolicy'
+    ? 'passthru (normal resolution)'
+    : `local data:\n${(rule.localData?.localDatas || [])
+        .map(record => `    ${record.type} ${record.ttl} ${record.rrdatas?.join(' | ')}`)
+        .join('\n') || '    None'}`;
+
+  return `• ${rule.ruleName}: ${rule.dnsName} → ${answer}`;
+}
+
+/**
+ * Validate a rule's action and local data, returning the rule body or an error
+ */
+function buildRule(ruleName: string, dnsName: string, action: RuleAction, localData?: LocalDataInput[]): ResponsePolicyRule | ToolResult {
+  if (action === 'passthru') {
+    if (localData?.length) {
+      return {
+        content: [{ type: "text", text: "localData cannot be combined with action 'passthru'" }],
+        isError: true
+      };
+    }
+    return { ruleName, dnsName, behavior: 'bypassResponsePolicy' };
+  }
+
+  if (!Array.isArray(localData) || localData.length === 0) {
+    return {
+      content: [{ type: "text", text: "localData must be a non-empty array of { type, ttl, rrdatas } when action is 'localData'" }],
+      isError: true
+    };
+  }
+
+  const errors: string[] = [];
+  const localDatas: ResourceRecordSet[] = localData.map((record, index) => {
+    if (!record || typeof record.type !== 'string' || !Array.isArray(record.rrdatas) || record.rrdatas.length === 0) {
+      errors.push(`localData[${index}]: type and a non-empty rrdatas array are required`);
+      return {};
+    }
+    const type = record.type.toUpperCase();
+    const validation = validateRecord(dnsName, type, record.rrdatas);
+    if (validation.errors.length > 0) {
+      errors.push(`localData[${index}] (${type}): ${formatFieldErrors(validation.errors)}`);
+    }
+    return { name: dnsName, type, ttl: record.ttl ?? DEFAULT_TTL, rrdatas: validation.rrdatas };
+  });
+
+  if (errors.length > 0) {
+    return {
+      content: [{ type: "text", text: `Invalid local data:\n${errors.map(e => `  - ${e}`).join('\n')}` }],
+      isError: true
+    };
+  }
+
+  return { ruleName, dnsName, localData: { localDatas } };
+}
+
+const LOCAL_DATA_SCHEMA = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      type: { type: "string", description: "Record type (e.g., A, AAAA, CNAME, TXT)" },
+      ttl: { type: "number", description: "Time to live in seconds (defaults to 300)" },
+      rrdatas: { type: "array", items: { type: "string" }, description: "Record data values" }
+    },
+    required: ["type", "rrdatas"]
+  },
+  description: "Records to answer with when action is 'localData' (e.g., a sinkhole A record or an internal override); their name is the rule's dnsName"
+} as const;
+
+/**
+ * List response policies
+ */
+export class ListResponsePoliciesTool extends Tool {
+  name = "gcloud_dns_list_response_policies";
+  description = "List DNS response policies (DNS firewall) in the Google Cloud project and the networks they apply to";
+  annotations = { readOnlyHint: true };
+
+  constructor(private context: ResponsePoliciesToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        maxResults: {
+          type: "number",
+          description: "Maximum number of policies to return in one page. When maxResults or pageToken is set, only a single page is returned; otherwise all policies are listed."
+        },
+        pageToken: {
+          type: "string",
+          description: "Page token returned by a previous call to continue listing"
+        }
+      }
+    } as const;
+  }
+
+  async execute(input: ToolInput<{ maxResults?: number; pageToken?: string; projectId?: string }>): Promise<ToolResult> {
+    try {
+      const client = this.context.client.forProject(input.projectId);
+
+      const paginationError = validatePagination(input);
+      if (paginationError) {
+        return paginationError;
+      }
+
+      const paged = input.maxResults !== undefined || input.pageToken !== undefined;
+      const { items: policies, nextPageToken } = paged
+        ? await client.listResponsePoliciesPage({ maxResults: input.maxResults, pageToken: input.pageToken })
+        : { items: await client.listResponsePolicies(), nextPageToken: undefined };
+
+      if (policies.length === 0 && !nextPageToken) {
+        return {
+          content: [{ type: "text", text: "No response policies found in this project." }]
+        };
+      }
+
+      const content = `Found ${policies.length} response policies${paged ? ' in this page' : ''}:\n\n` +
+        policies.map(formatPolicy).join('\n') +
+        formatNextPage(nextPageToken);
+
+      return {
+        content: [{ type: "text", text: content }]
+      };
+    } catch (error) {
+      return errorResult("Error listing response policies", error);
+    }
+  }
+}
+
+/**
+ * Create a response policy
+ */
+export class CreateResponsePolicyTool extends Tool {
+  name = "gcloud_dns_create_response_policy";
+  description = "Create a DNS response policy and attach it to VPC networks";
+  annotations = { readOnlyHint: false, destructiveHint: false, idempotentHint: false };
+
+  constructor(private context: ResponsePoliciesToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        policyName: {
+          type: "string",
+          description: "Name of the response policy (lowercase letters, digits and dashes)"
+        },
+        description: {
+          type: "string",
+          description: "Human-readable description of the policy"
+        },
+        networks: {
+          type: "array",
+          items: { type: "string" },
+          description: "VPC networks the policy applies to: names in this project (e.g., default), project/network pairs or full network URLs"
+        },
+        labels: {
+          type: "object",
+          additionalProperties: { type: "string" },
+          description: "Labels to attach to the policy"
+        },
+        dryRun: {
+          type: "boolean",
+          description: "Preview the request that would be sent without submitting it",
+          default: false
+        }
+      },
+      required: ["policyName"]
+    } as const;
+  }
+
+  async execute(input: ToolInput<{
+    policyName: string;
+    description?: string;
+    networks?: string[];
+    labels?: Record<string, string>;
+    dryRun?: boolean;
+    projectId?: string;
+  }>): Promise<ToolResult> {
+    try {
+      const client = this.context.client.forProject(input.projectId);
+
+      const nameError = validateResourceName('policyName', input.policyName) || validateNetworks(input.networks);
+      if (nameError) {
+        return nameError;
+      }
+
+      const policy: ResponsePolicy = {
+        responsePolicyName: input.policyName,
+        description: input.description || '',
+        ...(input.networks ? { networks: input.networks.map(network => ({ networkUrl: client.resolveNetworkUrl(network) })) } : {}),
+        ...(input.labels ? { labels: input.labels } : {})
+      };
+
+      if (input.dryRun) {
+        return {
+          content: [{
+            type: "text",
+            text: `🔍 Dry run: no changes were submitted.\n\n` +
+              `Request body for POST responsePolicies:\n${JSON.stringify(policy, null, 2)}`
+          }]
+        };
+      }
+
+      const created = await client.createResponsePolicy(policy);
+
+      return {
+        content: [{ type: "text", text: `✅ Successfully created response policy:\n\n${formatPolicy(created)}\nAdd rules with gcloud_dns_create_response_policy_rule.` }]
+      };
+    } catch (error) {
+      return errorResult("Error creating response policy", error);
+    }
+  }
+}
+
+/**
+ * Update a response policy's description, networks or labels
+ */
+export class UpdateResponsePolicyTool extends Tool {
+  name = "gcloud_dns_update_response_policy";
+  description = "Update a DNS response policy's description or labels, or change the VPC networks it is attached to";
+  annotations = { readOnlyHint: false, destructiveHint: true, idempotentHint: true };
+
+  constructor(private context: ResponsePoliciesToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        policyName: {
+          type: "string",
+          description: "Name of the response policy"
+        },
+        description: {
+          type: "string",
+          description: "New description"
+        },
+        networks: {
+          type: "array",
+          items: { type: "string" },
+          description: "Complete list of networks the policy applies to (replaces the current list; [] detaches all networks)"
+        },
+        labels: {
+          type: "object",
+          additionalProperties: { type: "string" },
+          description: "Labels to set (replaces all existing labels)"
+        },
+        dryRun: {
+          type: "boolean",
+          description: "Preview the update against the current policy without submitting it",
+          default: false
+        }
+      },
+      required: ["policyName"]
+    } as const;
+  }
+
+  async execute(input: ToolInput<{
+    policyName: string;
+    description?: string;
+    networks?: string[];
+    labels?: Record<string, string>;
+    dryRun?: boolean;
+    projectId?: string;
+  }>): Promise<ToolResult> {
+    try {
+      const client = this.context.client.forProject(input.projectId);
+
+      const nameError = validateResourceName('policyName', input.policyName) || validateNetworks(input.networks);
+      if (nameError) {
+        return nameError;
+      }
+
+      if (input.description === undefined && input.networks === undefined && input.labels === undefined) {
+        return {
+          content: [{ type: "text", text: "Nothing to update: provide description, networks or labels" }],
+          isError: true
+        };
+      }
+
+      const current = await client.getResponsePolicy(input.policyName);
+      const updated: ResponsePolicy = {
+        ...current,
+        ...(input.description !== undefined ? { description: input.description } : {}),
+        ...(input.networks !== undefined ? { networks: input.networks.map(network => ({ networkUrl: client.resolveNetworkUrl(network) })) } : {}),
+        ...(input.labels !== undefined ? { labels: input.labels } : {})
+      };
+
+      if (input.dryRun) {
+        return {
+          content: [{
+            type: "text",
+            text: `🔍 Dry run: no changes were submitted.\n\n` +
+              `Current:\n${formatPolicy(current)}\nAfter update:\n${formatPolicy(updated)}\n` +
+              `Request body for PUT responsePolicies/${input.policyName}:\n${JSON.stringify(updated, null, 2)}`
+          }]
+        };
+      }
+
+      const result = await client.updateResponsePolicy(input.policyName, updated);
+
+      return {
+        content: [{ type: "text", text: `✅ Successfully updated response policy:\n\n${formatPolicy(result)}` }]
+      };
+    } catch (error) {
+      return errorResult("Error updating response policy", error);
+    }
+  }
+}
+
+/**
+ * Delete a response policy that has no rules and no networks
+ */
+export class DeleteResponsePolicyTool extends Tool {
+  name = "gcloud_dns_delete_response_policy";
+  description = "Delete a DNS response policy. Its rules must be deleted and its networks detached first.";
+  annotations = { readOnlyHint: false, destructiveHint: true, idempotentHint: true };
+
+  constructor(private context: ResponsePoliciesToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        policyName: {
+          type: "string",
+          description: "Name of the response policy to delete"
+        },
+        dryRun: {
+          type: "boolean",
+          description: "Check whether the policy can be deleted without deleting it",
+          default: false
+        },
+        confirm: CONFIRM_SCHEMA
+      },
+      required: ["policyName"]
+    } as const;
+  }
+
+  async execute(input: ToolInput<{ policyName: string; dryRun?: boolean; confirm?: string; projectId?: string }>): Promise<ToolResult> {
+    try {
+      const client = this.context.client.forProject(input.projectId);
+
+      const nameError = validateResourceName('policyName', input.policyName);
+      if (nameError) {
+        return nameError;
+      }
+
+      const policy = await client.getResponsePolicy(input.policyName);
+      const rules = await client.listResponsePolicyRules(input.policyName);
+
+      const blockers = [
+        ...(rules.length > 0 ? [`it still has ${rules.length} rules (delete them with gcloud_dns_delete_response_policy_rule)`] : []),
+        ...(policy.networks?.length || policy.gkeClusters?.length
+          ? ['it is still attached to networks or clusters (detach them with gcloud_dns_update_response_policy and networks: [])']
+          : []),
+      ];
+
+      if (blockers.length > 0) {
+        return {
+          content: [{ type: "text", text: `Cannot delete response policy '${input.policyName}': ${blockers.join('; ')}` }],
+          isError: true
+        };
+      }
+
+      if (input.dryRun) {
+        return {
+          content: [{ type: "text", text: `🔍 Dry run: no changes were submitted.\n\nResponse policy '${input.policyName}' has no rules or networks and can be deleted.` }]
+        };
+      }
+
+      this.context.guardrails.confirm('delete_response_policy', { project: client.projectId, policy: input.policyName }, input.confirm, `Deleting response policy '${input.policyName}'`);
+
+      await client.deleteResponsePolicy(input.policyName);
+
+      return {
+        content: [{ type: "text", text: `✅ Successfully deleted response policy '${input.policyName}'` }]
+      };
+    } catch (error) {
+      return errorResult("Error deleting response policy", error);
+    }
+  }
+}
+
+/**
+ * List the rules of a response policy
+ */
+export class ListResponsePolicyRulesTool extends Tool {
+  name = "gcloud_dns_list_response_policy_rules";
+  description = "List the rules of a DNS response policy: local data overrides and passthru exceptions";
+  annotations = { readOnlyHint: true };
+
+  constructor(private context: ResponsePoliciesToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        policyName: {
+          type: "string",
+          description: "Name of the response policy"
+        },
+        maxResults: {
+          type: "number",
+          description: "Maximum number of rules to return in one page. When maxResults or pageToken is set, only a single page is returned; otherwise all rules are listed."
+        },
+        pageToken: {
+          type: "string",
+          description: "Page token returned by a previous call to continue listing"
+        }
+      },
+      required: ["policyName"]
+    } as const;
+  }
+
+  async execute(input: ToolInput<{ policyName: string; maxResults?: number; pageToken?: string; projectId?: string }>): Promise<ToolResult> {
+    try {
+      const client = this.context.client.forProject(input.projectId);
+
+      const nameError = validateResourceName('policyName', input.policyName) || validatePagination(input);
+      if (nameError) {
+        return nameError;
+      }
+
+      const paged = input.maxResults !== undefined || input.pageToken !== undefined;
+      const { items: rules, nextPageToken } = paged
+        ? await client.listResponsePolicyRulesPage(input.policyName, { maxResults: input.maxResults, pageToken: input.pageToken })
+        : { items: await client.listResponsePolicyRules(input.policyName), nextPageToken: undefined };
+
+      if (rules.length === 0 && !nextPageToken) {
+        return {
+          content: [{ type: "text", text: `Response policy '${input.policyName}' has no rules.` }]
+        };
+      }
+
+      const content = `Found ${rules.length} rules in response policy '${input.policyName}'${paged ? ' in this page' : ''}:\n\n` +
+        rules.map(formatRule).join('\n') +
+        formatNextPage(nextPageToken);
+
+      return {
+        content: [{ type: "text", text: content }]
+      };
+    } catch (error) {
+      return errorResult("Error listing response policy rules", error);
+    }
+  }
+}
+
+/**
+ * Create a response policy rule
+ */
+export class CreateResponsePolicyRuleTool extends Tool {
+  name = "gcloud_dns_create_response_policy_rule";
+  description = "Add a rule to a DNS response policy that answers a name (or wildcard) with local data, e.g. to block a malicious domain or override an internal name, or lets it pass through";
+  annotations = { readOnlyHint: false, destructiveHint: false, idempotentHint: false };
+
+  constructor(private context: ResponsePoliciesToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        policyName: {
+          type: "string",
+          description: "Name of the response policy"
+        },
+        ruleName: {
+          type: "string",
+          description: "Name of the rule (lowercase letters, digits and dashes)"
+        },
+        dnsName: {
+          type: "string",
+          description: "Name the rule matches, e.g. bad.example.com. or *.bad.example.com. for all subdomains"
+        },
+        action: {
+          type: "string",
+          enum: ["localData", "passthru"],
+          description: "'localData' answers with the given records; 'passthru' exempts the name from broader rules in this policy",
+          default: "localData"
+        },
+        localData: LOCAL_DATA_SCHEMA,
+        dryRun: {
+          type: "boolean",
+          description: "Preview the request that would be sent without submitting it",
+          default: false
+        }
+      },
+      required: ["policyName", "ruleName", "dnsName"]
+    } as const;
+  }
+
+  async execute(input: ToolInput<{
+    policyName: string;
+    ruleName: string;
+    dnsName: string;
+    action?: RuleAction;
+    localData?: LocalDataInput[];
+    dryRun?: boolean;
+    projectId?: string;
+  }>): Promise<ToolResult> {
+    try {
+      const client = this.context.client.forProject(input.projectId);
+
+      const nameError = validateResourceName('policyName', input.policyName) || validateResourceName('ruleName', input.ruleName);
+      if (nameError) {
+        return nameError;
+      }
+
+      if (!input.dnsName || typeof input.dnsName !== 'string') {
+        return {
+          content: [{ type: "text", text: "dnsName parameter must be a string" }],
+          isError: true
+        };
+      }
+
+      const action = input.action || 'localData';
+      if (action !== 'localData' && action !== 'passthru') {
+        return {
+          content: [{ type: "text", text: "action must be 'localData' or 'passthru'" }],
+          isError: true
+        };
+      }
+
+      const rule = buildRule(input.ruleName, normalizeName(input.dnsName), action, input.localData);
+      if (isToolResult(rule)) {
+        return rule;
+      }
+
+      if (input.dryRun) {
+        return {
+          content: [{
+            type: "text",
+            text: `🔍 Dry run: no changes were submitted.\n\n` +
+              `Request body for POST responsePolicies/${input.policyName}/rules:\n${JSON.stringify(rule, null, 2)}`
+          }]
+        };
+      }
+
+      const created = await client.createResponsePolicyRule(input.policyName, rule);
+
+      return {
+        content: [{ type: "text", text: `✅ Successfully created rule in response policy '${input.policyName}':\n\n${formatRule(created)}` }]
+      };
+    } catch (error) {
+      return errorResult("Error creating response policy rule", error);
+    }
+  }
+}
+
+/**
+ * Replace a response policy rule's name, action or local data
+ */
+export class UpdateResponsePolicyRuleTool extends Tool {
+  name = "gcloud_dns_update_response_policy_rule";
+  description = "Update a DNS response policy rule's matched name, action or local data";
+  annotations = { readOnlyHint: false, destructiveHint: true, idempotentHint: true };
+
+  constructor(private context: ResponsePoliciesToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        policyName: {
+          type: "string",
+          description: "Name of the response policy"
+        },
+        ruleName: {
+          type: "string",
+          description: "Name of the rule to update"
+        },
+        dnsName: {
+          type: "string",
+          description: "New name the rule matches (defaults to the current one)"
+        },
+        action: {
+          type: "string",
+          enum: ["localData", "passthru"],
+          description: "New action (defaults to the current one)"
+        },
+        localData: LOCAL_DATA_SCHEMA,
+        dryRun: {
+          type: "boolean",
+          description: "Preview the update against the current rule without submitting it",
+          default: false
+        }
+      },
+      required: ["policyName", "ruleName"]
+    } as const;
+  }
+
+  async execute(input: ToolInput<{
+    policyName: string;
+    ruleName: string;
+    dnsName?: string;
+    action?: RuleAction;
+    localData?: LocalDataInput[];
+    dryRun?: boolean;
+    projectId?: string;
+  }>): Promise<ToolResult> {
+    try {
+      const client = this.context.client.forProject(input.projectId);
+
+      const nameError = validateResourceName('policyName', input.policyName) || validateResourceName('ruleName', input.ruleName);
+      if (nameError) {
+        return nameError;
+      }
+
+      if (input.dnsName === undefined && input.action === undefined && input.localData === undefined) {
+        return {
+          content: [{ type: "text", text: "Nothing to update: provide dnsName, action or localData" }],
+          isError: true
+        };
+      }
+
+      const current = await client.getResponsePolicyRule(input.policyName, input.ruleName);
+      const dnsName = input.dnsName ? normalizeName(input.dnsName) : current.dnsName!;
+      const currentAction: RuleAction = current.behavior === 'bypassResponsePolicy' ? 'passthru' : 'localData';
+      const action = input.action || (input.localData ? 'localData' : currentAction);
+
+      // Keep the current records (renamed if needed) unless new ones are given
+      const localData = input.localData ?? (action === 'localData' && currentAction === 'localData'
+        ? (current.localData?.localDatas || []).map(record => ({ type: record.type!, ttl: record.ttl, rrdatas: record.rrdatas || [] }))
+        : undefined);
+
+      const rule = buildRule(input.ruleName, dnsName, action, localData);
+      if (isToolResult(rule)) {
+        return rule;
+      }
+
+      if (input.dryRun) {
+        return {
+          content: [{
+            type: "text",
+            text: `🔍 Dry run: no changes were submitted.\n\n` +
+              `Current:\n${formatRule(current)}\n\nAfter update:\n${formatRule(rule)}\n\n` +
+              `Request body for PUT responsePolicies/${input.policyName}/rules/${input.ruleName}:\n${JSON.stringify(rule, null, 2)}`
+          }]
+        };
+      }
+
+      const updated = await client.updateResponsePolicyRule(input.policyName, input.ruleName, rule);
+
+      return {
+        content: [{ type: "text", text: `✅ Successfully updated rule in response policy '${input.policyName}':\n\n${formatRule(updated)}` }]
+      };
+    } catch (error) {
+      return errorResult("Error updating response policy rule", error);
+    }
+  }
+}
+
+/**
+ * Delete a response policy rule
+ */
+export class DeleteResponsePolicyRuleTool extends Tool {
+  name = "gcloud_dns_delete_response_policy_rule";
+  description = "Delete a rule from a DNS response policy";
+  annotations = { readOnlyHint: false, destructiveHint: true, idempotentHint: true };
+
+  constructor(private context: ResponsePoliciesToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        policyName: {
+          type: "string",
+          description: "Name of the response policy"
+        },
+        ruleName: {
+          type: "string",
+          description: "Name of the rule to delete"
+        },
+        dryRun: {
+          type: "boolean",
+          description: "Show the rule that would be deleted without deleting it",
+          default: false
+        },
+        confirm: CONFIRM_SCHEMA
+      },
+      required: ["policyName", "ruleName"]
+    } as const;
+  }
+
+  async execute(input: ToolInput<{ policyName: string; ruleName: string; dryRun?: boolean; confirm?: string; projectId?: string }>): Promise<ToolResult> {
+    try {
+      const client = this.context.client.forProject(input.projectId);
+
+      const nameError = validateResourceName('policyName', input.policyName) || validateResourceName('ruleName', input.ruleName);
+      if (nameError) {
+        return nameError;
+      }
+
+      const rule = await client.getResponsePolicyRule(input.policyName, input.ruleName);
+
+      if (input.dryRun) {
+        return {
+          content: [{ type: "text", text: `🔍 Dry run: no changes were submitted.\n\nWould delete:\n${formatRule(rule)}` }]
+        };
+      }
+
+      this.context.guardrails.confirm('delete_response_policy_rule', { project: client.projectId, policy: input.policyName, rule }, input.confirm, `Deleting rule '${input.ruleName}' from response policy '${input.policyName}'`);
+
+      await client.deleteResponsePolicyRule(input.policyName, input.ruleName);
+
+      return {
+        content: [{ type: "text", text: `✅ Successfully deleted rule from response policy '${input.policyName}':\n\n${formatRule(rule)}` }]
+      };
+    } catch (error) {
+      return errorResult("Error deleting response policy rule", error);
+    }
+  }
+}
+
+/**
+ * Create and export all response policy tools for Google Cloud DNS
+ */
+export function createResponsePolicyTools(client: GoogleCloudDNSClient, guardrails: Guardrails = new Guardrails()): Tool[] {
+  const context = { client, guardrails };
+
+  return [
+    new ListResponsePoliciesTool(context),
+    new CreateResponsePolicyTool(context),
+    new UpdateResponsePolicyTool(context),
+    new DeleteResponsePolicyTool(context),
+    new ListResponsePolicyRulesTool(context),
+    new CreateResponsePolicyRuleTool(context),
+    new UpdateResponsePolicyRuleTool(context),
+    new DeleteResponsePolicyRuleTool(context)
+  ];
+}
@@ -0,0 +1,207 @@
+import { Tool, ToolContext, ToolInput, ToolResult } from "../lib/mcp-core.js";
+import { GoogleCloudDNSClient } from "../lib/client.js";
+import { errorResult } from "../lib/errors.js";
+import { Guardrails } from "../lib/guardrails.js";
+import { MAX_RRSETS_PER_CHANGE, formatChangeDiff, previewChange, settleChange, splitChange } from "../lib/changes.js";
+import { parseZoneSpec } from "../lib/spec.js";
+import { planSync } from "../lib/sync.js";
+import { validateRecordSets } from "../lib/validation.js";
+import { CONFIRM_SCHEMA, PROJECT_ID_SCHEMA } from "../lib/schemas.js";
+import { ResourceRecordSet } from "../types/index.js";
+
+interface SyncToolsContext {
+  client: GoogleCloudDNSClient;
+  guardrails: Guardrails;
+}
+
+/**
+ * Reconcile a managed zone with a desired-state document
+ */
+export class SyncZoneTool extends Tool {
+  name = "gcloud_dns_sync_zone";
+  description = "Reconcile a managed zone with a desired-state JSON or YAML spec: plan creates, updates and deletes against the live records and apply them";
+  annotations = { readOnlyHint: false, destructiveHint: true, idempotentHint: true };
+
+  constructor(private context: SyncToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        zoneName: {
+          type: "string",
+          description: "Name of the managed zone"
+        },
+        spec: {
+          type: "string",
+          description: "Desired state as JSON or YAML: { zone?: 'example.com.', ttl?: 300, records: { '<name>': { '<TYPE>': [values] | { ttl, rrdatas } } } }. Names may be '@', relative or fully qualified."
+        },
+        prune: {
+          type: "boolean",
+          description: "Delete live records that are not in the spec (apex NS/SOA are never deleted). With ownerId, only owned records are pruned.",
+          default: false
+        },
+        ownerId: {
+          type: "string",
+          description: "Only manage records marked as owned by this ID in the zone's ownership registry (a TXT record at _mcp-dns-sync.<zone>)"
+        },
+        adopt: {
+          type: "boolean",
+          description: "With ownerId, take ownership of existing unowned records declared in the spec instead of reporting them as conflicts",
+          default: false
+        },
+        dryRun: {
+          type: "boolean",
+          description: "Preview the plan without applying it",
+          default: false
+        },
+        confirm: CONFIRM_SCHEMA,
+        wait: {
+          type: "boolean",
+          description: "Wait for each change to finish propagating before submitting the next. With false, submit all changes and return their IDs immediately; track them with gcloud_dns_wait_for_change",
+          default: true
+        }
+      },
+      required: ["zoneName", "spec"]
+    } as const;
+  }
+
+  async execute(input: ToolInput<{
+    zoneName: string;
+    spec: string;
+    prune?: boolean;
+    ownerId?: string;
+    adopt?: boolean;
+    dryRun?: boolean;
+    wait?: boolean;
+    confirm?: string;
+    projectId?: string;
+  }>, context?: ToolContext): Promise<ToolResult> {
+    try {
+      const client = this.context.client.forProject(input.projectId);
+
+      if (!input.zoneName || typeof input.zoneName !== 'string') {
+        return {
+          content: [{ type: "text", text: "zoneName parameter must be a string" }],
+          isError: true
+        };
+      }
+
+      this.context.guardrails.checkZone(client, input.zoneName);
+
+      if (!input.spec || typeof input.spec !== 'string') {
+        return {
+          content: [{ type: "text", text: "spec parameter must be a JSON or YAML string" }],
+          isError: true
+        };
+      }
+
+      if (input.ownerId !== undefined && (typeof input.ownerId !== 'string' || !/^[A-Za-z0-9._-]+$/.test(input.ownerId))) {
+        return {
+          content: [{ type: "text", text: "ownerId must contain only letters, digits, '.', '_' and '-'" }],
+          isError: true
+        };
+      }
+
+      const zone = await client.getManagedZone(input.zoneName);
+
+      let desired: ResourceRecordSet[];
+      try {
+        desired = parseZoneSpec(input.spec, zone.dnsName!);
+      } catch (specError: any) {
+        return {
+          content: [{ type: "text", text: `Invalid spec: ${specError.message}` }],
+          isError: true
+        };
+      }
+
+      const validation = validateRecordSets(desired, zone.dnsName!);
+      if (validation.errors.length > 0) {
+        return {
+          content: [{ type: "text", text: `Spec contains invalid records:\n${validation.errors.map(e => `• ${e}`).join('\n')}` }],
+          isError: true
+        };
+      }
+      desired = validation.records;
+
+      const current = await client.listRecords(input.zoneName);
+      const { plan, diff, conflicts } = planSync(zone.dnsName!, current, desired, {
+        prune: input.prune,
+        ownerId: input.ownerId,
+        adopt: input.adopt
+      });
+
+      const changes = splitChange(plan, MAX_RRSETS_PER_CHANGE, this.context.guardrails.policy.maxRrsetsPerChange);
+      const summary = `Plan for '${input.zoneName}': ${diff.creates.length} to create, ` +
+        `${diff.updates.length} to update, ${diff.deletes.length} to delete, ${diff.unchanged.length} unchanged` +
+        (changes.length > 1 ? ` (${changes.length} changes)` : '') + '.' +
+        (conflicts.length > 0 ? `\n\nConflicts (skipped):\n${conflicts.map(c => `  ⚠️ ${c}`).join('\n')}` : '');
+
+      await this.context.guardrails.checkChange(client, input.zoneName, plan.change, { dryRun: input.dryRun, confirm: input.confirm, batches: changes });
+
+      if (input.dryRun) {
+        return {
+          content: [{ type: "text", text: `${summary}\n\n${await previewChange(client, input.zoneName, plan)}` }]
+        };
+      }
+
+      if (conflicts.length > 0) {
+        return {
+          content: [{ type: "text", text: `❌ No changes were applied.\n\n${summary}` }],
+          isError: true
+        };
+      }
+
+      if (changes.length === 0) {
+        return {
+          content: [{ type: "text", text: `${summary}\n\nZone '${input.zoneName}' is already in sync.` }]
+        };
+      }
+
+      const applied: string[] = [];
+      let pending = false;
+      for (const change of changes) {
+        try {
+          const submitted = await client.applyChange(input.zoneName, change);
+          const completed = await settleChange(client, input.zoneName, submitted, input.wait, context);
+          applied.push(`${submitted.id} (${completed.status})`);
+          pending = pending || completed.status !== 'done';
+        } catch (changeError) {
+          const result = errorResult(`❌ Sync stopped after ${applied.length} of ${changes.length} changes`, changeError);
+          result.content.push({
+            type: "text",
+            text: (applied.length > 0 ? `Applied change IDs: ${applied.join(', ')}\n\n` : '') +
+              `Re-run the sync to converge the remaining records.`
+          });
+          return result;
+        }
+      }
+
+      const content = `✅ Successfully synced zone '${input.zoneName}':\n\n` +
+        `${summary}\n\n` +
+        `${formatChangeDiff(plan.change)}\n\n` +
+        `Change IDs: ${applied.join(', ')}` +
+        (pending ? '\n\n⏳ Some changes are still pending. Track them with gcloud_dns_wait_for_change or gcloud_dns_get_change.' : '');
+
+      return {
+        content: [{ type: "text", text: content }]
+      };
+    } catch (error) {
+      return errorResult("Error syncing zone", error);
+    }
+  }
+}
+
+/**
+ * Create and export all sync tools for Google Cloud DNS
+ */
+export function createSyncTools(client: GoogleCloudDNSClient, guardrails: Guardrails = new Guardrails()): Tool[] {
+  const context = { client, guardrails };
+
+  return [
+    new SyncZoneTool(context)
+  ];
+}
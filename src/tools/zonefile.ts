@@ -0,0 +1,288 @@
+import { Tool, ToolContext, ToolInput, ToolResult } from "../lib/mcp-core.js";
+import { GoogleCloudDNSClient } from "../lib/client.js";
+import { errorResult } from "../lib/errors.js";
+import { Guardrails } from "../lib/guardrails.js";
+import { MAX_RRSETS_PER_CHANGE, diffRecordSets, formatChangeDiff, formatPendingNote, keepRoutedRecordSets, planFromDiff, previewChange, settleChange, splitChange } from "../lib/changes.js";
+import { parseZoneFile, renderZoneFile } from "../lib/zonefile.js";
+import { isInZone } from "../lib/names.js";
+import { validateRecordSets } from "../lib/validation.js";
+import { CONFIRM_SCHEMA, PROJECT_ID_SCHEMA } from "../lib/schemas.js";
+import { Change, ResourceRecordSet } from "../types/index.js";
+
+interface ZoneFileToolsContext {
+  client: GoogleCloudDNSClient;
+  guardrails: Guardrails;
+}
+
+/**
+ * Export a managed zone as a BIND zone file
+ */
+export class ExportZoneFileTool extends Tool {
+  name = "gcloud_dns_export_zone_file";
+  description = "Export all records of a managed zone as an RFC 1035 (BIND) zone file";
+  annotations = { readOnlyHint: true };
+
+  constructor(private context: ZoneFileToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        zoneName: {
+          type: "string",
+          description: "Name of the managed zone"
+        }
+      },
+      required: ["zoneName"]
+    } as const;
+  }
+
+  async execute(input: ToolInput<{ zoneName: string; projectId?: string }>): Promise<ToolResult> {
+    try {
+      const client = this.context.client.forProject(input.projectId);
+
+      if (!input.zoneName || typeof input.zoneName !== 'string') {
+        return {
+          content: [{ type: "text", text: "zoneName parameter must be a string" }],
+          isError: true
+        };
+      }
+
+      const zone = await client.getManagedZone(input.zoneName);
+      const records = await client.listRecords(input.zoneName);
+
+      // Zone files have no syntax for weighted, geo or failover answers
+      const routed = records.filter(record => record.routingPolicy);
+      const zoneFile = renderZoneFile(zone.dnsName!, records.filter(record => !record.routingPolicy), {
+        header: [
+          `Cloud DNS managed zone '${zone.name}' (${zone.dnsName}), ${records.length} record sets`,
+          ...(routed.length > 0 ? [
+            `Skipped ${routed.length} record sets with routing policies (see gcloud_dns_list_records):`,
+            ...routed.map(record => `  ${record.name} ${record.type}`)
+          ] : [])
+        ]
+      });
+
+      return {
+        content: [{ type: "text", text: zoneFile }]
+      };
+    } catch (error) {
+      return errorResult("Error exporting zone file", error);
+    }
+  }
+}
+
+/**
+ * Import a BIND zone file into a managed zone
+ */
+export class ImportZoneFileTool extends Tool {
+  name = "gcloud_dns_import_zone_file";
+  description = "Import an RFC 1035 (BIND) zone file into a managed zone: parse it, diff it against the live records and apply the difference, in several changes when it exceeds the per-change quota";
+  annotations = { readOnlyHint: false, destructiveHint: true, idempotentHint: true };
+
+  constructor(private context: ZoneFileToolsContext) {
+    super();
+  }
+
+  get inputSchema() {
+    return {
+      type: "object",
+      properties: {
+        projectId: PROJECT_ID_SCHEMA,
+        zoneName: {
+          type: "string",
+          description: "Name of the managed zone"
+        },
+        zoneFile: {
+          type: "string",
+          description: "Zone file contents. $ORIGIN defaults to the zone's DNS name; $INCLUDE is not supported."
+        },
+        mode: {
+          type: "string",
+          enum: ["merge", "replace"],
+          description: "'merge' keeps live records missing from the file; 'replace' deletes them",
+          default: "merge"
+        },
+        skipApexNsSoa: {
+          type: "boolean",
+          description: "Ignore NS and SOA records at the zone apex (they are managed by Cloud DNS)",
+          default: true
+        },
+        dryRun: {
+          type: "boolean",
+          description: "Preview the change (body, diff against current records and conflicts) without submitting it",
+          default: false
+        },
+        confirm: CONFIRM_SCHEMA,
+        wait: {
+          type: "boolean",
+          description: "Wait for the change to finish propagating before returning. With false, return the change ID immediately and track it with gcloud_dns_wait_for_change",
+          default: true
+        }
+      },
+      required: ["zoneName", "zoneFile"]
+    } as const;
+  }
+
+  async execute(input: ToolInput<{
+    zoneName: string;
+    zoneFile: string;
+    mode?: 'merge' | 'replace';
+    skipApexNsSoa?: boolean;
+    dryRun?: boolean;
+    wait?: boolean;
+    confirm?: string;
+    projectId?: string;
+  }>, context?: ToolContext): Promise<ToolResult> {
+    try {
+      const client = this.context.client.forProject(input.projectId);
+
+      if (!input.zoneName || typeof input.zoneName !== 'string') {
+        return {
+          content: [{ type: "text", text: "zoneName parameter must be a string" }],
+          isError: true
+        };
+      }
+
+      this.context.guardrails.checkZone(client, input.zoneName);
+
+      if (!input.zoneFile || typeof input.zoneFile !== 'string') {
+        return {
+          content: [{ type: "text", text: "zoneFile parameter must be a string" }],
+          isError: true
+        };
+      }
+
+      const mode = input.mode || 'merge';
+      if (mode !== 'merge' && mode !== 'replace') {
+        return {
+          content: [{ type: "text", text: "mode must be one of: merge, replace" }],
+          isError: true
+        };
+      }
+
+      const zone = await client.getManagedZone(input.zoneName);
+      const origin = zone.dnsName!.toLowerCase();
+
+      let desired: ResourceRecordSet[];
+      try {
+        desired = parseZoneFile(input.zoneFile, { origin });
+      } catch (parseError: any) {
+        return {
+          content: [{ type: "text", text: `Invalid zone file: ${parseError.message}` }],
+          isError: true
+        };
+      }
+
+      const validation = validateRecordSets(desired, origin);
+      if (validation.errors.length > 0) {
+        return {
+          content: [{ type: "text", text: `Zone file contains invalid records:\n${validation.errors.map(e => `• ${e}`).join('\n')}` }],
+          isError: true
+        };
+      }
+      desired = validation.records;
+
+      const outside = desired.filter(r => !isInZone(r.name!, origin));
+      if (outside.length > 0) {
+        return {
+          content: [{
+            type: "text",
+            text: `Zone file contains records outside ${origin}:\n${outside.map(r => `• ${r.name} (${r.type})`).join('\n')}`
+          }],
+          isError: true
+        };
+      }
+
+      const isApexNsSoa = (record: ResourceRecordSet) =>
+        record.name?.toLowerCase() === origin && (record.type === 'NS' || record.type === 'SOA');
+      const skipApexNsSoa = input.skipApexNsSoa !== false;
+
+      const current = await client.listRecords(input.zoneName);
+      const diff = diffRecordSets(current, desired, {
+        deleteMissing: mode === 'replace',
+        ignore: skipApexNsSoa ? isApexNsSoa : undefined
+      });
+      // The apex NS and SOA can be replaced but never removed, and routing
+      // policies cannot be written in a zone file, so those are kept too
+      diff.deletes = diff.deletes.filter(record => !isApexNsSoa(record));
+      const routed = keepRoutedRecordSets(diff);
+
+      const plan = planFromDiff(diff);
+      const changes = splitChange(plan, MAX_RRSETS_PER_CHANGE, this.context.guardrails.policy.maxRrsetsPerChange);
+      const summary = `Parsed ${desired.length} record sets (${mode} mode): ` +
+        `${diff.creates.length} to create, ${diff.updates.length} to update, ` +
+        `${diff.deletes.length} to delete, ${diff.unchanged.length} unchanged` +
+        (changes.length > 1 ? ` (${changes.length} changes)` : '') + '.' +
+        (routed.length > 0
+          ? `\n\nSkipped ${routed.length} record sets with a routing policy, which a zone file cannot express:\n` +
+            routed.map(r => `• ${r.name} (${r.type})`).join('\n')
+          : '');
+
+      await this.context.guardrails.checkChange(client, input.zoneName, plan.change, { dryRun: input.dryRun, confirm: input.confirm, batches: changes });
+
+      if (input.dryRun) {
+        return {
+          content: [{ type: "text", text: `${summary}\n\n${await previewChange(client, input.zoneName, plan)}` }]
+        };
+      }
+
+      if (changes.length === 0) {
+        return {
+          content: [{ type: "text", text: `${summary}\n\nZone '${input.zoneName}' already matches the zone file; nothing to apply.` }]
+        };
+      }
+
+      // Large imports go in several changes to stay under the per-change quota;
+      // each waits for the previous one unless the caller opted out
+      const applied: Change[] = [];
+      for (const change of changes) {
+        try {
+          const submitted = await client.applyChange(input.zoneName, change);
+          applied.push(await settleChange(client, input.zoneName, submitted, input.wait, context));
+        } catch (changeError) {
+          const result = errorResult(`❌ Import stopped after ${applied.length} of ${changes.length} changes`, changeError);
+          result.content.push({
+            type: "text",
+            text: (applied.length > 0 ? `Applied change IDs: ${applied.map(c => c.id).join(', ')}\n\n` : '') +
+              `Re-run the import to apply the remaining records.`
+          });
+          return result;
+        }
+      }
+
+      const [first] = applied;
+      const content = `✅ Successfully imported zone file into '${input.zoneName}':\n\n` +
+        `${summary}\n\n` +
+        `${formatChangeDiff(plan.change)}\n\n` +
+        (applied.length === 1
+          ? `Change ID: ${first.id}\n` +
+            `Status: ${first.status}\n` +
+            `Started: ${first.startTime ? new Date(first.startTime).toLocaleString() : 'Unknown'}` +
+            formatPendingNote(first)
+          : `Change IDs: ${applied.map(c => `${c.id} (${c.status})`).join(', ')}` +
+            (applied.some(c => c.status !== 'done') ? '\n\n⏳ Some changes are still pending. Track them with gcloud_dns_wait_for_change or gcloud_dns_get_change.' : ''));
+
+      return {
+        content: [{ type: "text", text: content }]
+      };
+    } catch (error) {
+      return errorResult("Error importing zone file", error);
+    }
+  }
+}
+
+/**
+ * Create and export all zone file tools for Google Cloud DNS
+ */
+export function createZoneFileTools(client: GoogleCloudDNSClient, guardrails: Guardrails = new Guardrails()): Tool[] {
+  const context = { client, guardrails };
+
+  return [
+    new ExportZoneFileTool(context),
+    new ImportZoneFileTool(context)
+  ];
+}
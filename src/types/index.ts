@@ -1,6 +1,135 @@
 export interface GoogleCloudConfig {
-  projectId: string;
+  projectId: string; // Default project for tools called without projectId
+  projects?: string[]; // Other projects tools may target with projectId
   credentials?: string; // Path to service account JSON file or JSON string
+  accessToken?: string; // Pre-minted OAuth2 bearer token, takes precedence over credentials
+  tokenUri?: string; // OAuth2 token endpoint (defaults to the key's token_uri, then Google's)
+  apiEndpoint?: string; // Cloud DNS API base URL, up to and including /projects
+  changeWait?: WaitOptions; // Defaults for waiting on submitted changes
+  retry?: RetryOptions; // Retries for rate-limited and failed API requests
+  requestTimeout?: number; // Milliseconds before a single API request is aborted (default 30000)
+  maxConcurrency?: number; // Maximum API requests in flight at once (default 8)
+}
+
+/**
+ * Retry policy for API requests: jittered exponential backoff
+ */
+export interface RetryOptions {
+  maxRetries?: number; // Retries after the first attempt (default 4)
+  baseDelay?: number; // Backoff before the first retry in milliseconds (default 500)
+  maxDelay?: number; // Longest single wait in milliseconds, including Retry-After (default 30000)
+}
+
+/**
+ * How long and how often to poll a pending change
+ */
+export interface WaitOptions {
+  timeout?: number; // Milliseconds before giving up (default 300000)
+  interval?: number; // First poll delay in milliseconds (default 1000)
+  maxInterval?: number; // Upper bound for the poll delay in milliseconds (default 10000)
+  backoff?: number; // Multiplier applied to the delay after each poll (default 1.5)
+}
+
+/**
+ * Guardrails policy file: limits on what mutating tools may do
+ */
+export interface GuardrailsPolicy {
+  readOnlyZones?: string[]; // Zone names, or project/zone to match in one project only
+  protectedRecords?: ProtectedRecordRule[];
+  maxRrsetsPerChange?: number; // Record sets one call may add, update or delete
+  minTtl?: number;
+  maxTtl?: number;
+  requireConfirmation?: boolean; // Destructive operations need a confirmation token
+}
+
+/**
+ * Record sets no tool may add, change or delete
+ */
+export interface ProtectedRecordRule {
+  name: string; // '@', relative or absolute name; '*' matches any characters, dots included
+  types?: string[]; // All types when omitted
+  zones?: string[]; // All zones when omitted; same format as readOnlyZones
+}
+
+/**
+ * One line of the audit log: a mutating tool call and what it changed
+ */
+export interface AuditEntry {
+  timestamp: string; // ISO 8601, when the call started
+  tool: string;
+  arguments: Record<string, unknown>;
+  projectId: string;
+  zoneName?: string;
+  dnsName?: string; // The zone's DNS name, for matching relative record names
+  status: 'succeeded' | 'failed' | 'dryRun';
+  changes: AuditedChange[];
+  error?: { code: string; message: string };
+  durationMs: number;
+}
+
+/**
+ * A Cloud DNS change submitted during an audited call
+ */
+export interface AuditedChange {
+  projectId: string;
+  zoneName: string;
+  changeId?: string;
+  status?: 'pending' | 'done'; // Last status seen; 'pending' if the call did not wait
+  before: ResourceRecordSet[]; // Record sets the change deleted
+  after: ResourceRecordSet[]; // Record sets the change added
+}
+
+export interface ListOptions {
+  maxResults?: number;
+  pageToken?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextPageToken?: string;
+}
+
+export interface ListRecordsOptions extends ListOptions {
+  type?: string;
+  name?: string;
+}
+
+export interface ListChangesOptions extends ListOptions {
+  sortBy?: 'changeSequence';
+  sortOrder?: 'ascending' | 'descending';
+}
+
+export interface PrivateVisibilityConfig {
+  networks?: Array<{
+    networkUrl?: string;
+    kind?: string;
+  }>;
+  gkeClusters?: Array<{
+    gkeClusterName?: string;
+    kind?: string;
+  }>;
+  kind?: string;
+}
+
+export interface ForwardingTargetNameServer {
+  ipv4Address?: string;
+  ipv6Address?: string;
+  forwardingPath?: 'default' | 'private';
+  kind?: string;
+}
+
+export interface ForwardingConfig {
+  targetNameServers?: ForwardingTargetNameServer[];
+  kind?: string;
+}
+
+export interface PeeringConfig {
+  targetNetwork?: {
+    networkUrl?: string;
+    deactivateTime?: string;
+    kind?: string;
+  };
+  kind?: string;
 }
 
 export interface ManagedZone {
@@ -12,17 +141,107 @@ export interface ManagedZone {
   creationTime?: string;
   labels?: { [key: string]: string };
   visibility?: 'public' | 'private';
+  privateVisibilityConfig?: PrivateVisibilityConfig;
+  forwardingConfig?: ForwardingConfig;
+  peeringConfig?: PeeringConfig;
   dnssecConfig?: {
     state?: 'off' | 'on' | 'transfer';
     kind?: string;
     nonExistence?: string;
-    defaultKeySpecs?: Array<{
-      keyType?: 'keySigning' | 'zoneSigning';
-      algorithm?: string;
-      keyLength?: number;
-      kind?: string;
-    }>;
+    defaultKeySpecs?: DnsKeySpec[];
+  };
+}
+
+export type DnssecAlgorithm = 'rsasha1' | 'rsasha256' | 'rsasha512' | 'ecdsap256sha256' | 'ecdsap384sha384';
+
+export interface DnsKeySpec {
+  keyType?: 'keySigning' | 'zoneSigning';
+  algorithm?: DnssecAlgorithm;
+  keyLength?: number;
+  kind?: string;
+}
+
+export interface DnsKeyDigest {
+  type?: 'sha1' | 'sha256' | 'sha384';
+  /** Hex digest of the owner name and DNSKEY rdata, as used in DS records */
+  digest?: string;
+}
+
+export interface DnsKey {
+  id?: string;
+  type?: 'keySigning' | 'zoneSigning';
+  algorithm?: DnssecAlgorithm;
+  keyLength?: number;
+  /** Base64 public key, as in the DNSKEY record */
+  publicKey?: string;
+  keyTag?: number;
+  /** Whether the key currently signs the zone */
+  isActive?: boolean;
+  creationTime?: string;
+  description?: string;
+  digests?: DnsKeyDigest[];
+  kind?: string;
+}
+
+export interface ResponsePolicy {
+  id?: string;
+  responsePolicyName?: string;
+  description?: string;
+  networks?: Array<{
+    networkUrl?: string;
+    kind?: string;
+  }>;
+  gkeClusters?: Array<{
+    gkeClusterName?: string;
+    kind?: string;
+  }>;
+  labels?: { [key: string]: string };
+  kind?: string;
+}
+
+export interface ResponsePolicyRule {
+  ruleName?: string;
+  dnsName?: string;
+  /** Records served instead of the real answer */
+  localData?: {
+    localDatas?: ResourceRecordSet[];
+  };
+  /** 'bypassResponsePolicy' lets queries for dnsName through unmodified (passthru) */
+  behavior?: 'behaviorUnspecified' | 'bypassResponsePolicy';
+  kind?: string;
+}
+
+export interface Policy {
+  id?: string;
+  name?: string;
+  description?: string;
+  /** Create inbound forwarder addresses in each attached network for on-prem resolvers */
+  enableInboundForwarding?: boolean;
+  /** Log DNS queries from the attached networks to Cloud Logging */
+  enableLogging?: boolean;
+  /** Name servers that replace Cloud DNS for all queries from the attached networks */
+  alternativeNameServerConfig?: {
+    targetNameServers?: ForwardingTargetNameServer[];
+    kind?: string;
+  };
+  networks?: Array<{
+    networkUrl?: string;
+    kind?: string;
+  }>;
+  kind?: string;
+}
+
+export interface Operation {
+  id?: string;
+  type?: string;
+  status?: 'pending' | 'done';
+  startTime?: string;
+  user?: string;
+  zoneContext?: {
+    oldValue?: ManagedZone;
+    newValue?: ManagedZone;
   };
+  kind?: string;
 }
 
 export interface ResourceRecordSet {
@@ -31,6 +250,74 @@ export interface ResourceRecordSet {
   ttl?: number;
   rrdatas?: string[];
   signatureRrdatas?: string[];
+  /** Answers chosen per query; set instead of rrdatas */
+  routingPolicy?: RRSetRoutingPolicy;
+  kind?: string;
+}
+
+export interface LoadBalancerTarget {
+  loadBalancerType?: 'regionalL4ilb' | 'regionalL7ilb' | 'globalL7ilb' | 'none';
+  ipAddress?: string;
+  /** Port as a decimal string, e.g. "80" */
+  port?: string;
+  ipProtocol?: 'tcp' | 'udp';
+  networkUrl?: string;
+  project?: string;
+  region?: string;
+  kind?: string;
+}
+
+/**
+ * Targets whose health decides whether an item is served
+ */
+export interface HealthCheckTargets {
+  /** Internal load balancers (private zones) */
+  internalLoadBalancers?: LoadBalancerTarget[];
+  /** IP addresses checked with the policy's health check (public zones) */
+  externalEndpoints?: string[];
+}
+
+export interface WrrPolicyItem {
+  /** Relative weight; an item is served weight/sum of the time */
+  weight?: number;
+  rrdatas?: string[];
+  signatureRrdatas?: string[];
+  healthCheckedTargets?: HealthCheckTargets;
+  kind?: string;
+}
+
+export interface GeoPolicyItem {
+  /** Google Cloud region, e.g. us-east1 */
+  location?: string;
+  rrdatas?: string[];
+  signatureRrdatas?: string[];
+  healthCheckedTargets?: HealthCheckTargets;
+  kind?: string;
+}
+
+export interface GeoPolicy {
+  items?: GeoPolicyItem[];
+  /** Serve only the caller's region, without failing over to others when it is unhealthy */
+  enableFencing?: boolean;
+  kind?: string;
+}
+
+export interface RRSetRoutingPolicy {
+  wrr?: {
+    items?: WrrPolicyItem[];
+    kind?: string;
+  };
+  geo?: GeoPolicy;
+  /** Failover: primary targets while healthy, geo-routed backups otherwise */
+  primaryBackup?: {
+    primaryTargets?: HealthCheckTargets;
+    backupGeoTargets?: GeoPolicy;
+    /** Fraction of traffic (0-1) sent to the backups even while the primary is healthy */
+    trickleTraffic?: number;
+    kind?: string;
+  };
+  /** Health check resource URL for externalEndpoints */
+  healthCheck?: string;
   kind?: string;
 }
 
@@ -40,6 +327,7 @@ export interface Change {
   deletions?: ResourceRecordSet[];
   startTime?: string;
   status?: 'pending' | 'done';
+  isServing?: boolean;
   kind?: string;
 }
 
@@ -47,17 +335,31 @@ export interface CreateRecordInput {
   name: string;
   type: string;
   ttl: number;
-  rrdatas: string[];
+  rrdatas?: string[];
+  routingPolicy?: RRSetRoutingPolicy;
 }
 
 export interface UpdateRecordInput {
   name: string;
   type: string;
   ttl?: number;
-  rrdatas: string[];
+  rrdatas?: string[];
+  routingPolicy?: RRSetRoutingPolicy;
 }
 
 export interface DeleteRecordInput {
   name: string;
   type: string;
-}
\ No newline at end of file
+}
+
+export type RecordOperationAction = 'create' | 'update' | 'delete';
+
+export interface RecordOperation {
+  action: RecordOperationAction;
+  name: string;
+  type: string;
+  ttl?: number;
+  rrdatas?: string[];
+  /** Weighted, geo or failover answers instead of rrdatas */
+  routingPolicy?: RRSetRoutingPolicy;
+}
@@ -0,0 +1,140 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, readFileSync, appendFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AuditLog, auditTool, openAuditLog } from '../src/lib/audit.js';
+import { PolicyViolationError, errorResult } from '../src/lib/errors.js';
+import type { ToolDefinition, ToolResult } from '../src/lib/mcp-core.js';
+import type { GoogleCloudDNSClient } from '../src/lib/client.js';
+import type { AuditEntry } from '../src/types/index.js';
+
+let dir: string;
+
+before(() => {
+  dir = mkdtempSync(join(tmpdir(), 'audit-test-'));
+});
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const www = { name: 'www.example.com.', type: 'A', ttl: 300, rrdatas: ['1.2.3.4'] };
+
+const client = {
+  projectId: 'default-project',
+  forProject(projectId?: string) {
+    return {
+      async getManagedZone(zoneName: string) {
+        if (projectId === 'gone') {
+          throw new Error(`Zone ${zoneName} not found`);
+        }
+        return { name: zoneName, dnsName: 'example.com.' };
+      },
+    };
+  },
+} as unknown as GoogleCloudDNSClient;
+
+function tool(name: string, handler: ToolDefinition['handler'], readOnlyHint = false): ToolDefinition {
+  return {
+    name,
+    description: name,
+    inputSchema: { type: 'object', properties: {} },
+    annotations: { readOnlyHint },
+    handler,
+  };
+}
+
+function readEntries(path: string): AuditEntry[] {
+  return readFileSync(path, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+}
+
+test('auditTool records the settled change, failures and dry runs, and skips read-only tools', async () => {
+  const path = join(dir, 'calls.jsonl');
+  const log = openAuditLog(path)!;
+  const ok: ToolResult = { content: [{ type: 'text', text: 'ok' }] };
+
+  const update = auditTool(tool('gcloud_dns_update_record', async (_args, context) => {
+    const change = { id: '7', status: 'pending' as const, deletions: [www], additions: [{ ...www, rrdatas: ['5.6.7.8'] }] };
+    context!.recordChange!('prod', 'main', change);
+    context!.recordChange!('prod', 'main', { ...change, status: 'done' });
+    return ok;
+  }), log, client);
+  const blocked = auditTool(tool('gcloud_dns_delete_record', async () =>
+    errorResult('Error deleting DNS record', new PolicyViolationError('Zone is read-only'))
+  ), log, client);
+  const list = auditTool(tool('gcloud_dns_list_records', async () => ok, true), log, client);
+  const deleteZone = auditTool(tool('gcloud_dns_delete_zone', async () => ok), log, client);
+
+  await update.handler({ projectId: 'prod', zoneName: 'main', name: 'www', type: 'A' });
+  await blocked.handler({ zoneName: 'main', name: 'www', type: 'A' });
+  await update.handler({ zoneName: 'main', name: 'www', type: 'A', dryRun: true });
+  await list.handler({ zoneName: 'main' });
+  await deleteZone.handler({ projectId: 'gone', zoneName: 'main' });
+
+  const [updated, failed, dryRun, deleted, ...rest] = readEntries(path);
+  assert.equal(rest.length, 0);
+
+  assert.equal(updated.tool, 'gcloud_dns_update_record');
+  assert.equal(updated.status, 'succeeded');
+  assert.equal(updated.projectId, 'prod');
+  assert.equal(updated.dnsName, 'example.com.');
+  assert.deepEqual(updated.arguments, { projectId: 'prod', zoneName: 'main', name: 'www', type: 'A' });
+  assert.deepEqual(updated.changes, [{
+    projectId: 'prod',
+    zoneName: 'main',
+    changeId: '7',
+    status: 'done',
+    before: [www],
+    after: [{ ...www, rrdatas: ['5.6.7.8'] }],
+  }]);
+
+  assert.equal(failed.status, 'failed');
+  assert.equal(failed.projectId, 'default-project');
+  assert.deepEqual(failed.error, { code: 'POLICY_VIOLATION', message: 'Zone is read-only' });
+  assert.deepEqual(failed.changes, []);
+
+  assert.equal(dryRun.status, 'dryRun');
+
+  // The zone no longer exists, so there is no DNS name to record
+  assert.equal(deleted.dnsName, undefined);
+});
+
+test('AuditLog.query filters by zone, name, tool and time, newest first', async () => {
+  const path = join(dir, 'query.jsonl');
+  const log = new AuditLog(path);
+  const entry = (timestamp: string, tool: string, zoneName: string, changes: AuditEntry['changes'] = []): AuditEntry => ({
+    timestamp, tool, arguments: { zoneName }, projectId: 'prod', zoneName, dnsName: 'example.com.', status: 'succeeded', changes, durationMs: 1,
+  });
+  const change = { projectId: 'prod', zoneName: 'main', changeId: '1', status: 'done' as const, before: [], after: [www] };
+
+  await Promise.all([
+    log.append(entry('2026-01-01T00:00:00.000Z', 'gcloud_dns_create_record', 'main', [change])),
+    log.append(entry('2026-02-01T00:00:00.000Z', 'gcloud_dns_delete_zone', 'old')),
+    log.append({ ...entry('2026-03-01T00:00:00.000Z', 'gcloud_dns_apply_changes', 'main'), arguments: { zoneName: 'main', operations: [{ name: 'api.www' }] } }),
+  ]);
+  appendFileSync(path, 'not json\n');
+
+  const all = await log.query();
+  assert.deepEqual(all.entries.map(e => e.timestamp.slice(0, 7)), ['2026-03', '2026-02', '2026-01']);
+  assert.equal(all.malformed, 1);
+
+  assert.deepEqual((await log.query({ zoneName: 'main' })).entries.map(e => e.tool), ['gcloud_dns_apply_changes', 'gcloud_dns_create_record']);
+  // Relative names are qualified against each entry's zone and match names below them
+  assert.deepEqual((await log.query({ name: 'www' })).entries.map(e => e.tool), ['gcloud_dns_apply_changes', 'gcloud_dns_create_record']);
+  assert.deepEqual((await log.query({ name: 'api.www' })).entries.map(e => e.tool), ['gcloud_dns_apply_changes']);
+  assert.deepEqual((await log.query({ name: 'WWW.example.com' })).entries.map(e => e.tool), ['gcloud_dns_apply_changes', 'gcloud_dns_create_record']);
+  assert.deepEqual((await log.query({ name: 'example.com.' })).entries.map(e => e.tool), ['gcloud_dns_apply_changes', 'gcloud_dns_create_record']);
+  assert.deepEqual((await log.query({ name: 'ww' })).entries, []);
+  assert.deepEqual((await log.query({ tool: 'gcloud_dns_delete_zone' })).entries.map(e => e.zoneName), ['old']);
+
+  const window = await log.query({ since: new Date('2026-01-15T00:00:00Z'), until: new Date('2026-02-15T00:00:00Z') });
+  assert.deepEqual(window.entries.map(e => e.tool), ['gcloud_dns_delete_zone']);
+
+  const limited = await log.query({ limit: 1 });
+  assert.equal(limited.entries.length, 1);
+  assert.equal(limited.total, 3);
+
+  assert.deepEqual(await new AuditLog(join(dir, 'missing.jsonl')).query(), { entries: [], total: 0, malformed: 0 });
+  assert.throws(() => openAuditLog(join(dir, 'no-such-dir', 'audit.jsonl')), /Cannot write audit log/);
+});
@@ -0,0 +1,154 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { generateKeyPairSync } from 'node:crypto';
+import { mkdirSync, mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  AuthorizedUserCredentialProvider,
+  MetadataServerCredentialProvider,
+  ServiceAccountCredentialProvider,
+  StaticTokenCredentialProvider,
+  resolveCredentialProvider,
+} from '../src/lib/auth.js';
+
+const { privateKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+});
+
+const serviceAccount = {
+  type: 'service_account',
+  client_email: 'sa@test.iam.gserviceaccount.com',
+  private_key: privateKey,
+};
+
+let server: Server;
+let host: string;
+let tmp: string;
+const savedEnv = { ...process.env };
+
+before(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      if (req.url === '/token' && req.method === 'POST') {
+        const params = new URLSearchParams(body);
+        if (params.get('grant_type') === 'refresh_token' && params.get('refresh_token') === 'refresh-1') {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ access_token: 'user-token', expires_in: 3599 }));
+          return;
+        }
+        res.writeHead(400);
+        res.end('{"error":"invalid_grant"}');
+        return;
+      }
+
+      if (req.url?.startsWith('/computeMetadata/v1/instance/service-accounts/default/token')) {
+        if (req.headers['metadata-flavor'] !== 'Google') {
+          res.writeHead(403);
+          res.end('Missing Metadata-Flavor header');
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ access_token: 'metadata-token', expires_in: 1800, token_type: 'Bearer' }));
+        return;
+      }
+
+      res.writeHead(404);
+      res.end();
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  host = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+  tmp = mkdtempSync(join(tmpdir(), 'gcloud-dns-auth-'));
+});
+
+after(() => {
+  server.close();
+  rmSync(tmp, { recursive: true, force: true });
+  process.env = savedEnv;
+});
+
+function isolateEnv() {
+  delete process.env.GOOGLE_APPLICATION_CREDENTIALS;
+  process.env.CLOUDSDK_CONFIG = join(tmp, 'no-gcloud');
+}
+
+test('static access token takes precedence over other credentials', async () => {
+  const provider = resolveCredentialProvider({
+    projectId: 'p',
+    accessToken: 'static-token',
+    credentials: JSON.stringify(serviceAccount),
+  });
+
+  assert.ok(provider instanceof StaticTokenCredentialProvider);
+  assert.deepEqual(await provider.getAccessToken(), { token: 'static-token' });
+});
+
+test('credentials accept a path to a service account key file', () => {
+  const keyFile = join(tmp, 'key.json');
+  writeFileSync(keyFile, JSON.stringify(serviceAccount));
+
+  const provider = resolveCredentialProvider({ projectId: 'p', credentials: keyFile });
+  assert.ok(provider instanceof ServiceAccountCredentialProvider);
+});
+
+test('credentials report unreadable key files', () => {
+  assert.throws(
+    () => resolveCredentialProvider({ projectId: 'p', credentials: join(tmp, 'missing.json') }),
+    /Failed to read credentials file/
+  );
+});
+
+test('GOOGLE_APPLICATION_CREDENTIALS is used when no credentials are configured', () => {
+  isolateEnv();
+  const keyFile = join(tmp, 'adc.json');
+  writeFileSync(keyFile, JSON.stringify(serviceAccount));
+  process.env.GOOGLE_APPLICATION_CREDENTIALS = keyFile;
+
+  const provider = resolveCredentialProvider({ projectId: 'p' });
+  assert.ok(provider instanceof ServiceAccountCredentialProvider);
+});
+
+test('gcloud user credentials are exchanged with a refresh token grant', async () => {
+  isolateEnv();
+  const configDir = join(tmp, 'gcloud');
+  rmSync(configDir, { recursive: true, force: true });
+  process.env.CLOUDSDK_CONFIG = configDir;
+  mkdirSync(configDir);
+  writeFileSync(join(configDir, 'application_default_credentials.json'), JSON.stringify({
+    type: 'authorized_user',
+    client_id: 'client-1',
+    client_secret: 'secret-1',
+    refresh_token: 'refresh-1',
+  }));
+
+  const provider = resolveCredentialProvider({ projectId: 'p', tokenUri: `http://${host}/token` });
+  assert.ok(provider instanceof AuthorizedUserCredentialProvider);
+
+  const token = await provider.getAccessToken();
+  assert.equal(token.token, 'user-token');
+  assert.ok(token.expiresAt && token.expiresAt > Date.now());
+});
+
+test('falls back to the metadata server', async () => {
+  isolateEnv();
+  process.env.GCE_METADATA_HOST = host;
+
+  const provider = resolveCredentialProvider({ projectId: 'p' });
+  assert.ok(provider instanceof MetadataServerCredentialProvider);
+  assert.equal((await provider.getAccessToken()).token, 'metadata-token');
+});
+
+test('unsupported credential types are rejected', () => {
+  assert.throws(
+    () => resolveCredentialProvider({ projectId: 'p', credentials: '{"type":"external_account"}' }),
+    /Unsupported credentials type 'external_account'/
+  );
+});
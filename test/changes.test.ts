@@ -0,0 +1,184 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectConflicts, diffRecordSets, formatChangeDiff, keepRoutedRecordSets, planChange, planRevert } from '../src/lib/changes.js';
+import type { GoogleCloudDNSClient } from '../src/lib/client.js';
+import type { ResourceRecordSet } from '../src/types/index.js';
+
+function fakeClient(records: ResourceRecordSet[]): GoogleCloudDNSClient {
+  return {
+    async getManagedZone(zoneName: string) {
+      return { name: zoneName, dnsName: 'example.com.' };
+    },
+    async listRecords(_zoneName: string, type?: string, name?: string) {
+      return records.filter(r => (!type || r.type === type) && (!name || r.name === name));
+    },
+  } as unknown as GoogleCloudDNSClient;
+}
+
+const zone = [
+  { name: 'example.com.', type: 'SOA', ttl: 21600, rrdatas: ['ns1. hostmaster. 1 21600 3600 259200 300'] },
+  { name: 'www.example.com.', type: 'A', ttl: 300, rrdatas: ['1.2.3.4'] },
+  { name: 'www.example.com.', type: 'TXT', ttl: 300, rrdatas: ['"v=1"'] },
+];
+
+test('planChange builds one change from several operations', async () => {
+  const plan = await planChange(fakeClient(zone), 'example', [
+    { action: 'update', name: 'www.example.com.', type: 'A', rrdatas: ['5.6.7.8'] },
+    { action: 'delete', name: 'www.example.com.', type: 'TXT' },
+    { action: 'create', name: 'api.example.com.', type: 'a', rrdatas: ['9.9.9.9'] },
+  ]);
+
+  assert.ok(plan.valid);
+  assert.deepEqual(plan.change.deletions, [zone[1], zone[2]]);
+  assert.deepEqual(plan.change.additions, [
+    { name: 'www.example.com.', type: 'A', ttl: 300, rrdatas: ['5.6.7.8'] },
+    { name: 'api.example.com.', type: 'A', ttl: 300, rrdatas: ['9.9.9.9'] },
+  ]);
+});
+
+test('planChange rejects missing, duplicate and protected records', async () => {
+  const plan = await planChange(fakeClient(zone), 'example', [
+    { action: 'create', name: 'www.example.com.', type: 'A', rrdatas: ['1.1.1.1'] },
+    { action: 'update', name: 'old.example.com.', type: 'A', rrdatas: ['1.1.1.1'] },
+    { action: 'delete', name: 'example.com.', type: 'SOA' },
+    { action: 'delete', name: 'www.example.com.', type: 'TXT' },
+    { action: 'delete', name: 'www.example.com.', type: 'TXT' },
+  ]);
+
+  assert.equal(plan.valid, false);
+  assert.match(plan.operations[0].error!, /already exists/);
+  assert.match(plan.operations[1].error!, /not found/);
+  assert.match(plan.operations[2].error!, /Cannot delete SOA/);
+  assert.equal(plan.operations[3].error, undefined);
+  assert.match(plan.operations[4].error!, /more than once/);
+});
+
+test('planChange rejects NS and SOA deletions before looking anything up', async () => {
+  const client = {
+    async getManagedZone() {
+      throw new Error('unexpected lookup');
+    },
+  } as unknown as GoogleCloudDNSClient;
+
+  const plan = await planChange(client, 'missing-zone', [{ action: 'delete', name: '@', type: 'ns' }]);
+
+  assert.equal(plan.valid, false);
+  assert.match(plan.operations[0].error!, /Cannot delete NS/);
+  assert.deepEqual(plan.change, {});
+});
+
+test('detectConflicts flags a CNAME next to other types', async () => {
+  const client = fakeClient(zone);
+  const plan = await planChange(client, 'example', [
+    { action: 'create', name: 'www.example.com.', type: 'CNAME', rrdatas: ['a.example.net.'] },
+    { action: 'delete', name: 'www.example.com.', type: 'A' },
+  ]);
+
+  const conflicts = await detectConflicts(client, 'example', plan.change);
+  assert.deepEqual(conflicts, [
+    'www.example.com. would have a CNAME alongside TXT records; a CNAME cannot coexist with other types',
+  ]);
+});
+
+test('planChange validates and normalizes record data', async () => {
+  const plan = await planChange(fakeClient(zone), 'example', [
+    { action: 'create', name: 'API.example.com', type: 'cname', rrdatas: ['Target.Example.net'] },
+    { action: 'create', name: 'mail.example.com.', type: 'MX', rrdatas: ['70000 mx.example.com.'] },
+    { action: 'create', name: 'alias.example.com.', type: 'CNAME', rrdatas: ['a.example.net.', 'b.example.net.'] },
+  ]);
+
+  assert.equal(plan.valid, false);
+  assert.deepEqual(plan.operations[0].after, { name: 'api.example.com.', type: 'CNAME', ttl: 300, rrdatas: ['target.example.net.'] });
+  assert.equal(plan.operations[0].normalized?.length, 2);
+  assert.match(plan.operations[1].error!, /rrdatas\[0\]: MX preference must be between 0 and 65535/);
+  assert.match(plan.operations[2].error!, /exactly one value/);
+});
+
+test('planChange resolves relative, apex and mixed-case names against the zone', async () => {
+  const plan = await planChange(fakeClient(zone), 'example', [
+    { action: 'update', name: 'WWW', type: 'A', rrdatas: ['5.6.7.8'] },
+    { action: 'delete', name: 'www.Example.com', type: 'TXT' },
+    { action: 'create', name: '@', type: 'MX', rrdatas: ['10 mail.example.com.'] },
+    { action: 'create', name: 'www.other.com.', type: 'A', rrdatas: ['1.1.1.1'] },
+  ]);
+
+  assert.equal(plan.operations[0].operation.name, 'www.example.com.');
+  assert.deepEqual(plan.operations[0].normalized, ["name: 'WWW' → 'www.example.com.'"]);
+  assert.deepEqual(plan.operations[1].before, zone[2]);
+  assert.equal(plan.operations[2].after!.name, 'example.com.');
+  assert.match(plan.operations[3].error!, /outside zone 'example'/);
+});
+
+test('planChange swaps plain values for a routing policy and validates its items', async () => {
+  const plan = await planChange(fakeClient(zone), 'example', [
+    {
+      action: 'update',
+      name: 'www',
+      type: 'A',
+      routingPolicy: { wrr: { items: [{ weight: 3, rrdatas: ['10.0.0.1'] }, { weight: 1, rrdatas: ['10.0.0.2'] }] } },
+    },
+    { action: 'create', name: 'geo', type: 'A', routingPolicy: { geo: { items: [{ location: 'mars', rrdatas: ['10.0.0.3'] }] } } },
+    { action: 'create', name: 'both', type: 'A', rrdatas: ['10.0.0.4'], routingPolicy: { wrr: { items: [] } } },
+  ]);
+
+  assert.deepEqual(plan.operations[0].after, {
+    name: 'www.example.com.',
+    type: 'A',
+    ttl: 300,
+    routingPolicy: { wrr: { items: [{ weight: 3, rrdatas: ['10.0.0.1'] }, { weight: 1, rrdatas: ['10.0.0.2'] }] } },
+  });
+  assert.match(plan.operations[1].error!, /location must be a Google Cloud region/);
+  assert.match(plan.operations[2].error!, /cannot be combined/);
+  assert.match(formatChangeDiff({ additions: [plan.operations[0].after!] }), /\+ www\.example\.com\. A 300 wrr\[3: 10\.0\.0\.1; 1: 10\.0\.0\.2\]/);
+});
+
+test('formatChangeDiff pairs deletions and additions per rrset', () => {
+  const diff = formatChangeDiff({
+    deletions: [zone[1]],
+    additions: [{ name: 'www.example.com.', type: 'A', ttl: 60, rrdatas: ['5.6.7.8'] }],
+  });
+
+  assert.equal(diff, '  - www.example.com. A 300 1.2.3.4\n  + www.example.com. A 60 5.6.7.8');
+});
+
+test('planRevert inverts a change and reports drift', () => {
+  const soa = (serial: number) => ({ name: 'example.com.', type: 'SOA', ttl: 21600, rrdatas: [`ns1. hostmaster. ${serial} 21600 3600 259200 300`] });
+  const change = {
+    id: '7',
+    status: 'done' as const,
+    deletions: [soa(1), { name: 'www.example.com.', type: 'A', ttl: 300, rrdatas: ['1.2.3.4'] }, { name: 'old.example.com.', type: 'A', ttl: 300, rrdatas: ['9.9.9.9'] }],
+    additions: [soa(2), { name: 'www.example.com.', type: 'A', ttl: 300, rrdatas: ['5.6.7.8'] }, { name: 'new.example.com.', type: 'TXT', ttl: 300, rrdatas: ['"x"'] }],
+  };
+  const current = [soa(5), change.additions[1], change.additions[2]];
+
+  const { plan, drift } = planRevert(change, current);
+  assert.deepEqual(drift, []);
+  assert.deepEqual(plan.change.deletions, [change.additions[1], change.additions[2]]);
+  assert.deepEqual(plan.change.additions, [change.deletions[2], change.deletions[1]]);
+
+  const drifted = planRevert(change, [{ ...change.additions[1], rrdatas: ['10.0.0.1'] }, { name: 'old.example.com.', type: 'A', ttl: 60, rrdatas: ['1.1.1.1'] }]);
+  assert.equal(drifted.drift.length, 3);
+  assert.match(drifted.drift[0], /www\.example\.com\. \(A\) has changed since/);
+  assert.match(drifted.drift[1], /new\.example\.com\. \(TXT\) .* since been deleted/);
+  assert.match(drifted.drift[2], /old\.example\.com\. \(A\) .* re-created/);
+});
+
+test('keepRoutedRecordSets leaves routing policies alone when a source has plain records', () => {
+  const weighted = {
+    name: 'api.example.com.', type: 'A', ttl: 60,
+    routingPolicy: { wrr: { items: [{ weight: 1, rrdatas: ['10.0.0.1'] }, { weight: 3, rrdatas: ['10.0.0.2'] }] } },
+  };
+  const geo = { name: 'geo.example.com.', type: 'A', ttl: 60, routingPolicy: { geo: { items: [{ location: 'us-east1', rrdatas: ['10.0.1.1'] }] } } };
+  const plain = { name: 'www.example.com.', type: 'A', ttl: 300, rrdatas: ['1.2.3.4'] };
+
+  const diff = diffRecordSets(
+    [weighted, geo, plain],
+    [{ name: 'api.example.com.', type: 'A', ttl: 60, rrdatas: ['10.0.0.1'] }, { ...plain, rrdatas: ['5.6.7.8'] }],
+    { deleteMissing: true }
+  );
+  assert.equal(diff.updates.length, 2);
+
+  assert.deepEqual(keepRoutedRecordSets(diff), [weighted, geo]);
+  assert.deepEqual(diff.updates.map(update => update.before), [plain]);
+  assert.deepEqual(diff.deletes, []);
+});
@@ -0,0 +1,403 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createVerify, generateKeyPairSync } from 'node:crypto';
+import { GoogleCloudDNSClient } from '../src/lib/client.js';
+import { ChangeWaitTimeoutError, InvalidRequestError, PreconditionFailedError, RequestTimeoutError } from '../src/lib/errors.js';
+import { sleep } from '../src/lib/retry.js';
+import { StaticTokenCredentialProvider, createJWT } from '../src/lib/auth.js';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+});
+
+function decodeSegment(segment: string): any {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+function verifyJWT(jwt: string): boolean {
+  const [header, payload, signature] = jwt.split('.');
+  return createVerify('RSA-SHA256')
+    .update(`${header}.${payload}`)
+    .end()
+    .verify(publicKey, Buffer.from(signature, 'base64url'));
+}
+
+let server: Server;
+let baseUrl: string;
+let tokenRequests = 0;
+let changePolls = 0;
+let flakyRequests = 0;
+let throttledRequests = 0;
+const changeRequests: any[] = [];
+
+before(async () => {
+  // Stand-in for oauth2.googleapis.com and dns.googleapis.com
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      if (req.url === '/token' && req.method === 'POST') {
+        tokenRequests++;
+        const params = new URLSearchParams(body);
+        const assertion = params.get('assertion') ?? '';
+        const claims = assertion.split('.').length === 3 ? decodeSegment(assertion.split('.')[1]) : {};
+
+        if (
+          params.get('grant_type') !== 'urn:ietf:params:oauth:grant-type:jwt-bearer' ||
+          !verifyJWT(assertion) ||
+          claims.aud !== `${baseUrl}/token`
+        ) {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'invalid_grant', error_description: 'Invalid JWT Signature.' }));
+          return;
+        }
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ access_token: 'test-access-token', expires_in: 3600, token_type: 'Bearer' }));
+        return;
+      }
+
+      if (req.url === '/dns/v1/projects/test-project/managedZones') {
+        if (req.headers.authorization !== 'Bearer test-access-token') {
+          res.writeHead(401, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: { message: 'Request had invalid authentication credentials.' } }));
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ managedZones: [{ name: 'example', dnsName: 'example.com.' }] }));
+        return;
+      }
+
+      if (req.url === '/dns/v1/projects/other-project/managedZones') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ managedZones: [{ name: 'other', dnsName: 'other.com.' }] }));
+        return;
+      }
+
+      if (req.url?.startsWith('/dns/v1/projects/test-project/managedZones/example/rrsets') && req.url.includes('name=live')) {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ rrsets: [{ name: 'live.example.com.', type: 'A', ttl: 300, rrdatas: ['10.0.0.1'] }] }));
+        return;
+      }
+
+      if (req.url?.startsWith('/dns/v1/projects/test-project/managedZones/example/rrsets')) {
+        // Two pages of rrsets, linked by a page token
+        const url = new URL(req.url, baseUrl);
+        const secondPage = url.searchParams.get('pageToken') === 'page-2';
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(secondPage
+          ? { rrsets: [{ name: 'b.example.com.', type: 'A' }] }
+          : { rrsets: [{ name: 'a.example.com.', type: 'A' }], nextPageToken: 'page-2' }));
+        return;
+      }
+
+      if (req.url === '/dns/v1/projects/test-project/managedZones/stalled') {
+        // Headers arrive, the body never finishes
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.write('{"name": "stalled"');
+        return;
+      }
+
+      if (req.url === '/dns/v1/projects/test-project/managedZones/throttled') {
+        // 429 asking for a one second pause, then success
+        throttledRequests++;
+        if (throttledRequests === 1) {
+          res.writeHead(429, { 'Content-Type': 'application/json', 'Retry-After': '1' });
+          res.end(JSON.stringify({ error: { message: 'Quota exceeded' } }));
+        } else {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ name: 'throttled', dnsName: 'throttled.com.' }));
+        }
+        return;
+      }
+
+      if (req.url === '/dns/v1/projects/test-project/managedZones/flaky') {
+        // 503, then 429 with Retry-After, then success
+        flakyRequests++;
+        if (flakyRequests === 1) {
+          res.writeHead(503, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: { message: 'Backend Error' } }));
+        } else if (flakyRequests === 2) {
+          res.writeHead(429, { 'Content-Type': 'application/json', 'Retry-After': '0' });
+          res.end(JSON.stringify({ error: { message: 'Quota exceeded' } }));
+        } else {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ name: 'flaky', dnsName: 'flaky.com.' }));
+        }
+        return;
+      }
+
+      if (req.url === '/dns/v1/projects/test-project/managedZones/example/changes' && req.method === 'POST') {
+        // The live rrset is 'live.example.com. A 10.0.0.1'; stale deletions fail like Cloud DNS does
+        changeRequests.push(JSON.parse(body));
+        const deletion = JSON.parse(body).deletions[0];
+        if (deletion && deletion.rrdatas[0] !== '10.0.0.1') {
+          res.writeHead(412, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: { message: 'Precondition not met for \'entity.change.deletions[0]\'' } }));
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ id: '8', status: 'pending' }));
+        return;
+      }
+
+      if (req.url === '/dns/v1/projects/test-project/managedZones/example/changes/7') {
+        // Pending for the first two polls
+        changePolls++;
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ id: '7', status: changePolls > 2 ? 'done' : 'pending' }));
+        return;
+      }
+
+      if (req.url?.startsWith('/dns/v1/projects/test-project/managedZones/example/changes')) {
+        const url = new URL(req.url, baseUrl);
+        const secondPage = url.searchParams.get('pageToken') === 'page-2';
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(secondPage
+          ? { changes: [{ id: '1', status: 'done' }] }
+          : { changes: [{ id: '2', status: 'done', query: url.search }], nextPageToken: 'page-2' }));
+        return;
+      }
+
+      if (req.url === '/dns/v1/projects/test-project/responsePolicies/corp/rules') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ responsePolicyRules: [{ ruleName: 'block', dnsName: 'bad.example.', behavior: 'bypassResponsePolicy' }] }));
+        return;
+      }
+
+      if (req.url === '/dns/v1/projects/test-project/responsePolicies/corp/rules/block' && req.method === 'PUT') {
+        // Cloud DNS wraps the updated rule, unlike create
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ responsePolicyRule: JSON.parse(body) }));
+        return;
+      }
+
+      res.writeHead(404);
+      res.end();
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+test('createJWT produces an RS256 signature verifiable with the public key', () => {
+  const jwt = createJWT({ alg: 'RS256', typ: 'JWT' }, { iss: 'sa@test.iam.gserviceaccount.com' }, privateKey);
+  const [header, payload] = jwt.split('.');
+
+  assert.deepEqual(decodeSegment(header), { alg: 'RS256', typ: 'JWT' });
+  assert.equal(decodeSegment(payload).iss, 'sa@test.iam.gserviceaccount.com');
+  assert.ok(verifyJWT(jwt));
+  assert.ok(!/[+/=]/.test(jwt), 'JWT segments must be base64url without padding');
+});
+
+test('createJWT rejects a malformed private key', () => {
+  assert.throws(
+    () => createJWT({ alg: 'RS256' }, {}, 'not a key'),
+    /Failed to sign JWT/
+  );
+});
+
+test('client exchanges a signed assertion at the configured token endpoint', async () => {
+  const client = new GoogleCloudDNSClient({
+    projectId: 'test-project',
+    credentials: JSON.stringify({
+      type: 'service_account',
+      client_email: 'sa@test.iam.gserviceaccount.com',
+      private_key: privateKey,
+      private_key_id: 'key-1',
+    }),
+    tokenUri: `${baseUrl}/token`,
+    apiEndpoint: `${baseUrl}/dns/v1/projects`,
+  });
+
+  tokenRequests = 0;
+  const zones = await client.listManagedZones();
+  assert.deepEqual(zones, [{ name: 'example', dnsName: 'example.com.' }]);
+
+  // Token is cached between calls
+  await client.listManagedZones();
+  assert.equal(tokenRequests, 1);
+});
+
+test('forProject shares one token across configured projects and rejects others', async () => {
+  const client = new GoogleCloudDNSClient({
+    projectId: 'test-project',
+    projects: ['other-project'],
+    credentials: JSON.stringify({
+      type: 'service_account',
+      client_email: 'sa@test.iam.gserviceaccount.com',
+      private_key: privateKey,
+    }),
+    tokenUri: `${baseUrl}/token`,
+    apiEndpoint: `${baseUrl}/dns/v1/projects`,
+  });
+
+  tokenRequests = 0;
+  const other = client.forProject('other-project');
+  const [own, others] = await Promise.all([client.listManagedZones(), other.listManagedZones()]);
+
+  assert.deepEqual(own.map(z => z.name), ['example']);
+  assert.deepEqual(others.map(z => z.name), ['other']);
+  assert.equal(tokenRequests, 1);
+
+  assert.deepEqual(client.projects, ['test-project', 'other-project']);
+  assert.equal(client.forProject(), client);
+  assert.equal(other.forProject('other-project'), other);
+  assert.equal(other.forProject(), client);
+  assert.throws(() => client.forProject('unknown-project'), InvalidRequestError);
+});
+
+test('client surfaces token endpoint rejections', async () => {
+  const { privateKey: otherKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+  });
+  const client = new GoogleCloudDNSClient({
+    projectId: 'test-project',
+    credentials: JSON.stringify({
+      client_email: 'sa@test.iam.gserviceaccount.com',
+      private_key: otherKey,
+    }),
+    tokenUri: `${baseUrl}/token`,
+    apiEndpoint: `${baseUrl}/dns/v1/projects`,
+  });
+
+  await assert.rejects(client.listManagedZones(), /Invalid JWT Signature/);
+});
+
+test('listRecords follows page tokens while listRecordsPage returns one page', async () => {
+  const client = new GoogleCloudDNSClient(
+    { projectId: 'test-project', apiEndpoint: `${baseUrl}/dns/v1/projects` },
+    new StaticTokenCredentialProvider('test-access-token')
+  );
+
+  const all = await client.listRecords('example');
+  assert.deepEqual(all.map(r => r.name), ['a.example.com.', 'b.example.com.']);
+
+  const page = await client.listRecordsPage('example', { maxResults: 1 });
+  assert.deepEqual(page.items.map(r => r.name), ['a.example.com.']);
+  assert.equal(page.nextPageToken, 'page-2');
+});
+
+test('iterateChanges passes sort options and follows page tokens', async () => {
+  const client = new GoogleCloudDNSClient(
+    { projectId: 'test-project', apiEndpoint: `${baseUrl}/dns/v1/projects` },
+    new StaticTokenCredentialProvider('test-access-token')
+  );
+
+  const changes: any[] = [];
+  for await (const change of client.iterateChanges('example', { sortBy: 'changeSequence', sortOrder: 'descending' })) {
+    changes.push(change);
+  }
+
+  assert.deepEqual(changes.map(c => c.id), ['2', '1']);
+  assert.equal(changes[0].query, '?sortBy=changeSequence&sortOrder=descending');
+});
+
+test('waitForChange polls with backoff and reports pending polls', async () => {
+  const client = new GoogleCloudDNSClient(
+    { projectId: 'test-project', apiEndpoint: `${baseUrl}/dns/v1/projects`, changeWait: { interval: 5, backoff: 2 } },
+    new StaticTokenCredentialProvider('test-access-token')
+  );
+
+  changePolls = 0;
+  const polls: number[] = [];
+  const change = await client.waitForChange('example', '7', { onPoll: (_change, elapsed) => { polls.push(elapsed); } });
+  assert.equal(change.status, 'done');
+  assert.equal(polls.length, 2);
+
+  changePolls = -100;
+  await assert.rejects(
+    client.waitForChange('example', '7', { timeout: 30 }),
+    (error: unknown) => error instanceof ChangeWaitTimeoutError && error.change.status === 'pending'
+  );
+});
+
+test('makeRequest retries 5xx and honours Retry-After on 429', async () => {
+  const client = new GoogleCloudDNSClient(
+    { projectId: 'test-project', apiEndpoint: `${baseUrl}/dns/v1/projects`, retry: { baseDelay: 1 } },
+    new StaticTokenCredentialProvider('test-access-token')
+  );
+
+  flakyRequests = 0;
+  const zone = await client.getManagedZone('flaky');
+  assert.equal(zone.dnsName, 'flaky.com.');
+  assert.equal(flakyRequests, 3);
+
+  flakyRequests = 0;
+  const noRetries = new GoogleCloudDNSClient(
+    { projectId: 'test-project', apiEndpoint: `${baseUrl}/dns/v1/projects`, retry: { maxRetries: 0 } },
+    new StaticTokenCredentialProvider('test-access-token')
+  );
+  await assert.rejects(noRetries.getManagedZone('flaky'), /\(503\): Backend Error/);
+});
+
+test('the request timeout covers a response body that stalls', async () => {
+  const client = new GoogleCloudDNSClient(
+    { projectId: 'test-project', apiEndpoint: `${baseUrl}/dns/v1/projects`, requestTimeout: 50, retry: { maxRetries: 0 } },
+    new StaticTokenCredentialProvider('test-access-token')
+  );
+
+  await assert.rejects(client.getManagedZone('stalled'), RequestTimeoutError);
+});
+
+test('requests backing off after a 429 do not hold a concurrency slot', async () => {
+  const client = new GoogleCloudDNSClient(
+    { projectId: 'test-project', apiEndpoint: `${baseUrl}/dns/v1/projects`, maxConcurrency: 1 },
+    new StaticTokenCredentialProvider('test-access-token')
+  );
+
+  throttledRequests = 0;
+  const finished: string[] = [];
+  const throttled = client.getManagedZone('throttled').then(() => finished.push('throttled'));
+  await sleep(100);
+  await client.listRecords('example').then(() => finished.push('records'));
+  await throttled;
+
+  assert.deepEqual(finished, ['records', 'throttled']);
+  assert.equal(throttledRequests, 2);
+});
+
+test('applyChange surfaces 412 without resubmitting over the concurrent edit', async () => {
+  const client = new GoogleCloudDNSClient(
+    { projectId: 'test-project', apiEndpoint: `${baseUrl}/dns/v1/projects` },
+    new StaticTokenCredentialProvider('test-access-token')
+  );
+  const stale = { name: 'live.example.com.', type: 'A', ttl: 300, rrdatas: ['10.0.0.9'] };
+  const addition = { name: 'live.example.com.', type: 'A', ttl: 300, rrdatas: ['10.0.0.2'] };
+
+  changeRequests.length = 0;
+  await assert.rejects(
+    client.applyChange('example', { additions: [addition], deletions: [stale] }),
+    (error: unknown) => error instanceof PreconditionFailedError && /\(412\)/.test(error.message)
+  );
+  assert.equal(changeRequests.length, 1);
+});
+
+test('response policy rules are listed and updated through the wrapped PUT response', async () => {
+  const client = new GoogleCloudDNSClient(
+    { projectId: 'test-project', apiEndpoint: `${baseUrl}/dns/v1/projects` },
+    new StaticTokenCredentialProvider('test-access-token')
+  );
+
+  const rules = await client.listResponsePolicyRules('corp');
+  assert.deepEqual(rules.map(r => r.ruleName), ['block']);
+
+  const updated = await client.updateResponsePolicyRule('corp', 'block', {
+    ruleName: 'block',
+    dnsName: 'bad.example.',
+    localData: { localDatas: [{ name: 'bad.example.', type: 'A', ttl: 300, rrdatas: ['0.0.0.0'] }] },
+  });
+  assert.deepEqual(updated.localData?.localDatas?.[0].rrdatas, ['0.0.0.0']);
+});
@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeDSDigest, computeKeyTag, dnskeyRdata, dsRecordsForKey, formatDSRecord } from '../src/lib/dnssec.js';
+
+// RFC 4034 §5.4 example: dskey.example.com. DNSKEY 256 3 5 ...
+const RFC_KEY = 'AQOeiiR0GOMYkDshWoSKz9XzfwJr1AYtsmx3TGkJaNXVbfi/2pHm822aJ5iI9BMzNXxeYCmZDRD99WYwYqUSdjMmmAphXdvx' +
+  'egXd/M5+X7OrzKBaMbCVdFLUUh6DhweJBjEVv5f2wwjM9XzcnOf+EPbtG9DMBmADjFDc2w/rljwvFw==';
+
+test('computeKeyTag and computeDSDigest match the RFC 4034 example', () => {
+  const rdata = dnskeyRdata(256, 5, RFC_KEY);
+
+  assert.equal(computeKeyTag(rdata), 60485);
+  assert.equal(computeDSDigest('dskey.example.com.', rdata, 'sha1'), '2BB183AF5F22588179A53B0A98631FAD1A292118');
+  assert.equal(computeDSDigest('DSKEY.Example.com', rdata, 'sha1'), '2BB183AF5F22588179A53B0A98631FAD1A292118');
+});
+
+test('dsRecordsForKey prefers reported digests and computes missing ones', () => {
+  const key = {
+    type: 'keySigning' as const,
+    algorithm: 'rsasha256' as const,
+    publicKey: RFC_KEY,
+    keyTag: 12345,
+    digests: [{ type: 'sha256' as const, digest: 'abcdef' }],
+  };
+
+  const [sha256, sha1] = dsRecordsForKey('example.com.', key, ['sha256', 'sha1']);
+
+  assert.deepEqual(sha256, { keyTag: 12345, algorithm: 8, digestType: 2, digest: 'ABCDEF' });
+  assert.equal(sha1.digestType, 1);
+  assert.equal(sha1.digest, computeDSDigest('example.com.', dnskeyRdata(257, 8, RFC_KEY), 'sha1'));
+  assert.equal(formatDSRecord('example.com', sha256), 'example.com. IN DS 12345 8 2 ABCDEF');
+});
@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createDomainTools } from '../src/tools/domains.js';
+import { Guardrails } from '../src/lib/guardrails.js';
+import type { GoogleCloudDNSClient } from '../src/lib/client.js';
+import type { ManagedZone } from '../src/types/index.js';
+
+const network = (name: string) => `https://compute.googleapis.com/compute/v1/projects/prod/global/networks/${name}`;
+
+function fakeClient(patches: ManagedZone[]): GoogleCloudDNSClient {
+  const client = {
+    projectId: 'prod',
+    forProject: () => client,
+    resolveNetworkUrl: (name: string) => (name.startsWith('https://') ? name : network(name)),
+    async getManagedZone(zoneName: string): Promise<ManagedZone> {
+      return {
+        name: zoneName,
+        dnsName: 'corp.internal.',
+        visibility: 'private',
+        dnssecConfig: { state: 'on' },
+        privateVisibilityConfig: { networks: [{ networkUrl: network('vpc-a') }] },
+        forwardingConfig: { targetNameServers: [{ ipv4Address: '10.0.0.53' }] },
+      };
+    },
+    async patchManagedZone(_zoneName: string, patch: ManagedZone) {
+      patches.push(patch);
+      return { id: 'op-1', status: 'done' };
+    },
+  };
+  return client as unknown as GoogleCloudDNSClient;
+}
+
+function updateZone(patches: ManagedZone[], guardrails = new Guardrails({ requireConfirmation: true })) {
+  const tool = createDomainTools(fakeClient(patches), guardrails).find(t => t.name === 'gcloud_dns_update_zone')!;
+  return tool.toDefinition().handler;
+}
+
+test('update_zone leaves the DNSSEC state to the DNSSEC tools', async () => {
+  const patches: ManagedZone[] = [];
+  const result = await updateZone(patches)({ zoneName: 'corp', dnssecState: 'off' });
+
+  assert.equal(result.isError, true);
+  assert.match(result.content[0].text, /gcloud_dns_disable_dnssec/);
+  assert.deepEqual(patches, []);
+});
+
+for (const [setting, args] of [
+  ['networks', { networks: ['vpc-b'] }],
+  ['forwarding targets', { forwardingTargets: [{ address: '10.0.0.54' }] }],
+] as const) {
+  test(`update_zone needs confirmation to replace a private zone's ${setting}`, async () => {
+    const patches: ManagedZone[] = [];
+    const update = updateZone(patches);
+
+    const first = await update({ zoneName: 'corp', ...args });
+    const error = (first.structuredContent as any).error;
+    assert.equal(error.code, 'CONFIRMATION_REQUIRED');
+    assert.deepEqual(patches, []);
+
+    const confirmed = await update({ zoneName: 'corp', ...args, confirm: error.confirmationToken });
+    assert.equal(confirmed.isError, undefined);
+    assert.equal(patches.length, 1);
+  });
+}
+
+test('update_zone does not ask for confirmation when the bindings stay the same', async () => {
+  const patches: ManagedZone[] = [];
+  const update = updateZone(patches);
+
+  assert.equal((await update({ zoneName: 'corp', description: 'Corporate names' })).isError, undefined);
+  assert.equal((await update({ zoneName: 'corp', networks: ['vpc-a'] })).isError, undefined);
+  assert.equal(patches.length, 2);
+});
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  NotFoundError,
+  PermissionDeniedError,
+  QuotaExceededError,
+  RateLimitError,
+  ServiceUnavailableError,
+  errorFromResponse,
+  errorResult,
+  withContext,
+} from '../src/lib/errors.js';
+
+const body = (message: string, reason: string) => ({ error: { code: 403, message, errors: [{ reason, message }] } });
+
+test('errorFromResponse maps status and Google reason to typed errors', () => {
+  assert.ok(errorFromResponse(404, { error: { message: 'The managed zone was not found.' } }, 'Not Found') instanceof NotFoundError);
+  assert.ok(errorFromResponse(403, body('Forbidden', 'forbidden'), 'Forbidden') instanceof PermissionDeniedError);
+  assert.ok(errorFromResponse(403, body('Quota exceeded', 'quotaExceeded'), 'Forbidden') instanceof QuotaExceededError);
+  assert.ok(errorFromResponse(403, body('Rate limit', 'rateLimitExceeded'), 'Forbidden') instanceof RateLimitError);
+
+  const unavailable = errorFromResponse(503, undefined, 'Service Unavailable');
+  assert.ok(unavailable instanceof ServiceUnavailableError);
+  assert.equal(unavailable.retryable, true);
+  assert.equal(unavailable.message, 'Google Cloud DNS API Error (503): Service Unavailable');
+});
+
+test('withContext keeps the error type and names the missing permission', () => {
+  const error = withContext(errorFromResponse(403, body('Forbidden', 'forbidden'), 'Forbidden'), "Failed to apply change in zone 'example'", 'dns.changes.create');
+
+  assert.ok(error instanceof PermissionDeniedError);
+  assert.equal(error.permission, 'dns.changes.create');
+  assert.match(error.message, /^Failed to apply change in zone 'example': Google Cloud DNS API Error \(403\)/);
+  assert.match(error.hint!, /roles\/dns\.admin/);
+  assert.match(withContext(errorFromResponse(403, body('Forbidden', 'forbidden'), ''), 'x', 'dns.managedZones.list').hint!, /roles\/dns\.reader/);
+});
+
+test('errorResult exposes a machine-readable code and hint', () => {
+  const result = errorResult('Error listing DNS records', withContext(errorFromResponse(429, {}, 'Too Many Requests'), 'Failed to list records'));
+
+  assert.equal(result.isError, true);
+  assert.deepEqual((result.structuredContent as any).error, {
+    code: 'RATE_LIMITED',
+    message: 'Failed to list records: Google Cloud DNS API Error (429): Too Many Requests',
+    retryable: true,
+    status: 429,
+    hint: new RateLimitError('').hint,
+  });
+  assert.match(result.content[0].text, /Error code: RATE_LIMITED \(retryable\)$/);
+
+  assert.equal((errorResult('Error', new Error('boom')).structuredContent as any).error.code, 'UNKNOWN');
+});
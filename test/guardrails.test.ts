@@ -0,0 +1,130 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Guardrails, isDestructive, parseGuardrailsPolicy } from '../src/lib/guardrails.js';
+import { ConfirmationRequiredError, PolicyViolationError } from '../src/lib/errors.js';
+import type { GoogleCloudDNSClient } from '../src/lib/client.js';
+
+function fakeClient(projectId: string = 'prod'): GoogleCloudDNSClient {
+  return {
+    projectId,
+    async getManagedZone(zoneName: string) {
+      return { name: zoneName, dnsName: 'example.com.' };
+    },
+  } as unknown as GoogleCloudDNSClient;
+}
+
+const www = { name: 'www.example.com.', type: 'A', ttl: 300, rrdatas: ['1.2.3.4'] };
+
+test('parseGuardrailsPolicy reads YAML and rejects unknown or inconsistent settings', () => {
+  const policy = parseGuardrailsPolicy([
+    'readOnlyZones: [legacy, staging/prod-zone]',
+    'protectedRecords:',
+    '  - name: "_acme-challenge*"',
+    '    types: [txt]',
+    'maxRrsetsPerChange: 10',
+    'minTtl: 60',
+    'requireConfirmation: true',
+  ].join('\n'));
+
+  assert.deepEqual(policy.protectedRecords, [{ name: '_acme-challenge*', types: ['TXT'] }]);
+  assert.equal(policy.maxRrsetsPerChange, 10);
+  assert.deepEqual(parseGuardrailsPolicy(''), {});
+
+  assert.throws(() => parseGuardrailsPolicy('maxRrsetPerChange: 10'), /Unknown settings: maxRrsetPerChange/);
+  assert.throws(() => parseGuardrailsPolicy('{ "minTtl": 600, "maxTtl": 60 }'), /minTtl must not be greater/);
+  assert.throws(() => parseGuardrailsPolicy('protectedRecords: [{ types: [MX] }]'), /protectedRecords\[0\]\.name/);
+  assert.throws(() => parseGuardrailsPolicy('maxRrsetsPerChange: 0'), /at least 1/);
+});
+
+test('checkZone blocks read-only zones by name or project/zone', () => {
+  const guardrails = new Guardrails({ readOnlyZones: ['legacy', 'staging/main'] });
+
+  assert.throws(() => guardrails.checkZone(fakeClient(), 'legacy'), PolicyViolationError);
+  assert.throws(() => guardrails.checkZone(fakeClient('staging'), 'main'), /read-only/);
+  assert.doesNotThrow(() => guardrails.checkZone(fakeClient('prod'), 'main'));
+});
+
+test('checkChange reports protected records, the rrset cap and TTL bounds together', async () => {
+  const guardrails = new Guardrails({
+    protectedRecords: [{ name: '_acme-challenge*', types: ['TXT'] }, { name: '@', types: ['MX'] }],
+    maxRrsetsPerChange: 2,
+    minTtl: 60,
+  });
+
+  await assert.rejects(
+    guardrails.checkChange(fakeClient(), 'main', {
+      additions: [
+        { name: '_acme-challenge.www.example.com.', type: 'TXT', ttl: 30, rrdatas: ['"token"'] },
+        { name: 'example.com.', type: 'MX', ttl: 300, rrdatas: ['10 mail.example.com.'] },
+        www,
+      ],
+    }),
+    (error: any) => {
+      assert.ok(error instanceof PolicyViolationError);
+      assert.match(error.message, /touches 3 record sets; at most 2/);
+      assert.match(error.message, /_acme-challenge\.www\.example\.com\. TXT TTL 30 is below the minimum of 60/);
+      assert.match(error.message, /_acme-challenge\.www\.example\.com\. TXT is protected/);
+      assert.match(error.message, /example\.com\. MX is protected \(rule '@' MX\)/);
+      return true;
+    }
+  );
+
+  // Other types at a protected name are allowed
+  await guardrails.checkChange(fakeClient(), 'main', { additions: [{ ...www, name: 'example.com.' }] });
+});
+
+test('protected label patterns cover names below the apex', async () => {
+  const guardrails = new Guardrails({ protectedRecords: [{ name: '_acme-challenge.*', types: ['TXT'] }, { name: 'api', types: ['TXT'] }] });
+  const txt = (name: string) => ({ additions: [{ name, type: 'TXT', ttl: 300, rrdatas: ['"token"'] }] });
+
+  for (const name of ['_acme-challenge.example.com.', '_acme-challenge.www.example.com.', '_ACME-Challenge.a.b.example.com.', 'api.example.com.']) {
+    await assert.rejects(guardrails.checkChange(fakeClient(), 'main', txt(name)), /is protected/, name);
+  }
+  // Plain relative names are apex-relative, and the label must lead the name
+  for (const name of ['api.www.example.com.', 'www._acme-challenge.example.com.', 'x_acme-challenge.example.com.']) {
+    await guardrails.checkChange(fakeClient(), 'main', txt(name));
+  }
+});
+
+test('the rrset cap applies to each change a bulk tool submits', async () => {
+  const guardrails = new Guardrails({ maxRrsetsPerChange: 2 });
+  const hosts = Array.from({ length: 3 }, (_, i) => ({ ...www, name: `h${i}.example.com.` }));
+
+  await assert.rejects(guardrails.checkChange(fakeClient(), 'main', { additions: hosts }), /touches 3 record sets; at most 2/);
+  await guardrails.checkChange(fakeClient(), 'main', { additions: hosts }, {
+    batches: [{ additions: hosts.slice(0, 2) }, { additions: hosts.slice(2) }],
+  });
+  await assert.rejects(
+    guardrails.checkChange(fakeClient(), 'main', { additions: hosts }, { batches: [{ additions: hosts }] }),
+    /touches 3 record sets/
+  );
+});
+
+test('destructive changes need a confirmation token bound to the exact change', async () => {
+  const guardrails = new Guardrails({ requireConfirmation: true });
+  const client = fakeClient();
+  const deletion = { deletions: [www] };
+
+  assert.equal(isDestructive(deletion), true);
+  assert.equal(isDestructive({ deletions: [www], additions: [{ ...www, rrdatas: ['5.6.7.8'] }] }), false);
+
+  // Dry runs and replacements go through without a token
+  await guardrails.checkChange(client, 'main', deletion, { dryRun: true });
+  await guardrails.checkChange(client, 'main', { deletions: [www], additions: [{ ...www, ttl: 600 }] });
+
+  let token = '';
+  await assert.rejects(guardrails.checkChange(client, 'main', deletion), (error: any) => {
+    assert.ok(error instanceof ConfirmationRequiredError);
+    assert.match(error.message, /Deleting www\.example\.com\. A requires confirmation/);
+    assert.match(error.hint, new RegExp(`confirm: '${error.token}'`));
+    token = error.token;
+    return true;
+  });
+
+  await guardrails.checkChange(client, 'main', deletion, { confirm: token });
+  await assert.rejects(
+    guardrails.checkChange(client, 'main', { deletions: [{ ...www, rrdatas: ['9.9.9.9'] }] }, { confirm: token }),
+    /does not match this operation/
+  );
+  await assert.rejects(guardrails.checkChange(client, 'other-zone', deletion, { confirm: token }), ConfirmationRequiredError);
+});
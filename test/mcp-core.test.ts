@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createMCPServer, filterTools, type ToolDefinition } from '../src/lib/mcp-core.js';
+
+function tool(name: string, readOnlyHint?: boolean): ToolDefinition {
+  return {
+    name,
+    description: name,
+    inputSchema: { type: 'object', properties: {} },
+    ...(readOnlyHint === undefined ? {} : { annotations: { readOnlyHint } }),
+    handler: async () => ({ content: [{ type: 'text', text: name }] }),
+  };
+}
+
+const tools = [
+  tool('gcloud_dns_list_zones', true),
+  tool('gcloud_dns_list_records', true),
+  tool('gcloud_dns_create_record', false),
+  tool('gcloud_dns_delete_record', false),
+  tool('gcloud_dns_unannotated'),
+];
+
+const names = (defs: ToolDefinition[]) => defs.map(def => def.name);
+
+test('filterTools applies read-only mode, then the allow and deny lists', () => {
+  assert.equal(filterTools(tools, {}).length, tools.length);
+
+  // Tools without readOnlyHint: true count as mutating
+  assert.deepEqual(names(filterTools(tools, { readOnly: true })), ['gcloud_dns_list_zones', 'gcloud_dns_list_records']);
+
+  assert.deepEqual(
+    names(filterTools(tools, { allowTools: ['gcloud_dns_list_*', 'gcloud_dns_create_record'], denyTools: ['*_records'] })),
+    ['gcloud_dns_list_zones', 'gcloud_dns_create_record']
+  );
+  assert.deepEqual(names(filterTools(tools, { readOnly: true, allowTools: ['*record*'] })), ['gcloud_dns_list_records']);
+});
+
+test('filterTools rejects patterns that match no tool', () => {
+  assert.throws(() => filterTools(tools, { denyTools: ['gcloud_dns_delete_zone'] }), /'gcloud_dns_delete_zone' does not match any tool/);
+  assert.throws(() => filterTools(tools, { allowTools: ['gcloud_dns_list.zones'] }), /does not match any tool/);
+});
+
+test('ListTools advertises annotations and CallTool only reaches registered tools', async () => {
+  const server = createMCPServer({ name: 'test', version: '1.0.0', readOnly: true }, tools);
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+  try {
+    const listed = await client.listTools();
+    assert.deepEqual(listed.tools.map(t => [t.name, t.annotations]), [
+      ['gcloud_dns_list_zones', { readOnlyHint: true }],
+      ['gcloud_dns_list_records', { readOnlyHint: true }],
+    ]);
+
+    const result = await client.callTool({ name: 'gcloud_dns_delete_record', arguments: {} });
+    assert.equal(result.isError, true);
+  } finally {
+    await client.close();
+  }
+});
@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_RETRY, backoffDelay, createLimiter, parseRetryAfter, sleep } from '../src/lib/retry.js';
+
+test('backoffDelay grows exponentially up to maxDelay with full jitter', () => {
+  assert.equal(backoffDelay(0, DEFAULT_RETRY, () => 1), 500);
+  assert.equal(backoffDelay(3, DEFAULT_RETRY, () => 1), 4000);
+  assert.equal(backoffDelay(10, DEFAULT_RETRY, () => 1), 30000);
+  assert.equal(backoffDelay(3, DEFAULT_RETRY, () => 0.5), 2000);
+});
+
+test('parseRetryAfter accepts seconds and HTTP dates', () => {
+  const now = Date.parse('2024-05-01T12:00:00Z');
+  assert.equal(parseRetryAfter('7', now), 7000);
+  assert.equal(parseRetryAfter('Wed, 01 May 2024 12:00:30 GMT', now), 30000);
+  assert.equal(parseRetryAfter(null, now), undefined);
+  assert.equal(parseRetryAfter('soon', now), undefined);
+});
+
+test('createLimiter never runs more tasks than allowed', async () => {
+  const limit = createLimiter(2);
+  let running = 0;
+  let peak = 0;
+
+  await Promise.all(Array.from({ length: 6 }, () => limit(async () => {
+    running++;
+    peak = Math.max(peak, running);
+    await sleep(5);
+    running--;
+  })));
+
+  assert.equal(peak, 2);
+});
@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatRoutingPolicy, mapLoadBalancerTargets, validateRoutingPolicy } from '../src/lib/routing.js';
+
+const ilb = {
+  loadBalancerType: 'regionalL4ilb' as const,
+  ipAddress: '10.128.0.5',
+  port: 80 as unknown as string,
+  ipProtocol: 'tcp' as const,
+  networkUrl: 'https://www.googleapis.com/compute/v1/projects/acme/global/networks/default',
+  project: 'acme',
+  region: 'us-east1',
+};
+
+test('validateRoutingPolicy normalizes item data and load balancer ports', () => {
+  const { policy, errors } = validateRoutingPolicy('api.example.com.', 'A', {
+    primaryBackup: {
+      primaryTargets: { internalLoadBalancers: [ilb] },
+      backupGeoTargets: { items: [{ location: 'europe-west1', rrdatas: [' 10.1.0.5 '] }] },
+      trickleTraffic: 0.1,
+    },
+  });
+
+  assert.deepEqual(errors, []);
+  assert.equal(policy.primaryBackup!.primaryTargets!.internalLoadBalancers![0].port, '80');
+  assert.deepEqual(policy.primaryBackup!.backupGeoTargets!.items![0].rrdatas, ['10.1.0.5']);
+});
+
+test('validateRoutingPolicy rejects ambiguous and malformed policies', () => {
+  const cases: Array<[unknown, RegExp]> = [
+    [{}, /exactly one of wrr, geo, primaryBackup/],
+    [{ wrr: { items: [{ weight: 1, rrdatas: ['1.1.1.1'] }] }, geo: { items: [] } }, /exactly one/],
+    [{ wrr: { items: [{ weight: -1, rrdatas: ['1.1.1.1'] }] } }, /weight must be a non-negative number/],
+    [{ wrr: { items: [{ weight: 0, rrdatas: ['1.1.1.1'] }] } }, /at least one non-zero weight/],
+    [{ wrr: { items: [{ weight: 1, rrdatas: ['not-an-ip'] }] } }, /items\[0\]\.rrdatas\[0\]: 'not-an-ip' is not a valid IPv4 address/],
+    [{ geo: { items: [{ location: 'us-east1', rrdatas: ['1.1.1.1'] }, { location: 'us-east1', rrdatas: ['2.2.2.2'] }] } }, /appears more than once/],
+    [{ geo: { items: [{ location: 'us-east1', healthCheckedTargets: { externalEndpoints: ['1.1.1.1'] } }] } }, /healthCheck is required/],
+  ];
+
+  for (const [policy, expected] of cases) {
+    const { errors } = validateRoutingPolicy('www.example.com.', 'A', policy as any);
+    assert.match(errors.join('\n'), expected);
+  }
+
+  const cname = validateRoutingPolicy('www.example.com.', 'CNAME', {
+    geo: { items: [{ location: 'us-east1', healthCheckedTargets: { internalLoadBalancers: [ilb] } }] },
+  });
+  assert.match(cname.errors[0], /only supported on A and AAAA records/);
+});
+
+test('validateRoutingPolicy qualifies single-label targets against the zone origin', () => {
+  const policy = { wrr: { items: [{ weight: 1, rrdatas: ['blue'] }, { weight: 1, rrdatas: ['green.example.net'] }] } };
+
+  const { policy: normalized, errors } = validateRoutingPolicy('www.example.com.', 'CNAME', policy, 'example.com.');
+  assert.deepEqual(errors, []);
+  assert.deepEqual(normalized.wrr!.items.map(item => item.rrdatas), [['blue.example.com.'], ['green.example.net.']]);
+
+  assert.match(validateRoutingPolicy('www.example.com.', 'CNAME', policy).errors[0], /single relative label/);
+});
+
+test('formatRoutingPolicy shows each item with its weight share or region', () => {
+  assert.equal(
+    formatRoutingPolicy({ wrr: { items: [{ weight: 3, rrdatas: ['10.0.0.1'] }, { weight: 1, healthCheckedTargets: { internalLoadBalancers: [ilb] } }] } }),
+    'Weighted round robin:\n' +
+    '    • weight 3 (75%) → 10.0.0.1\n' +
+    '    • weight 1 (25%) → ILB 10.128.0.5:80/tcp (us-east1)'
+  );
+  assert.equal(
+    formatRoutingPolicy({ geo: { enableFencing: true, items: [{ location: 'us-east1', rrdatas: ['10.0.0.1', '10.0.0.2'] }] } }, '  '),
+    'Geolocation (fencing enabled):\n  • us-east1 → 10.0.0.1, 10.0.0.2'
+  );
+});
+
+test('mapLoadBalancerTargets rewrites every load balancer target', () => {
+  const mapped = mapLoadBalancerTargets({
+    primaryBackup: {
+      primaryTargets: { internalLoadBalancers: [{ ...ilb, networkUrl: 'default' }] },
+      backupGeoTargets: { items: [{ location: 'us-west1', healthCheckedTargets: { internalLoadBalancers: [{ ...ilb, networkUrl: 'default' }] } }] },
+    },
+  }, target => ({ ...target, networkUrl: `resolved/${target.networkUrl}` }));
+
+  assert.equal(mapped.primaryBackup!.primaryTargets!.internalLoadBalancers![0].networkUrl, 'resolved/default');
+  assert.equal(mapped.primaryBackup!.backupGeoTargets!.items![0].healthCheckedTargets!.internalLoadBalancers![0].networkUrl, 'resolved/default');
+});
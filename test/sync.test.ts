@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseZoneSpec } from '../src/lib/spec.js';
+import { planSync } from '../src/lib/sync.js';
+import { splitChange } from '../src/lib/changes.js';
+
+const origin = 'example.com.';
+
+const live = [
+  { name: 'example.com.', type: 'SOA', ttl: 21600, rrdatas: ['ns1. hostmaster. 1 21600 3600 259200 300'] },
+  { name: 'example.com.', type: 'NS', ttl: 21600, rrdatas: ['ns1.'] },
+  { name: 'www.example.com.', type: 'A', ttl: 300, rrdatas: ['1.2.3.4'] },
+  { name: 'manual.example.com.', type: 'A', ttl: 300, rrdatas: ['9.9.9.9'] },
+  { name: 'old.example.com.', type: 'A', ttl: 300, rrdatas: ['8.8.8.8'] },
+  {
+    name: '_mcp-dns-sync.example.com.',
+    type: 'TXT',
+    ttl: 300,
+    rrdatas: [
+      '"heritage=mcp-gcloud-dns,owner=team,record=www/A"',
+      '"heritage=mcp-gcloud-dns,owner=team,record=old/A"',
+    ],
+  },
+];
+
+test('parseZoneSpec reads YAML with relative names and shorthand values', () => {
+  const records = parseZoneSpec([
+    'zone: example.com',
+    'ttl: 600',
+    'records:',
+    '  "@":',
+    '    TXT: ["v=spf1 -all"]',
+    '  www:',
+    '    a: { ttl: 60, rrdatas: ["1.2.3.4"] }',
+  ].join('\n'), origin);
+
+  assert.deepEqual(records, [
+    { name: 'example.com.', type: 'TXT', ttl: 600, rrdatas: ['"v=spf1 -all"'] },
+    { name: 'www.example.com.', type: 'A', ttl: 60, rrdatas: ['1.2.3.4'] },
+  ]);
+});
+
+test('parseZoneSpec rejects specs for another zone', () => {
+  assert.throws(() => parseZoneSpec('{"zone":"example.net.","records":{}}', origin), /managed zone is example.com./);
+});
+
+test('planSync without an owner prunes only when asked', () => {
+  const desired = [{ name: 'www.example.com.', type: 'A', ttl: 300, rrdatas: ['5.6.7.8'] }];
+
+  const keep = planSync(origin, live, desired);
+  assert.equal(keep.diff.updates.length, 1);
+  assert.equal(keep.diff.deletes.length, 0);
+
+  const prune = planSync(origin, live, desired, { prune: true });
+  assert.deepEqual(prune.diff.deletes.map(r => r.name).sort(), ['manual.example.com.', 'old.example.com.']);
+});
+
+test('planSync with an owner leaves unowned records alone and updates the registry', () => {
+  const desired = [
+    { name: 'www.example.com.', type: 'A', ttl: 300, rrdatas: ['5.6.7.8'] },
+    { name: 'manual.example.com.', type: 'A', ttl: 300, rrdatas: ['7.7.7.7'] },
+    { name: 'new.example.com.', type: 'A', ttl: 300, rrdatas: ['6.6.6.6'] },
+  ];
+
+  const { diff, conflicts } = planSync(origin, live, desired, { ownerId: 'team' });
+
+  assert.deepEqual(conflicts, ["manual.example.com. A already exists and is not owned by 'team' (set adopt to take it over)"]);
+  assert.deepEqual(diff.creates.map(r => r.name), ['new.example.com.']);
+  assert.deepEqual(diff.deletes.map(r => r.name), ['old.example.com.']);
+  assert.deepEqual(diff.updates.map(u => u.after.name), ['www.example.com.', '_mcp-dns-sync.example.com.']);
+  assert.deepEqual(diff.updates[1].after.rrdatas, [
+    '"heritage=mcp-gcloud-dns,owner=team,record=www/A"',
+    '"heritage=mcp-gcloud-dns,owner=team,record=new/A"',
+  ]);
+});
+
+test('splitChange keeps updates whole and respects the per-change limit', () => {
+  const desired = Array.from({ length: 5 }, (_, i) => ({ name: `h${i}.example.com.`, type: 'A', ttl: 300, rrdatas: ['1.1.1.1'] }));
+  desired.push({ name: 'www.example.com.', type: 'A', ttl: 300, rrdatas: ['5.6.7.8'] });
+
+  const { plan } = planSync(origin, live, desired, { prune: true });
+  const changes = splitChange(plan, 3);
+
+  for (const change of changes) {
+    assert.ok((change.additions?.length || 0) <= 3);
+    assert.ok((change.deletions?.length || 0) <= 3);
+  }
+  // Deletes come first, and the www update keeps its deletion and addition together
+  assert.equal(changes[0].deletions?.[0].name, 'manual.example.com.');
+  const withWww = changes.find(c => c.deletions?.some(r => r.name === 'www.example.com.'));
+  assert.ok(withWww?.additions?.some(r => r.name === 'www.example.com.'));
+
+  // A guardrails cap on rrsets touched splits further
+  const capped = splitChange(plan, 3, 2);
+  for (const change of capped) {
+    const touched = new Set([...(change.additions || []), ...(change.deletions || [])].map(r => `${r.name} ${r.type}`));
+    assert.ok(touched.size <= 2);
+  }
+  assert.ok(capped.length > changes.length);
+});
@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateRecord } from '../src/lib/validation.js';
+
+function ok(type: string, rrdatas: string[], name = 'host.example.com.') {
+  const result = validateRecord(name, type, rrdatas);
+  assert.deepEqual(result.errors, [], `${type} ${rrdatas.join(', ')}`);
+  return result;
+}
+
+function bad(type: string, rrdatas: string[], pattern: RegExp, name = 'host.example.com.') {
+  const result = validateRecord(name, type, rrdatas);
+  assert.ok(result.errors.some(e => pattern.test(`${e.field}: ${e.message}`)), JSON.stringify(result.errors));
+}
+
+test('addresses', () => {
+  ok('A', ['192.0.2.1']);
+  bad('A', ['192.0.2.256'], /rrdatas\[0\]: .*not a valid IPv4/);
+  assert.deepEqual(ok('AAAA', ['2001:DB8::1']).rrdatas, ['2001:db8::1']);
+  bad('AAAA', ['192.0.2.1'], /not a valid IPv6/);
+});
+
+test('host names get trailing dots and lower case', () => {
+  const result = ok('CNAME', ['Target.Example.com'], 'WWW.Example.com');
+  assert.equal(result.name, 'www.example.com.');
+  assert.deepEqual(result.rrdatas, ['target.example.com.']);
+  assert.equal(result.normalized.length, 2);
+
+  assert.equal(ok('A', ['192.0.2.1'], '*.example.com.').name, '*.example.com.');
+  bad('NS', ['bad host.example.com.'], /expected "hostname"/);
+  bad('PTR', ['-bad.example.com.'], /invalid characters/);
+  bad('A', ['192.0.2.1'], /^name: /, 'under score!.example.com.');
+});
+
+test('single-label targets are qualified against the origin or rejected', () => {
+  bad('CNAME', ['www'], /single relative label/);
+  bad('MX', ['10 mail'], /single relative label/);
+
+  assert.deepEqual(validateRecord('host.example.com.', 'CNAME', ['www'], 'example.com.').rrdatas, ['www.example.com.']);
+  assert.deepEqual(validateRecord('example.com.', 'MX', ['10 mail'], 'example.com.').rrdatas, ['10 mail.example.com.']);
+  assert.deepEqual(validateRecord('example.com.', 'NS', ['@'], 'example.com.').rrdatas, ['example.com.']);
+  // Multi-label targets without a trailing dot are still taken as absolute
+  assert.deepEqual(validateRecord('host.example.com.', 'CNAME', ['cdn.example.net'], 'example.com.').rrdatas, ['cdn.example.net.']);
+});
+
+test('MX, SRV and CAA', () => {
+  assert.deepEqual(ok('MX', ['10 Mail.example.com']).rrdatas, ['10 mail.example.com.']);
+  ok('MX', ['0 .']);
+  bad('MX', ['mail.example.com.'], /preference exchange/);
+  assert.deepEqual(ok('SRV', ['10 5 5060 sip.example.com']).rrdatas, ['10 5 5060 sip.example.com.']);
+  bad('SRV', ['10 5 70000 sip.example.com.'], /SRV port/);
+  assert.deepEqual(ok('CAA', ['0 ISSUE letsencrypt.org']).rrdatas, ['0 issue "letsencrypt.org"']);
+  assert.deepEqual(ok('CAA', ['0 contactemail security@example.com']).rrdatas, ['0 contactemail "security@example.com"']);
+  ok('CAA', ['0 contactphone "+1 555 0100"']);
+  bad('CAA', ['0 issue-wild "x"'], /expected "flags tag value"/);
+  bad('CAA', ['0 averyveryverylongtag "x"'], /longer than 15 characters/);
+});
+
+test('TXT values are quoted and long strings split', () => {
+  assert.deepEqual(ok('TXT', ['v=spf1 -all']).rrdatas, ['"v=spf1 -all"']);
+  assert.deepEqual(ok('TXT', ['"a" "b"']).rrdatas, ['"a" "b"']);
+
+  const long = 'k'.repeat(300);
+  assert.deepEqual(ok('TXT', [long]).rrdatas, [`"${'k'.repeat(255)}" "${'k'.repeat(45)}"`]);
+  bad('TXT', ['"unterminated'], /unterminated/);
+
+  // \DDD is a decimal octet, \X is X itself
+  assert.deepEqual(ok('TXT', ['"a\\065b \\"q\\" \\\\"']).rrdatas, ['"aAb \\"q\\" \\\\"']);
+  assert.deepEqual(ok('TXT', ['"tab\\009end"']).rrdatas, ['"tab\\009end"']);
+  assert.deepEqual(ok('TXT', ['"\\255\\000"']).rrdatas, ['"\\255\\000"']);
+  assert.deepEqual(ok('TXT', ['"caf\\195\\169"']).rrdatas, ['"café"']);
+  bad('TXT', ['"\\256"'], /not an octet/);
+});
+
+test('DNSSEC and certificate records', () => {
+  ok('DS', [`12345 13 2 ${'A'.repeat(64)}`]);
+  bad('DS', [`12345 13 2 ${'a'.repeat(40)}`], /64 hexadecimal digits/);
+  ok('TLSA', ['3 1 1 ABCDEF0123']);
+  bad('TLSA', ['4 1 1 abcd'], /TLSA usage/);
+  ok('SSHFP', [`4 2 ${'0'.repeat(64)}`]);
+  bad('SSHFP', ['4 2 xyz'], /hexadecimal/);
+});
+
+test('HTTPS and SVCB', () => {
+  assert.deepEqual(ok('HTTPS', ['1 . alpn=h2,h3']).rrdatas, ['1 . alpn=h2,h3']);
+  ok('SVCB', ['0 svc.example.com.']);
+  bad('HTTPS', ['0 . alpn=h2'], /alias mode/);
+  bad('HTTPS', ['1 . flavour=mint'], /unknown HTTPS parameter/);
+});
+
+test('multiple CNAME values and duplicates are rejected', () => {
+  bad('CNAME', ['a.example.com.', 'b.example.com.'], /exactly one value/);
+  bad('A', ['192.0.2.1', '192.0.2.1'], /duplicate values/);
+});
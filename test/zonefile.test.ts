@@ -0,0 +1,97 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseTTL, parseZoneFile, quoteText, renderZoneFile } from '../src/lib/zonefile.js';
+import { relativeName, resolveRecordName } from '../src/lib/names.js';
+
+test('relativeName shortens names inside the origin', () => {
+  assert.equal(relativeName('example.com.', 'example.com.'), '@');
+  assert.equal(relativeName('WWW.Example.com.', 'example.com.'), 'www');
+  assert.equal(relativeName('a.b.example.com', 'example.com.'), 'a.b');
+  assert.equal(relativeName('example.net.', 'example.com.'), 'example.net.');
+  assert.equal(relativeName('badexample.com.', 'example.com.'), 'badexample.com.');
+});
+
+test('resolveRecordName accepts apex, relative and absolute names', () => {
+  assert.equal(resolveRecordName('@', 'example.com.'), 'example.com.');
+  assert.equal(resolveRecordName('www', 'example.com.'), 'www.example.com.');
+  assert.equal(resolveRecordName('WWW.Example.COM', 'example.com.'), 'www.example.com.');
+  assert.equal(resolveRecordName('www.example.com.', 'example.com.'), 'www.example.com.');
+  assert.equal(resolveRecordName('www.other.com.', 'example.com.'), 'www.other.com.');
+});
+
+test('quoteText keeps quoted strings and escapes bare values', () => {
+  assert.equal(quoteText('"v=spf1 -all"'), '"v=spf1 -all"');
+  assert.equal(quoteText('"part one" "part two"'), '"part one" "part two"');
+  assert.equal(quoteText('say "hi"'), '"say \\"hi\\""');
+});
+
+test('renderZoneFile emits a sorted master file', () => {
+  const zoneFile = renderZoneFile('example.com.', [
+    { name: 'www.example.com.', type: 'A', ttl: 300, rrdatas: ['5.6.7.8', '1.2.3.4'] },
+    { name: 'example.com.', type: 'NS', ttl: 21600, rrdatas: ['ns-cloud-a1.googledomains.com.'] },
+    { name: 'example.com.', type: 'TXT', ttl: 300, rrdatas: ['v=spf1 -all'] },
+    { name: 'example.com.', type: 'SOA', ttl: 21600, rrdatas: ['ns-cloud-a1.googledomains.com. cloud-dns-hostmaster.google.com. 1 21600 3600 259200 300'] },
+    { name: 'api.example.com.', type: 'CNAME', ttl: 300, rrdatas: ['www.example.com.'] },
+  ]);
+
+  assert.equal(zoneFile, [
+    '$ORIGIN example.com.',
+    '$TTL 300',
+    '',
+    '@   21600 IN SOA   ns-cloud-a1.googledomains.com. cloud-dns-hostmaster.google.com. 1 21600 3600 259200 300',
+    '@   21600 IN NS    ns-cloud-a1.googledomains.com.',
+    '@         IN TXT   "v=spf1 -all"',
+    'api       IN CNAME www.example.com.',
+    'www       IN A     1.2.3.4',
+    'www       IN A     5.6.7.8',
+    '',
+  ].join('\n'));
+});
+
+test('parseZoneFile handles directives, parentheses, relative names and TXT escapes', () => {
+  const records = parseZoneFile([
+    '$ORIGIN example.com.',
+    '$TTL 1h',
+    '@ IN SOA ns1 hostmaster (',
+    '      2024010101 ; serial',
+    '      7200 3600 1209600 300 )',
+    '        IN NS ns1',
+    '        IN MX 10 mail',
+    'www 300 IN A 1.2.3.4',
+    '    IN A 5.6.7.8',
+    'txt IN TXT "v=spf1 include:_spf.example.net -all" "say \\"hi\\""',
+    'bare TXT hello',
+    'alias.example.com. IN 60 CNAME www',
+  ].join('\n'));
+
+  assert.deepEqual(records, [
+    { name: 'example.com.', type: 'SOA', ttl: 3600, rrdatas: ['ns1.example.com. hostmaster.example.com. 2024010101 7200 3600 1209600 300'] },
+    { name: 'example.com.', type: 'NS', ttl: 3600, rrdatas: ['ns1.example.com.'] },
+    { name: 'example.com.', type: 'MX', ttl: 3600, rrdatas: ['10 mail.example.com.'] },
+    { name: 'www.example.com.', type: 'A', ttl: 300, rrdatas: ['1.2.3.4', '5.6.7.8'] },
+    { name: 'txt.example.com.', type: 'TXT', ttl: 3600, rrdatas: ['"v=spf1 include:_spf.example.net -all" "say \\"hi\\""'] },
+    { name: 'bare.example.com.', type: 'TXT', ttl: 3600, rrdatas: ['"hello"'] },
+    { name: 'alias.example.com.', type: 'CNAME', ttl: 60, rrdatas: ['www.example.com.'] },
+  ]);
+});
+
+test('parseZoneFile round-trips renderZoneFile output', () => {
+  const original = [
+    { name: 'example.com.', type: 'TXT', ttl: 300, rrdatas: ['"a b"'] },
+    { name: 'www.example.com.', type: 'A', ttl: 60, rrdatas: ['1.2.3.4'] },
+  ];
+  assert.deepEqual(parseZoneFile(renderZoneFile('example.com.', original)), original);
+});
+
+test('parseZoneFile rejects unsupported input with line numbers', () => {
+  assert.throws(() => parseZoneFile('$INCLUDE other.zone', { origin: 'example.com.' }), /Line 1: \$INCLUDE is not supported/);
+  assert.throws(() => parseZoneFile('www A 1.2.3.4', { origin: 'example.com.' }), /no TTL/);
+  assert.throws(() => parseZoneFile('$TTL 300\nwww A (1.2.3.4', { origin: 'example.com.' }), /unbalanced/);
+});
+
+test('parseTTL accepts BIND unit suffixes', () => {
+  assert.equal(parseTTL('300'), 300);
+  assert.equal(parseTTL('1h30m'), 5400);
+  assert.equal(parseTTL('1w'), 604800);
+  assert.equal(parseTTL('A'), undefined);
+});